@@ -4,6 +4,15 @@ set -e
 # Default values
 CONNECTION_STRING=""
 TOOLS_CONFIG=""
+PROFILES=""
+API_KEYS=""
+READ_ONLY=""
+CONFIRM_DESTRUCTIVE=""
+AUDIT=""
+BUDGET=""
+EXPORT_DIR=""
+IMPORT_DIR=""
+MIGRATIONS_DIR=""
 HTTP_MODE=""
 PORT="${PORT:-7409}"
 
@@ -21,6 +30,58 @@ if [ -n "$SIERRA_TOOLS_CONFIG" ]; then
     TOOLS_CONFIG="--tools-config $SIERRA_TOOLS_CONFIG"
 fi
 
+if [ -n "$SIERRA_PROFILES" ]; then
+    PROFILES="--profiles $SIERRA_PROFILES"
+fi
+
+if [ -n "$SIERRA_API_KEYS" ]; then
+    API_KEYS="--api-keys $SIERRA_API_KEYS"
+fi
+
+if [ "$SIERRA_READ_ONLY" = "true" ]; then
+    READ_ONLY="--read-only"
+fi
+
+if [ "$SIERRA_CONFIRM_DESTRUCTIVE" = "true" ]; then
+    CONFIRM_DESTRUCTIVE="--confirm-destructive"
+fi
+
+if [ -n "$SIERRA_AUDIT_LOG" ]; then
+    AUDIT="--audit-log $SIERRA_AUDIT_LOG"
+fi
+
+if [ -n "$SIERRA_AUDIT_PROFILE" ]; then
+    AUDIT="$AUDIT --audit-profile $SIERRA_AUDIT_PROFILE"
+fi
+
+if [ -n "$SIERRA_AUDIT_TABLE" ]; then
+    AUDIT="$AUDIT --audit-table $SIERRA_AUDIT_TABLE"
+fi
+
+if [ -n "$SIERRA_MAX_RESPONSE_BYTES" ]; then
+    BUDGET="--max-response-bytes $SIERRA_MAX_RESPONSE_BYTES"
+fi
+
+if [ -n "$SIERRA_MAX_RESPONSE_ROWS" ]; then
+    BUDGET="$BUDGET --max-response-rows $SIERRA_MAX_RESPONSE_ROWS"
+fi
+
+if [ -n "$SIERRA_MAX_CELL_LENGTH" ]; then
+    BUDGET="$BUDGET --max-cell-length $SIERRA_MAX_CELL_LENGTH"
+fi
+
+if [ -n "$SIERRA_EXPORT_DIR" ]; then
+    EXPORT_DIR="--export-dir $SIERRA_EXPORT_DIR"
+fi
+
+if [ -n "$SIERRA_IMPORT_DIR" ]; then
+    IMPORT_DIR="--import-dir $SIERRA_IMPORT_DIR"
+fi
+
+if [ -n "$SIERRA_MIGRATIONS_DIR" ]; then
+    MIGRATIONS_DIR="--migrations-dir $SIERRA_MIGRATIONS_DIR"
+fi
+
 # Build the command
 CMD="node build/index.js"
 
@@ -36,5 +97,41 @@ if [ -n "$TOOLS_CONFIG" ]; then
     CMD="$CMD $TOOLS_CONFIG"
 fi
 
+if [ -n "$PROFILES" ]; then
+    CMD="$CMD $PROFILES"
+fi
+
+if [ -n "$API_KEYS" ]; then
+    CMD="$CMD $API_KEYS"
+fi
+
+if [ -n "$READ_ONLY" ]; then
+    CMD="$CMD $READ_ONLY"
+fi
+
+if [ -n "$CONFIRM_DESTRUCTIVE" ]; then
+    CMD="$CMD $CONFIRM_DESTRUCTIVE"
+fi
+
+if [ -n "$AUDIT" ]; then
+    CMD="$CMD $AUDIT"
+fi
+
+if [ -n "$BUDGET" ]; then
+    CMD="$CMD $BUDGET"
+fi
+
+if [ -n "$EXPORT_DIR" ]; then
+    CMD="$CMD $EXPORT_DIR"
+fi
+
+if [ -n "$IMPORT_DIR" ]; then
+    CMD="$CMD $IMPORT_DIR"
+fi
+
+if [ -n "$MIGRATIONS_DIR" ]; then
+    CMD="$CMD $MIGRATIONS_DIR"
+fi
+
 # Execute the command
 exec $CMD "$@"
@@ -8,6 +8,15 @@ set -e
 # Default values
 CONNECTION_STRING=""
 TOOLS_CONFIG=""
+PROFILES=""
+API_KEYS=""
+READ_ONLY=""
+CONFIRM_DESTRUCTIVE=""
+AUDIT=""
+BUDGET=""
+EXPORT_DIR=""
+IMPORT_DIR=""
+MIGRATIONS_DIR=""
 HTTP_MODE=""
 PORT="${PORT:-7409}"
 
@@ -53,6 +62,124 @@ if [ -n "$SIERRA_TOOLS_CONFIG" ]; then
     echo "[Sierra MCP] Using tools config: $SIERRA_TOOLS_CONFIG"
 fi
 
+# ============================================
+# Connection Profiles
+# ============================================
+# Optional: Named connection profiles file
+# ============================================
+
+if [ -n "$SIERRA_PROFILES" ]; then
+    PROFILES="--profiles $SIERRA_PROFILES"
+    echo "[Sierra MCP] Using connection profiles: $SIERRA_PROFILES"
+fi
+
+# ============================================
+# Optional: API key authentication for HTTP
+# ============================================
+
+if [ -n "$SIERRA_API_KEYS" ]; then
+    API_KEYS="--api-keys $SIERRA_API_KEYS"
+    echo "[Sierra MCP] Using API keys: $SIERRA_API_KEYS"
+fi
+
+# ============================================
+# Read-Only Mode
+# ============================================
+# Optional: Block all writes at the session level
+# ============================================
+
+if [ "$SIERRA_READ_ONLY" = "true" ]; then
+    READ_ONLY="--read-only"
+    echo "[Sierra MCP] Read-only mode enabled"
+fi
+
+# ============================================
+# Destructive Operation Confirmation
+# ============================================
+# Optional: Preview drops and deletes, run them only with a token
+# ============================================
+
+if [ "$SIERRA_CONFIRM_DESTRUCTIVE" = "true" ]; then
+    CONFIRM_DESTRUCTIVE="--confirm-destructive"
+    echo "[Sierra MCP] Destructive operations require confirmation"
+fi
+
+# ============================================
+# Audit Log
+# ============================================
+# Optional: JSON Lines file and/or table of every tool call and statement
+# ============================================
+
+if [ -n "$SIERRA_AUDIT_LOG" ]; then
+    AUDIT="--audit-log $SIERRA_AUDIT_LOG"
+    echo "[Sierra MCP] Audit log file: $SIERRA_AUDIT_LOG"
+fi
+
+if [ -n "$SIERRA_AUDIT_PROFILE" ]; then
+    AUDIT="$AUDIT --audit-profile $SIERRA_AUDIT_PROFILE"
+    echo "[Sierra MCP] Audit log table in profile: $SIERRA_AUDIT_PROFILE"
+fi
+
+if [ -n "$SIERRA_AUDIT_TABLE" ]; then
+    AUDIT="$AUDIT --audit-table $SIERRA_AUDIT_TABLE"
+fi
+
+# ============================================
+# Response Budget
+# ============================================
+# Optional: limits on the size of a single tool response (0 disables a limit)
+# ============================================
+
+if [ -n "$SIERRA_MAX_RESPONSE_BYTES" ]; then
+    BUDGET="--max-response-bytes $SIERRA_MAX_RESPONSE_BYTES"
+    echo "[Sierra MCP] Max response bytes: $SIERRA_MAX_RESPONSE_BYTES"
+fi
+
+if [ -n "$SIERRA_MAX_RESPONSE_ROWS" ]; then
+    BUDGET="$BUDGET --max-response-rows $SIERRA_MAX_RESPONSE_ROWS"
+    echo "[Sierra MCP] Max response rows: $SIERRA_MAX_RESPONSE_ROWS"
+fi
+
+if [ -n "$SIERRA_MAX_CELL_LENGTH" ]; then
+    BUDGET="$BUDGET --max-cell-length $SIERRA_MAX_CELL_LENGTH"
+    echo "[Sierra MCP] Max cell length: $SIERRA_MAX_CELL_LENGTH"
+fi
+
+# ============================================
+# File Export
+# ============================================
+# Optional: directory sierra_export writes files to (enables the tool)
+# ============================================
+
+if [ -n "$SIERRA_EXPORT_DIR" ]; then
+    EXPORT_DIR="--export-dir $SIERRA_EXPORT_DIR"
+    echo "[Sierra MCP] Export directory: $SIERRA_EXPORT_DIR"
+fi
+
+# ============================================
+# File Import
+# ============================================
+# Optional: directory sierra_import reads files from
+# (inline rows can be imported without it)
+# ============================================
+
+if [ -n "$SIERRA_IMPORT_DIR" ]; then
+    IMPORT_DIR="--import-dir $SIERRA_IMPORT_DIR"
+    echo "[Sierra MCP] Import directory: $SIERRA_IMPORT_DIR"
+fi
+
+# ============================================
+# Migrations
+# ============================================
+# Optional: directory of numbered up/down SQL migration files
+# (enables sierra_manage_migrations)
+# ============================================
+
+if [ -n "$SIERRA_MIGRATIONS_DIR" ]; then
+    MIGRATIONS_DIR="--migrations-dir $SIERRA_MIGRATIONS_DIR"
+    echo "[Sierra MCP] Migrations directory: $SIERRA_MIGRATIONS_DIR"
+fi
+
 # ============================================
 # Build and Execute Command
 # ============================================
@@ -62,6 +189,15 @@ CMD="node build/index.js"
 [ -n "$HTTP_MODE" ] && CMD="$CMD $HTTP_MODE"
 [ -n "$CONNECTION_STRING" ] && CMD="$CMD $CONNECTION_STRING"
 [ -n "$TOOLS_CONFIG" ] && CMD="$CMD $TOOLS_CONFIG"
+[ -n "$PROFILES" ] && CMD="$CMD $PROFILES"
+[ -n "$API_KEYS" ] && CMD="$CMD $API_KEYS"
+[ -n "$READ_ONLY" ] && CMD="$CMD $READ_ONLY"
+[ -n "$CONFIRM_DESTRUCTIVE" ] && CMD="$CMD $CONFIRM_DESTRUCTIVE"
+[ -n "$AUDIT" ] && CMD="$CMD $AUDIT"
+[ -n "$BUDGET" ] && CMD="$CMD $BUDGET"
+[ -n "$EXPORT_DIR" ] && CMD="$CMD $EXPORT_DIR"
+[ -n "$IMPORT_DIR" ] && CMD="$CMD $IMPORT_DIR"
+[ -n "$MIGRATIONS_DIR" ] && CMD="$CMD $MIGRATIONS_DIR"
 
 echo "[Sierra MCP] Executing: $CMD"
 exec $CMD "$@"
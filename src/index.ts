@@ -1,8 +1,7 @@
 #!/usr/bin/env node
 import { program } from 'commander';
-import fs from 'node:fs';
 import { randomUUID } from 'node:crypto';
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
@@ -16,11 +15,33 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 
-import type { SierraTool, ToolOutput } from './types/tool.js';
+import type { GetConnectionStringFn, SierraTool, ToolOutput } from './types/tool.js';
 import { DatabaseConnection } from './utils/connection.js';
+import { STDIO_SESSION_ID, closeAllSessions, closeSession, getSession } from './utils/session.js';
+import { getDefaultProfile, getProfile, isConnectionStringArgumentAllowed, listProfiles, loadProfiles } from './utils/profiles.js';
+import { restrictToReadOnly } from './utils/readonly.js';
+import { setConfirmationRequired } from './utils/confirmation.js';
+import { authenticate, generateApiKey, isAuthEnabled, loadApiKeys, type ApiKey } from './utils/auth.js';
+import { applyPolicyToTool, enforcePolicy, getPolicyWarnings, loadPolicy, type ToolPolicy } from './utils/policy.js';
+import { capToolOutput, setResponseBudget } from './utils/budget.js';
+import { closeAudit, configureAudit, recordToolCall, runWithAuditContext, type AuditContext } from './utils/audit.js';
+import {
+  getExportDirectory,
+  getImportDirectory,
+  getMigrationsDirectory,
+  setExportDirectory,
+  setImportDirectory,
+  setMigrationsDirectory
+} from './utils/files.js';
 
 import { manageSchemaTools } from './tools/schema.js';
+import { schemaDiffTool } from './tools/diff.js';
+import { manageMigrationsTool } from './tools/migrations.js';
 import { executeQueryTool, executeMutationTool, executeSqlTool } from './tools/data.js';
+import { explainQueryTool } from './tools/explain.js';
+import { exportTool } from './tools/export.js';
+import { importTool } from './tools/import.js';
+import { transactionTool } from './tools/transaction.js';
 import { analyzeDatabaseTool } from './tools/analyze.js';
 import { monitorDatabaseTool } from './tools/monitor.js';
 import { manageIndexesTool } from './tools/indexes.js';
@@ -31,15 +52,163 @@ import { manageUsersTool } from './tools/users.js';
 program
   .version('1.0.0')
   .option('-cs, --connection-string <string>', 'PostgreSQL connection string')
-  .option('-tc, --tools-config <path>', 'Path to tools configuration JSON file')
+  .option('-tc, --tools-config <path>', 'Path to tools configuration / permission policy JSON file')
+  .option('-p, --profiles <path>', 'Path to named connection profiles JSON file')
+  .option('--read-only', 'Open every database session read-only and hide mutating tools and operations')
+  .option('--confirm-destructive', 'Require a confirmation token before destructive operations run')
+  .option('--api-keys <path>', 'Path to hashed API keys JSON file (enables authentication for the HTTP transport)')
+  .option('--audit-log <path>', 'Append a JSON Lines audit record of every tool call and executed statement to this file')
+  .option('--audit-profile <name>', 'Also write audit records to a table in the database of this connection profile')
+  .option('--audit-table <name>', 'Audit table name, optionally schema-qualified (default: sierra_audit_log)')
+  .option('--max-response-bytes <number>', 'Byte budget for a single tool response, 0 for no limit (default: 100000)')
+  .option('--max-response-rows <number>', 'Rows or list items shown per array in a tool response, 0 for no limit (default: 1000)')
+  .option('--max-cell-length <number>', 'Characters shown per text or bytea value in a tool response, 0 for no limit (default: 2000)')
+  .option('--export-dir <path>', 'Directory sierra_export writes files to (the tool is only offered when set)')
+  .option('--import-dir <path>', 'Directory sierra_import reads files from and writes reject files to (inline rows only when unset)')
+  .option('--migrations-dir <path>', 'Directory of numbered up/down SQL migration files for sierra_manage_migrations (the tool is only offered when set)')
+  .option('--generate-api-key', 'Print a new API key and its hash for the API keys file, then exit')
   .option('--http', 'Use HTTP transport instead of stdio (for Smithery deployment)')
   .option('--port <number>', 'Port for HTTP server (default: 7409)', '7409')
   .parse(process.argv);
 
 const options = program.opts();
 
-function getConnectionString(connectionStringArg?: string): string {
+if (options.generateApiKey) {
+  const { key, hash } = generateApiKey();
+  console.log(`API key: ${key}\nHash:    ${hash}`);
+  process.exit(0);
+}
+
+const readOnly = Boolean(options.readOnly) || process.env.SIERRA_READ_ONLY === 'true';
+DatabaseConnection.setReadOnly(readOnly);
+setConfirmationRequired(Boolean(options.confirmDestructive) || process.env.SIERRA_CONFIRM_DESTRUCTIVE === 'true');
+
+const profilesPath = options.profiles || process.env.SIERRA_PROFILES;
+if (profilesPath) {
+  try {
+    loadProfiles(profilesPath);
+    console.error(`[Sierra MCP] Loaded connection profiles from ${profilesPath}: ${listProfiles().map(p => p.name).join(', ')}`);
+  } catch (error) {
+    console.error(`[Sierra MCP Error] Could not load connection profiles from ${profilesPath}. Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+const apiKeysPath = options.apiKeys || process.env.SIERRA_API_KEYS;
+if (apiKeysPath) {
+  try {
+    loadApiKeys(apiKeysPath);
+    console.error(`[Sierra MCP] Loaded API keys from ${apiKeysPath}. HTTP requests must authenticate.`);
+  } catch (error) {
+    console.error(`[Sierra MCP Error] Could not load API keys from ${apiKeysPath}. Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+const budgetSettings: Array<[keyof Parameters<typeof setResponseBudget>[0], string | undefined, string]> = [
+  ['maxBytes', options.maxResponseBytes ?? process.env.SIERRA_MAX_RESPONSE_BYTES, '--max-response-bytes'],
+  ['maxRows', options.maxResponseRows ?? process.env.SIERRA_MAX_RESPONSE_ROWS, '--max-response-rows'],
+  ['maxCellLength', options.maxCellLength ?? process.env.SIERRA_MAX_CELL_LENGTH, '--max-cell-length']
+];
+for (const [key, value, flag] of budgetSettings) {
+  if (value === undefined) {
+    continue;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    console.error(`[Sierra MCP Error] ${flag} must be a non-negative integer, got "${value}"`);
+    process.exit(1);
+  }
+  setResponseBudget({ [key]: parsed });
+}
+
+const auditLogPath = options.auditLog || process.env.SIERRA_AUDIT_LOG;
+const auditProfileName = options.auditProfile || process.env.SIERRA_AUDIT_PROFILE;
+if (auditLogPath || auditProfileName) {
+  try {
+    const auditProfile = auditProfileName ? getProfile(auditProfileName) : undefined;
+    if (auditProfileName && !auditProfile) {
+      throw new Error(`Unknown connection profile "${auditProfileName}"`);
+    }
+    configureAudit({
+      file: auditLogPath,
+      profile: auditProfile,
+      table: options.auditTable || process.env.SIERRA_AUDIT_TABLE
+    });
+    const sinks = [auditLogPath, auditProfileName && `profile ${auditProfileName}`].filter(Boolean);
+    console.error(`[Sierra MCP] Audit log enabled: ${sinks.join(', ')}`);
+  } catch (error) {
+    console.error(`[Sierra MCP Error] Could not set up the audit log. Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+const exportDir = options.exportDir || process.env.SIERRA_EXPORT_DIR;
+if (exportDir) {
+  try {
+    setExportDirectory(exportDir);
+    console.error(`[Sierra MCP] Exports enabled in ${getExportDirectory()}`);
+  } catch (error) {
+    console.error(`[Sierra MCP Error] Could not use export directory ${exportDir}. Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+const importDir = options.importDir || process.env.SIERRA_IMPORT_DIR;
+if (importDir) {
+  try {
+    setImportDirectory(importDir);
+    console.error(`[Sierra MCP] File imports enabled from ${getImportDirectory()}`);
+  } catch (error) {
+    console.error(`[Sierra MCP Error] Could not use import directory ${importDir}. Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+const migrationsDir = options.migrationsDir || process.env.SIERRA_MIGRATIONS_DIR;
+if (migrationsDir) {
+  try {
+    setMigrationsDirectory(migrationsDir);
+    console.error(`[Sierra MCP] Migrations enabled from ${getMigrationsDirectory()}`);
+  } catch (error) {
+    console.error(`[Sierra MCP Error] Could not use migrations directory ${migrationsDir}. Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+const toolsConfigPath: string | undefined = options.toolsConfig;
+let policy: ToolPolicy | undefined;
+if (toolsConfigPath) {
+  try {
+    policy = loadPolicy(toolsConfigPath);
+  } catch (error) {
+    console.error(`[Sierra MCP Error] Could not load tools configuration from ${toolsConfigPath}. Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+function getConnectionString(connectionStringArg?: string, profileArg?: string): string {
+  if (connectionStringArg && profileArg) {
+    throw new McpError(ErrorCode.InvalidParams, 'Provide either connectionString or profile, not both.');
+  }
+  if (profileArg) {
+    const profile = getProfile(profileArg);
+    if (!profile) {
+      const available = listProfiles().map(p => p.name);
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown connection profile "${profileArg}". Available profiles: ${available.length > 0 ? available.join(', ') : '(none configured)'}`
+      );
+    }
+    return profile.connectionString;
+  }
   if (connectionStringArg) {
+    if (!isConnectionStringArgumentAllowed()) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Raw connection strings are disabled by the profiles configuration. Use the profile argument instead.'
+      );
+    }
     return connectionStringArg;
   }
   const cliConnectionString = options.connectionString;
@@ -50,32 +219,77 @@ function getConnectionString(connectionStringArg?: string): string {
   if (envConnectionString) {
     return envConnectionString;
   }
+  const defaultProfile = getDefaultProfile();
+  if (defaultProfile) {
+    return defaultProfile.connectionString;
+  }
   throw new McpError(
     ErrorCode.InvalidParams,
-    'No connection string provided. Provide one in the tool arguments, via the --connection-string CLI option, or set the POSTGRES_CONNECTION_STRING environment variable.'
+    'No connection string provided. Provide a profile or connection string in the tool arguments, via the --connection-string CLI option, set the POSTGRES_CONNECTION_STRING environment variable, or configure a defaultProfile.'
   );
 }
 
+/** Calls made with a key bound to a profile always use that profile */
+function getConnectionStringForKey(key: ApiKey): GetConnectionStringFn {
+  if (!key.profile) {
+    return getConnectionString;
+  }
+  const keyProfile = key.profile;
+  return (connectionStringArg?: string, profileArg?: string) => {
+    if (connectionStringArg || (profileArg && profileArg !== keyProfile)) {
+      throw new McpError(ErrorCode.InvalidParams, `API key "${key.name}" is restricted to connection profile "${keyProfile}".`);
+    }
+    return getConnectionString(undefined, keyProfile);
+  };
+}
+
+/** What one MCP server instance exposes: the stdio client, or an HTTP session of an API key */
+interface ToolAccess {
+  policy?: ToolPolicy;
+  enabledTools: SierraTool[];
+  enabledToolsMap: Record<string, SierraTool>;
+  getConnectionString: GetConnectionStringFn;
+  /** API key the server was created for, recorded in the audit log */
+  keyName?: string;
+}
+
 class SierraDBServer {
   private server: Server;
+  private sessionServers: Server[] = [];
   public availableToolsList: SierraTool[];
-  private enabledTools: SierraTool[];
-  private enabledToolsMap: Record<string, SierraTool>;
+  private access: ToolAccess;
+  private keyAccess = new Map<string, ToolAccess>();
 
   constructor(initialTools: SierraTool[] = []) {
     this.availableToolsList = [...initialTools];
-    this.enabledTools = [];
-    this.enabledToolsMap = {};
+    this.access = { policy, enabledTools: [], enabledToolsMap: {}, getConnectionString };
     this.loadAndFilterTools();
 
-    this.server = new Server(
+    this.server = this.createServer();
+
+    process.on('SIGINT', async () => {
+      await this.cleanup();
+      process.exit(0);
+    });
+    process.on('SIGTERM', async () => {
+      await this.cleanup();
+      process.exit(0);
+    });
+  }
+
+  /**
+   * Each HTTP session gets its own Server so that responses and `extra.sessionId`
+   * are bound to that session's transport. Stdio uses the single default server.
+   */
+  private createServer(access: ToolAccess = this.access): Server {
+    const server = new Server(
       {
         name: 'sierra-db-query',
         version: '1.0.0',
       },
       {
         capabilities: {
-          tools: this.enabledTools.reduce((acc, tool) => {
+          tools: access.enabledTools.reduce((acc, tool) => {
             acc[tool.name] = {
               name: tool.name,
               description: tool.description,
@@ -87,42 +301,62 @@ class SierraDBServer {
       }
     );
 
-    this.setupToolHandlers();
-    this.server.onerror = (error) => console.error('[Sierra MCP Error]', error);
+    this.setupToolHandlers(server, access);
+    server.onerror = (error) => console.error('[Sierra MCP Error]', error);
+    return server;
+  }
 
-    process.on('SIGINT', async () => {
-      await this.cleanup();
-      process.exit(0);
-    });
-    process.on('SIGTERM', async () => {
-      await this.cleanup();
-      process.exit(0);
-    });
+  /** Apply a tool policy and read-only mode to the available tools */
+  private filterTools(toolPolicy: ToolPolicy | undefined): SierraTool[] {
+    let toolsToEnable = [...this.availableToolsList];
+    if (toolPolicy) {
+      toolsToEnable = toolsToEnable
+        .map(tool => applyPolicyToTool(toolPolicy, tool))
+        .filter((tool): tool is SierraTool => tool !== null);
+    }
+    if (readOnly) {
+      toolsToEnable = toolsToEnable
+        .map(tool => restrictToReadOnly(tool))
+        .filter((tool): tool is SierraTool => tool !== null);
+    }
+    return toolsToEnable;
+  }
+
+  private createAccess(toolPolicy: ToolPolicy | undefined, getConnectionStringFn: GetConnectionStringFn, keyName?: string): ToolAccess {
+    const enabledTools = this.filterTools(toolPolicy);
+    return {
+      policy: toolPolicy,
+      enabledTools,
+      enabledToolsMap: enabledTools.reduce((acc, tool) => {
+        acc[tool.name] = tool;
+        return acc;
+      }, {} as Record<string, SierraTool>),
+      getConnectionString: getConnectionStringFn,
+      keyName
+    };
+  }
+
+  private accessForKey(key: ApiKey): ToolAccess {
+    let access = this.keyAccess.get(key.name);
+    if (!access) {
+      access = this.createAccess(key.policy ?? policy, getConnectionStringForKey(key), key.name);
+      this.keyAccess.set(key.name, access);
+    }
+    return access;
   }
 
   private loadAndFilterTools(): void {
-    let toolsToEnable = [...this.availableToolsList];
-    const toolsConfigPath = options.toolsConfig;
+    this.access = this.createAccess(policy, getConnectionString);
+    this.keyAccess.clear();
 
-    if (toolsConfigPath) {
-      try {
-        const configContent = fs.readFileSync(toolsConfigPath, 'utf-8');
-        const config = JSON.parse(configContent);
-        if (config && Array.isArray(config.enabledTools) && config.enabledTools.every((t: unknown) => typeof t === 'string')) {
-          const enabledToolNames = new Set(config.enabledTools as string[]);
-          toolsToEnable = this.availableToolsList.filter(tool => enabledToolNames.has(tool.name));
-          console.error(`[Sierra MCP] Loaded tools configuration from ${toolsConfigPath}. Enabled tools: ${toolsToEnable.map(t => t.name).join(', ')}`);
-
-          for (const requestedName of enabledToolNames) {
-            if (!this.availableToolsList.some(tool => tool.name === requestedName)) {
-              console.warn(`[Sierra MCP Warning] Tool "${requestedName}" specified in config but not found.`);
-            }
-          }
-        } else {
-          console.error(`[Sierra MCP Warning] Invalid tools configuration file format at ${toolsConfigPath}.`);
-        }
-      } catch (error) {
-        console.error(`[Sierra MCP Warning] Could not read tools configuration file at ${toolsConfigPath}. Error: ${error instanceof Error ? error.message : String(error)}.`);
+    let policyTools = this.availableToolsList;
+    if (policy) {
+      const toolPolicy = policy;
+      policyTools = policyTools.filter(tool => applyPolicyToTool(toolPolicy, tool) !== null);
+      console.error(`[Sierra MCP] Loaded tools configuration from ${toolsConfigPath}. Enabled tools: ${policyTools.map(t => t.name).join(', ')}`);
+
+      for (const warning of getPolicyWarnings(policy, this.availableToolsList)) {
+        console.warn(`[Sierra MCP Warning] ${warning}`);
       }
     } else {
       if (this.availableToolsList.length > 0) {
@@ -130,24 +364,30 @@ class SierraDBServer {
       }
     }
 
-    this.enabledTools = toolsToEnable;
-    this.enabledToolsMap = toolsToEnable.reduce((acc, tool) => {
-      acc[tool.name] = tool;
-      return acc;
-    }, {} as Record<string, SierraTool>);
+    if (readOnly) {
+      const hidden = policyTools.filter(tool => !this.access.enabledToolsMap[tool.name]);
+      if (hidden.length > 0) {
+        console.error(`[Sierra MCP] Read-only mode: hiding ${hidden.map(t => t.name).join(', ')}`);
+      }
+    }
   }
 
   private async cleanup(): Promise<void> {
     console.error('Shutting down Sierra DB Query MCP server...');
+    await closeAllSessions();
     await DatabaseConnection.cleanupPools();
+    await closeAudit();
+    for (const server of this.sessionServers) {
+      await server.close();
+    }
     if (this.server) {
       await this.server.close();
     }
   }
 
-  private setupToolHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: this.enabledTools.map(tool => ({
+  private setupToolHandlers(server: Server, access: ToolAccess): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: access.enabledTools.map(tool => ({
         name: tool.name,
         description: tool.description,
         inputSchema: zodToJsonSchema(tool.inputSchema),
@@ -155,20 +395,41 @@ class SierraDBServer {
     }));
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    this.server.setRequestHandler(CallToolRequestSchema, (async (request: any): Promise<ToolOutput> => {
+    server.setRequestHandler(CallToolRequestSchema, (async (request: any, extra: { sessionId?: string }): Promise<ToolOutput> => {
+      const started = Date.now();
+      const auditContext: AuditContext = {
+        callId: randomUUID(),
+        sessionId: extra.sessionId ?? STDIO_SESSION_ID,
+        apiKey: access.keyName,
+        tool: request.params.name,
+        operation: typeof request.params.arguments?.operation === 'string' ? request.params.arguments.operation : undefined,
+        rowsAffected: 0
+      };
+      const audit = (result: ToolOutput, error?: string) => recordToolCall(auditContext, {
+        arguments: request.params.arguments,
+        durationMs: Date.now() - started,
+        isError: Boolean(result.isError),
+        error: error ?? (result.isError ? result.content.map(c => c.text).join('\n') : undefined)
+      });
+
       try {
         const toolName = request.params.name;
-        const tool = this.enabledToolsMap[toolName];
+        const tool = access.enabledToolsMap[toolName];
 
         if (!tool) {
           const wasAvailable = this.availableToolsList.some(t => t.name === toolName);
           const message = wasAvailable
-            ? `Tool "${toolName}" is available but not enabled by current configuration.`
+            ? `Tool "${toolName}" is available but not enabled by current configuration${readOnly ? ' (the server is running in read-only mode)' : ''}.`
             : `Tool '${toolName}' is not enabled or does not exist.`;
           throw new McpError(ErrorCode.MethodNotFound, message);
         }
 
-        const result: ToolOutput = await tool.execute(request.params.arguments, getConnectionString);
+        const args = access.policy ? enforcePolicy(access.policy, tool, request.params.arguments) : request.params.arguments;
+        const session = getSession(auditContext.sessionId);
+        const result = capToolOutput(await runWithAuditContext(auditContext, () =>
+          tool.execute(args, access.getConnectionString, { session })
+        ));
+        audit(result);
         return result;
       } catch (error) {
         console.error(`Error handling request for tool ${request.params.name}:`, error);
@@ -176,10 +437,12 @@ class SierraDBServer {
         if (error instanceof McpError) {
             errorMessage = error.message;
         }
-        return {
+        const result = {
           content: [{ type: 'text', text: `Error: ${errorMessage}` }],
           isError: true,
         } as ToolOutput;
+        audit(result, errorMessage);
+        return result;
       }
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     }) as any);
@@ -214,7 +477,7 @@ class SierraDBServer {
       origin: true,
       credentials: true,
       methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Accept', 'mcp-session-id'],
+      allowedHeaders: ['Content-Type', 'Accept', 'Authorization', 'X-API-Key', 'mcp-session-id'],
       exposedHeaders: ['mcp-session-id']
     }));
 
@@ -222,6 +485,46 @@ class SierraDBServer {
 
     // Map to store transports by session ID
     const transports: Record<string, StreamableHTTPServerTransport> = {};
+    const servers: Record<string, Server> = {};
+    // API key name that initialized each session
+    const sessionOwners: Record<string, string> = {};
+
+    // Authenticate every MCP request when API keys are configured
+    app.use('/mcp', (req: Request, res: Response, next: NextFunction) => {
+      if (!isAuthEnabled()) {
+        next();
+        return;
+      }
+
+      const auth = authenticate(req.headers);
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      let status: 401 | 403 | undefined;
+      let message = '';
+      if (!auth.ok) {
+        ({ status, message } = auth);
+      } else if (sessionId && sessionOwners[sessionId] && sessionOwners[sessionId] !== auth.key.name) {
+        status = 403;
+        message = 'Forbidden: the session belongs to a different API key';
+      }
+
+      if (status) {
+        if (status === 401) {
+          res.setHeader('WWW-Authenticate', 'Bearer realm="sierra-db-query"');
+        }
+        res.status(status).json({
+          jsonrpc: '2.0',
+          error: {
+            code: status === 401 ? -32003 : -32004,
+            message
+          },
+          id: req.body?.id ?? null
+        });
+        return;
+      }
+
+      res.locals.apiKey = auth.ok ? auth.key : undefined;
+      next();
+    });
 
     // MCP POST endpoint
     app.post('/mcp', async (req: Request, res: Response) => {
@@ -234,26 +537,39 @@ class SierraDBServer {
           // Reuse existing transport
           transport = transports[sessionId];
         } else if (!sessionId && isInitializeRequest(req.body)) {
-          // New initialization request
+          // New initialization request gets its own server instance, scoped to the caller's API key
+          const apiKey = res.locals.apiKey as ApiKey | undefined;
+          const sessionServer = this.createServer(apiKey ? this.accessForKey(apiKey) : this.access);
           transport = new StreamableHTTPServerTransport({
             sessionIdGenerator: () => randomUUID(),
             onsessioninitialized: (newSessionId: string) => {
               console.error(`Session initialized with ID: ${newSessionId}`);
               transports[newSessionId] = transport;
+              servers[newSessionId] = sessionServer;
+              if (apiKey) {
+                sessionOwners[newSessionId] = apiKey.name;
+              }
+              this.sessionServers.push(sessionServer);
             }
           });
 
-          // Set up onclose handler to clean up transport when closed
+          // Set up onclose handler to clean up transport and database session when closed
           transport.onclose = () => {
             const sid = transport.sessionId;
             if (sid && transports[sid]) {
               console.error(`Transport closed for session ${sid}, removing from transports map`);
               delete transports[sid];
+              delete servers[sid];
+              delete sessionOwners[sid];
+              this.sessionServers = this.sessionServers.filter(s => s !== sessionServer);
+              closeSession(sid).catch(error => {
+                console.error(`Error closing database session ${sid}:`, error);
+              });
             }
           };
 
-          // Connect the transport to the MCP server
-          await this.server.connect(transport);
+          // Connect the transport to the session's MCP server
+          await sessionServer.connect(transport);
           await transport.handleRequest(req, res, req.body);
           return;
         } else {
@@ -340,6 +656,9 @@ class SierraDBServer {
     // Bind to 0.0.0.0 for Docker/container deployment
     app.listen(port, '0.0.0.0', () => {
       console.error(`Sierra DB Query MCP server running on HTTP port ${port}`);
+      if (!isAuthEnabled()) {
+        console.warn('[Sierra MCP Warning] No API keys configured: the /mcp endpoint accepts unauthenticated requests.');
+      }
     });
 
     // Handle server shutdown
@@ -364,11 +683,17 @@ class SierraDBServer {
 const allTools: SierraTool[] = [
   // Schema Management
   manageSchemaTools,
+  schemaDiffTool,
+  ...(getMigrationsDirectory() ? [manageMigrationsTool] : []),
 
   // Data Operations
   executeQueryTool,
   executeMutationTool,
   executeSqlTool,
+  transactionTool,
+  explainQueryTool,
+  ...(getExportDirectory() ? [exportTool] : []),
+  importTool,
 
   // Analysis & Monitoring
   analyzeDatabaseTool,
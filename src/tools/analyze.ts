@@ -1,11 +1,16 @@
 import { z } from 'zod';
 import { DatabaseConnection } from '../utils/connection.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import type { SierraTool, ToolOutput, GetConnectionStringFn } from '../types/tool.js';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import { formatJson } from '../utils/budget.js';
 
 const AnalyzeDatabaseInputSchema = z.object({
   connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
-  analysisType: z.enum(['configuration', 'performance', 'security']).describe('Type of analysis to perform')
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
+  analysisType: z.enum(['configuration', 'performance', 'security', 'queries']).describe('Type of analysis to perform'),
+  sortBy: z.enum(['total_time', 'mean_time', 'calls', 'rows', 'shared_blks_read']).optional().default('total_time').describe('Ranking of top statements (for queries analysis)'),
+  limit: z.number().int().positive().optional().default(10).describe('Number of top statements to return (for queries analysis)'),
+  resetStats: z.boolean().optional().describe('Reset pg_stat_statements after reading it (for queries analysis)')
 });
 
 type AnalyzeDatabaseInput = z.infer<typeof AnalyzeDatabaseInputSchema>;
@@ -118,6 +123,108 @@ async function analyzePerformance(db: DatabaseConnection): Promise<unknown> {
   };
 }
 
+type QuerySortKey = NonNullable<AnalyzeDatabaseInput['sortBy']>;
+
+async function analyzeQueries(
+  db: DatabaseConnection,
+  options: { sortBy: QuerySortKey; limit: number; resetStats?: boolean }
+): Promise<unknown> {
+  const extension = await db.queryOne<{ schema: string; version: string }>(`
+    SELECT n.nspname AS schema, e.extversion AS version
+    FROM pg_extension e
+    JOIN pg_namespace n ON n.oid = e.extnamespace
+    WHERE e.extname = 'pg_stat_statements'
+  `);
+
+  if (!extension) {
+    return {
+      available: false,
+      reason: 'The pg_stat_statements extension is not installed in this database.',
+      howToEnable: "Add pg_stat_statements to shared_preload_libraries, restart PostgreSQL, then run CREATE EXTENSION pg_stat_statements;"
+    };
+  }
+
+  // Columns were renamed to *_exec_time in extension version 1.8 (PostgreSQL 13)
+  const [major, minor] = extension.version.split('.').map(Number);
+  const timePrefix = major > 1 || minor >= 8 ? '_exec_time' : '_time';
+  const view = `"${extension.schema}".pg_stat_statements`;
+  const orderColumns: Record<QuerySortKey, string> = {
+    total_time: `total${timePrefix}`,
+    mean_time: `mean${timePrefix}`,
+    calls: 'calls',
+    rows: 'rows',
+    shared_blks_read: 'shared_blks_read'
+  };
+
+  let statements: Array<{
+    queryid: string | null;
+    query: string;
+    role: string | null;
+    calls: string;
+    total_time: number;
+    mean_time: number;
+    rows: string;
+    shared_blks_hit: string;
+    shared_blks_read: string;
+    time_share: number | null;
+  }>;
+  try {
+    statements = await db.query(`
+      SELECT
+        s.queryid::text AS queryid,
+        s.query,
+        r.rolname AS role,
+        s.calls,
+        round(s.total${timePrefix}::numeric, 2)::float8 AS total_time,
+        round(s.mean${timePrefix}::numeric, 2)::float8 AS mean_time,
+        s.rows,
+        s.shared_blks_hit,
+        s.shared_blks_read,
+        round((100 * s.total${timePrefix} / NULLIF(sum(s.total${timePrefix}) OVER (), 0))::numeric, 2)::float8 AS time_share
+      FROM ${view} s
+      LEFT JOIN pg_roles r ON r.oid = s.userid
+      WHERE s.dbid = (SELECT oid FROM pg_database WHERE datname = current_database())
+      ORDER BY s.${orderColumns[options.sortBy]} DESC NULLS LAST
+      LIMIT $1
+    `, [options.limit]);
+  } catch (error) {
+    // Installed but not preloaded: the view exists, reading it fails
+    return {
+      available: false,
+      reason: error instanceof Error ? error.message : String(error),
+      howToEnable: 'Add pg_stat_statements to shared_preload_libraries and restart PostgreSQL.'
+    };
+  }
+
+  if (options.resetStats) {
+    await db.query(`SELECT "${extension.schema}".pg_stat_statements_reset()`);
+  }
+
+  return {
+    available: true,
+    extensionVersion: extension.version,
+    sortedBy: options.sortBy,
+    statsReset: Boolean(options.resetStats),
+    topStatements: statements.map(s => {
+      const hit = Number(s.shared_blks_hit);
+      const read = Number(s.shared_blks_read);
+      return {
+        queryid: s.queryid,
+        query: s.query.replace(/\s+/g, ' ').trim(),
+        role: s.role,
+        calls: Number(s.calls),
+        totalTimeMs: s.total_time,
+        meanTimeMs: s.mean_time,
+        timeSharePercent: s.time_share,
+        rows: Number(s.rows),
+        sharedBlocksHit: hit,
+        sharedBlocksRead: read,
+        cacheHitRatio: hit + read > 0 ? Math.round((hit / (hit + read)) * 10000) / 100 : null
+      };
+    })
+  };
+}
+
 async function analyzeSecurity(db: DatabaseConnection): Promise<unknown> {
   const roles = await db.query<{
     rolname: string;
@@ -166,12 +273,23 @@ async function analyzeSecurity(db: DatabaseConnection): Promise<unknown> {
 
 export const analyzeDatabaseTool: SierraTool = {
   name: 'sierra_analyze_database',
-  description: 'Analyze PostgreSQL database configuration and performance. analysisType can be "configuration", "performance", or "security".',
+  description: 'Analyze PostgreSQL database configuration and performance. analysisType can be "configuration", "performance", "security", or "queries" (top statements from pg_stat_statements, ranked by sortBy).',
   inputSchema: AnalyzeDatabaseInputSchema,
-  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn): Promise<ToolOutput> => {
-    const { connectionString: connStringArg, analysisType } = args as AnalyzeDatabaseInput;
-    const resolvedConnString = getConnectionStringVal(connStringArg);
-    const db = DatabaseConnection.getInstance();
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
+    const {
+      connectionString: connStringArg,
+      profile,
+      analysisType,
+      sortBy = 'total_time',
+      limit = 10,
+      resetStats
+    } = args as AnalyzeDatabaseInput;
+
+    if (resetStats && DatabaseConnection.isReadOnly()) {
+      throw new McpError(ErrorCode.InvalidParams, 'resetStats is not available: the server is running in read-only mode.');
+    }
+    const resolvedConnString = getConnectionStringVal(connStringArg, profile);
+    const db = context.session.connection();
 
     try {
       await db.connect(resolvedConnString);
@@ -188,6 +306,9 @@ export const analyzeDatabaseTool: SierraTool = {
         case 'security':
           findings = await analyzeSecurity(db);
           break;
+        case 'queries':
+          findings = await analyzeQueries(db, { sortBy, limit, resetStats });
+          break;
         default:
           throw new McpError(ErrorCode.InvalidParams, `Unknown analysis type: ${analysisType}`);
       }
@@ -201,7 +322,7 @@ export const analyzeDatabaseTool: SierraTool = {
       return {
         content: [{
           type: 'text',
-          text: `Database ${analysisType} analysis completed.\n\n${JSON.stringify(result, null, 2)}`
+          text: `Database ${analysisType} analysis completed.\n\n${formatJson(result)}`
         }]
       };
 
@@ -1,15 +1,19 @@
 import { z } from 'zod';
-import { DatabaseConnection } from '../utils/connection.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import type { SierraTool, ToolOutput, GetConnectionStringFn } from '../types/tool.js';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import { requireConfirmation } from '../utils/confirmation.js';
+import { assertSqlFragment } from '../utils/sql.js';
+import { formatRows, OutputFormatSchema } from '../utils/format.js';
+import { CONSTRAINT_TYPES, listConstraints } from '../utils/catalog.js';
 
 const ManageConstraintsInputSchema = z.object({
   connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
   operation: z.enum(['get', 'create_fk', 'drop_fk', 'create', 'drop']).describe('Operation: get (list constraints), create_fk (foreign key), drop_fk (drop foreign key), create (constraint), drop (constraint)'),
   schema: z.string().optional().default('public').describe('Schema name (defaults to public)'),
   tableName: z.string().optional().describe('Table name (optional filter for get, required for create_fk/drop_fk/create/drop)'),
   constraintName: z.string().optional().describe('Constraint name (required for create_fk/drop_fk/create/drop)'),
-  constraintType: z.enum(['PRIMARY KEY', 'FOREIGN KEY', 'UNIQUE', 'CHECK']).optional().describe('Filter by constraint type (for get operation)'),
+  constraintType: z.enum(CONSTRAINT_TYPES).optional().describe('Filter by constraint type (for get operation)'),
   columnNames: z.array(z.string()).optional().describe('Column names in the table (required for create_fk)'),
   referencedTable: z.string().optional().describe('Referenced table name (required for create_fk)'),
   referencedSchema: z.string().optional().describe('Referenced table schema (for create_fk, defaults to same as table schema)'),
@@ -21,7 +25,9 @@ const ManageConstraintsInputSchema = z.object({
   ifExists: z.boolean().optional().describe('Include IF EXISTS clause (for drop_fk/drop operations)'),
   cascade: z.boolean().optional().describe('Include CASCADE clause (for drop_fk/drop operations)'),
   constraintTypeCreate: z.enum(['unique', 'check', 'primary_key']).optional().describe('Type of constraint to create (for create operation)'),
-  checkExpression: z.string().optional().describe('Check expression (for create operation with check constraints)')
+  checkExpression: z.string().optional().describe('Check expression (for create operation with check constraints)'),
+  confirmationToken: z.string().optional().describe('Token returned by the preview of a destructive operation; pass it back to execute the operation when confirmation is required'),
+  outputFormat: OutputFormatSchema.describe('Format of the list (for get operation): json (default), markdown, csv, ndjson or columns')
 });
 
 type ManageConstraintsInput = z.infer<typeof ManageConstraintsInputSchema>;
@@ -30,9 +36,11 @@ export const manageConstraintsTool: SierraTool = {
   name: 'sierra_manage_constraints',
   description: 'Manage PostgreSQL constraints - get, create foreign keys, drop foreign keys, create constraints, drop constraints. Examples: operation="get" to list constraints, operation="create_fk" with constraintName, tableName, columnNames, referencedTable, referencedColumns',
   inputSchema: ManageConstraintsInputSchema,
-  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn): Promise<ToolOutput> => {
+  readOnlyOperations: ['get'],
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
     const {
       connectionString: connStringArg,
+      profile,
       operation,
       schema = 'public',
       tableName,
@@ -49,64 +57,24 @@ export const manageConstraintsTool: SierraTool = {
       ifExists,
       cascade,
       constraintTypeCreate,
-      checkExpression
+      checkExpression,
+      confirmationToken,
+      outputFormat
     } = args as ManageConstraintsInput;
 
-    const resolvedConnString = getConnectionStringVal(connStringArg);
-    const db = DatabaseConnection.getInstance();
+    const resolvedConnString = getConnectionStringVal(connStringArg, profile);
+    const db = context.session.connection();
 
     try {
       await db.connect(resolvedConnString);
 
       switch (operation) {
         case 'get': {
-          let query = `
-            SELECT
-              c.conname as constraint_name,
-              n.nspname as schema_name,
-              t.relname as table_name,
-              CASE c.contype
-                WHEN 'p' THEN 'PRIMARY KEY'
-                WHEN 'f' THEN 'FOREIGN KEY'
-                WHEN 'u' THEN 'UNIQUE'
-                WHEN 'c' THEN 'CHECK'
-                WHEN 'x' THEN 'EXCLUSION'
-                ELSE c.contype::text
-              END as constraint_type,
-              pg_get_constraintdef(c.oid) as definition,
-              c.condeferrable as is_deferrable,
-              c.condeferred as is_deferred
-            FROM pg_constraint c
-            JOIN pg_namespace n ON n.oid = c.connamespace
-            JOIN pg_class t ON t.oid = c.conrelid
-            WHERE n.nspname = $1
-          `;
-
-          const params: unknown[] = [schema];
-
-          if (tableName) {
-            query += ` AND t.relname = $${params.length + 1}`;
-            params.push(tableName);
-          }
-
-          if (constraintType) {
-            const typeMap: Record<string, string> = {
-              'PRIMARY KEY': 'p',
-              'FOREIGN KEY': 'f',
-              'UNIQUE': 'u',
-              'CHECK': 'c'
-            };
-            query += ` AND c.contype = $${params.length + 1}`;
-            params.push(typeMap[constraintType]);
-          }
-
-          query += ` ORDER BY t.relname, c.conname`;
-
-          const constraints = await db.query(query, params);
+          const constraints = await listConstraints(db, { schema, tableName, constraintType });
           return {
             content: [{
               type: 'text',
-              text: `Found ${constraints.length} constraints.\n\n${JSON.stringify(constraints, null, 2)}`
+              text: `Found ${constraints.length} constraints.\n\n${formatRows(constraints, outputFormat)}`
             }]
           };
         }
@@ -162,6 +130,14 @@ export const manageConstraintsTool: SierraTool = {
 
           const sql = `ALTER TABLE "${schema}"."${tableName}" DROP CONSTRAINT ${ifExistsClause}"${constraintName}"${cascadeClause}`;
 
+          const preview = await requireConfirmation(context.session, {
+            tool: 'sierra_manage_constraints',
+            operation,
+            sql: [sql],
+            affectedObjects: [`constraint "${constraintName}" on "${schema}"."${tableName}"${cascade ? ' and dependent objects' : ''}`]
+          }, confirmationToken);
+          if (preview) return preview;
+
           await db.query(sql);
 
           return {
@@ -200,6 +176,7 @@ export const manageConstraintsTool: SierraTool = {
                   isError: true
                 };
               }
+              assertSqlFragment(checkExpression, 'Check expression');
               sql += ` CHECK (${checkExpression})`;
               break;
 
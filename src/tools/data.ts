@@ -1,59 +1,113 @@
 import { z } from 'zod';
-import { DatabaseConnection } from '../utils/connection.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import type { SierraTool, ToolOutput, GetConnectionStringFn } from '../types/tool.js';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import { formatRows, OutputFormatSchema, type OutputFormat } from '../utils/format.js';
+import { isWriteCommand } from '../utils/audit.js';
+import { DatabaseConnection, rowsAffected } from '../utils/connection.js';
+import { estimateStatementRows, estimateTableRows, requireConfirmation } from '../utils/confirmation.js';
+import { CURSOR_IDLE_TTL_MS } from '../utils/cursor.js';
+import type { ColumnInfo, SerializedResult } from '../utils/serialize.js';
+import { assertDryRunnable, executeDryRun, formatCatalogChanges, type CatalogChanges } from '../utils/dryrun.js';
+import { compileFilter, FilterSchema, type Filter } from '../utils/filter.js';
+import { analyzeSql, applyRowLimit, assertSqlFragment, isDestructiveStatement, parseSingleStatement, parseSql, shiftParameters, type SqlStatement } from '../utils/sql.js';
 
 // ===== EXECUTE QUERY TOOL (SELECT operations) =====
 
 const ExecuteQueryInputSchema = z.object({
   connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
-  operation: z.enum(['select', 'count', 'exists']).describe('Query operation: select (fetch rows), count (count rows), exists (check existence)'),
-  query: z.string().describe('SQL SELECT query to execute'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
+  operation: z.enum(['select', 'count', 'exists', 'fetch', 'close_cursor']).describe('Query operation: select (fetch rows), count (count rows), exists (check existence), fetch (next page of a cursor), close_cursor (discard a cursor)'),
+  query: z.string().optional().describe('SQL SELECT query to execute (required for select/count/exists)'),
   parameters: z.array(z.unknown()).optional().default([]).describe('Parameter values for prepared statement placeholders ($1, $2, etc.)'),
   limit: z.number().optional().describe('Maximum number of rows to return (safety limit)'),
-  timeout: z.number().optional().describe('Query timeout in milliseconds')
+  timeout: z.number().optional().describe('Query timeout in milliseconds'),
+  pageSize: z.number().int().positive().optional().describe('Return select results in pages of this many rows from a server-side cursor; the response includes a cursorToken for the next page'),
+  cursorToken: z.string().optional().describe('Token of an open cursor (required for fetch/close_cursor)'),
+  byteaEncoding: z.enum(['hex', 'base64']).optional().default('hex').describe('Encoding of bytea values in the results'),
+  outputFormat: OutputFormatSchema
 });
 
 type ExecuteQueryInput = z.infer<typeof ExecuteQueryInputSchema>;
 
 async function executeQuery(
   input: ExecuteQueryInput,
-  getConnectionString: GetConnectionStringFn
-): Promise<{ operation: string; rowCount: number; rows?: unknown[]; result?: unknown }> {
-  const resolvedConnectionString = getConnectionString(input.connectionString);
-  const db = DatabaseConnection.getInstance();
-  const { operation, query, parameters, limit, timeout } = input;
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<{ operation: string; rowCount: number; columns?: ColumnInfo[]; rows?: SerializedResult['rows']; result?: unknown; cursorToken?: string; rowsFetched?: number }> {
+  const { operation, query = '', parameters, limit, timeout, pageSize, cursorToken, byteaEncoding } = input;
+
+  if (operation === 'fetch' || operation === 'close_cursor') {
+    const cursor = cursorToken ? context.session.getCursor(cursorToken) : undefined;
+    if (!cursor) {
+      throw new McpError(ErrorCode.InvalidParams, 'Unknown or expired cursor token. Cursors close after their last page, when idle, and when the session ends; run the select again.');
+    }
+    if (operation === 'close_cursor') {
+      await cursor.close();
+      return { operation, rowCount: 0, rowsFetched: cursor.rowsFetched };
+    }
+    try {
+      const { columns, rows, done } = await cursor.fetch();
+      return { operation, rowCount: rows.length, columns, rows, cursorToken: done ? undefined : cursor.token, rowsFetched: cursor.rowsFetched };
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, `Failed to fetch from cursor: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const resolvedConnectionString = getConnectionString(input.connectionString, input.profile);
+  const db = context.session.connection();
+  // Set once a cursor has taken over the connection
+  let cursorOwnsConnection = false;
 
   try {
     await db.connect(resolvedConnectionString);
 
-    const trimmedQuery = query.trim().toLowerCase();
-    if (!trimmedQuery.startsWith('select') && !trimmedQuery.startsWith('with')) {
-      throw new McpError(ErrorCode.InvalidParams, 'Query must be a SELECT statement or CTE (WITH clause)');
+    let statement: SqlStatement;
+    try {
+      statement = parseSingleStatement(query);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+    if (statement.kind !== 'select') {
+      throw new McpError(ErrorCode.InvalidParams, `Query must be a SELECT statement, CTE (WITH clause), VALUES or TABLE; got ${statement.command || 'an unrecognized statement'}`);
+    }
+    if (!statement.readOnly) {
+      throw new McpError(ErrorCode.InvalidParams, `Query is not read-only: ${statement.reasons.join('; ')}`);
     }
 
-    let finalQuery = query;
+    const finalQuery = limit !== undefined ? applyRowLimit(statement, limit) : statement.text;
     const queryParams = parameters || [];
 
-    if (limit && !trimmedQuery.includes('limit')) {
-      finalQuery += ` LIMIT ${limit}`;
-    }
-
     const queryOptions = timeout ? { timeout } : {};
+    // The token checks do not know user-defined functions, so PostgreSQL enforces read-only, as for cursors
+    const readOnly = <T>(work: () => Promise<T>) => db.transaction(work, { rollback: true, readOnly: true });
 
     switch (operation) {
       case 'select': {
-        const rows = await db.query(finalQuery, queryParams, queryOptions);
+        if (pageSize !== undefined) {
+          const cursor = await context.session.openCursor(db, finalQuery, queryParams, { pageSize, timeout, bytea: byteaEncoding });
+          cursorOwnsConnection = true;
+          const { columns, rows, done } = await cursor.fetch();
+          return {
+            operation: 'select',
+            rowCount: rows.length,
+            columns,
+            rows,
+            cursorToken: done ? undefined : cursor.token,
+            rowsFetched: cursor.rowsFetched
+          };
+        }
+        const { columns, rows } = await readOnly(() => db.querySerialized(finalQuery, queryParams, { ...queryOptions, bytea: byteaEncoding }));
         return {
           operation: 'select',
           rowCount: rows.length,
-          rows: rows
+          columns,
+          rows
         };
       }
 
       case 'count': {
-        const countQuery = `SELECT COUNT(*) as total FROM (${query}) as subquery`;
-        const result = await db.queryOne<{ total: number }>(countQuery, queryParams, queryOptions);
+        const countQuery = `SELECT COUNT(*) as total FROM (${statement.text}) as subquery`;
+        const result = await readOnly(() => db.queryOne<{ total: number }>(countQuery, queryParams, queryOptions));
         return {
           operation: 'count',
           rowCount: 1,
@@ -62,8 +116,8 @@ async function executeQuery(
       }
 
       case 'exists': {
-        const existsQuery = `SELECT EXISTS (${query}) as exists`;
-        const result = await db.queryOne<{ exists: boolean }>(existsQuery, queryParams, queryOptions);
+        const existsQuery = `SELECT EXISTS (${statement.text}) as exists`;
+        const result = await readOnly(() => db.queryOne<{ exists: boolean }>(existsQuery, queryParams, queryOptions));
         return {
           operation: 'exists',
           rowCount: 1,
@@ -77,54 +131,93 @@ async function executeQuery(
   } catch (error) {
     throw new McpError(ErrorCode.InternalError, `Failed to execute query: ${error instanceof Error ? error.message : String(error)}`);
   } finally {
-    await db.disconnect();
+    if (!cursorOwnsConnection) {
+      await db.disconnect();
+    }
+  }
+}
+
+const PAGING_HINT = 'Page through the rest with pageSize and operation="fetch", keeping pages within the budget, or select fewer columns.';
+
+/** Tells the agent how to continue a paged result */
+function cursorHint(result: { cursorToken?: string; rowsFetched?: number }): string {
+  if (!result.cursorToken) {
+    return result.rowsFetched !== undefined ? `\n\nEnd of results (${result.rowsFetched} rows in total); the cursor is closed.` : '';
   }
+  return `\n\nMore rows available. Call sierra_execute_query with operation="fetch" and cursorToken="${result.cursorToken}" for the next page, or operation="close_cursor" to discard it. The cursor expires after ${CURSOR_IDLE_TTL_MS / 60000} minutes without a fetch.`;
 }
 
 export const executeQueryTool: SierraTool = {
   name: 'sierra_execute_query',
-  description: 'Execute SELECT queries and data retrieval operations - operation="select/count/exists" with query and optional parameters. Examples: operation="select", query="SELECT * FROM users WHERE created_at > $1", parameters=["2024-01-01"]',
+  description: 'Execute SELECT queries and data retrieval operations - operation="select/count/exists" with query and optional parameters. Set pageSize to page through large results with a server-side cursor, then operation="fetch" with the returned cursorToken. Examples: operation="select", query="SELECT * FROM users WHERE created_at > $1", parameters=["2024-01-01"]',
   inputSchema: ExecuteQueryInputSchema,
-  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn): Promise<ToolOutput> => {
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
     const {
       connectionString: connStringArg,
+      profile,
       operation,
       query,
       parameters,
       limit,
-      timeout
+      timeout,
+      pageSize,
+      cursorToken,
+      byteaEncoding,
+      outputFormat
     } = args as {
       connectionString?: string;
-      operation: 'select' | 'count' | 'exists';
-      query: string;
+      profile?: string;
+      operation: 'select' | 'count' | 'exists' | 'fetch' | 'close_cursor';
+      query?: string;
       parameters?: unknown[];
       limit?: number;
       timeout?: number;
+      pageSize?: number;
+      cursorToken?: string;
+      byteaEncoding?: 'hex' | 'base64';
+      outputFormat?: OutputFormat;
     };
 
-    const resolvedConnString = getConnectionStringVal(connStringArg);
-
     try {
-      if (!query?.trim()) {
+      const usesCursor = operation === 'fetch' || operation === 'close_cursor';
+      if (!usesCursor && !query?.trim()) {
         return {
           content: [{ type: 'text', text: 'Error: query is required' }],
           isError: true
         };
       }
+      if (usesCursor && !cursorToken) {
+        return {
+          content: [{ type: 'text', text: `Error: cursorToken is required for ${operation}` }],
+          isError: true
+        };
+      }
 
       const result = await executeQuery({
-        connectionString: resolvedConnString,
+        connectionString: connStringArg,
+        profile,
         operation,
         query,
         parameters: parameters ?? [],
         limit,
-        timeout
-      }, getConnectionStringVal);
+        timeout,
+        pageSize,
+        cursorToken,
+        byteaEncoding: byteaEncoding ?? 'hex',
+        outputFormat: outputFormat ?? 'json'
+      }, getConnectionStringVal, context);
 
+      const results = () => formatRows(result.rows ?? [], outputFormat, { columns: result.columns, hint: PAGING_HINT });
       let responseText = '';
       switch (operation) {
         case 'select':
-          responseText = `Query executed successfully. Retrieved ${result.rowCount} rows.\n\nResults:\n${JSON.stringify(result.rows, null, 2)}`;
+          responseText = `Query executed successfully. Retrieved ${result.rowCount} rows.\n\nResults:\n${results()}${cursorHint(result)}`;
+          break;
+        case 'fetch':
+          responseText = `Fetched ${result.rowCount} rows (${result.rowsFetched} so far).\n\nResults:\n${results()}${cursorHint(result)}`;
+          break;
+        case 'close_cursor':
+          responseText = `Cursor closed after ${result.rowsFetched} rows.`;
           break;
         case 'count':
           responseText = `Count query executed successfully. Total rows: ${result.result}`;
@@ -149,24 +242,163 @@ export const executeQueryTool: SierraTool = {
 
 const ExecuteMutationInputSchema = z.object({
   connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
   operation: z.enum(['insert', 'update', 'delete', 'upsert']).describe('Mutation operation: insert (add rows), update (modify rows), delete (remove rows), upsert (insert or update)'),
   table: z.string().describe('Table name for the operation'),
-  data: z.record(z.unknown()).optional().describe('Data object with column-value pairs (required for insert/update/upsert)'),
-  where: z.string().optional().describe('WHERE clause for update/delete operations (without WHERE keyword)'),
+  data: z.union([z.record(z.unknown()), z.array(z.record(z.unknown()))]).optional().describe('Data object with column-value pairs (required for insert/update/upsert); insert and upsert also take an array of row objects, written with multi-row VALUES in batches'),
+  where: z.string().optional().describe('WHERE clause for update/delete operations (without WHERE keyword); use $1, $2, ... placeholders with whereParams for values'),
+  whereParams: z.array(z.unknown()).optional().default([]).describe('Values for the $1, $2, ... placeholders of the where clause, bound after the data values'),
+  filter: z.union([FilterSchema, z.array(FilterSchema)]).optional().describe('Structured alternative to where: a {column, op, value} condition, a list of them (AND), or {and: [...]} / {or: [...]} groups; values are always bound as parameters'),
   conflictColumns: z.array(z.string()).optional().describe('Columns for conflict resolution in upsert (ON CONFLICT)'),
   returning: z.string().optional().describe('RETURNING clause to get back inserted/updated data'),
-  schema: z.string().optional().default('public').describe('Schema name (defaults to public)')
+  schema: z.string().optional().default('public').describe('Schema name (defaults to public)'),
+  confirmationToken: z.string().optional().describe('Token returned by the preview of a destructive operation; pass it back to execute the operation when confirmation is required'),
+  batchSize: z.number().int().positive().optional().default(1000).describe('Rows per INSERT statement when data is an array (fewer when a batch would exceed 65,535 parameters)'),
+  transactionPerBatch: z.boolean().optional().default(false).describe('Commit each batch in its own transaction, keeping the batches before a failing one (default: all batches in one transaction)'),
+  dryRun: z.boolean().optional().default(false).describe('Run the operation in a transaction that is always rolled back and report the rows it would affect, its RETURNING rows and any catalog changes; sequences it advances (e.g. for serial or identity columns) stay advanced and are listed; no confirmation is needed'),
+  outputFormat: OutputFormatSchema.describe('Format of the RETURNING data: json (default), markdown, csv, ndjson or columns')
 });
 
 type ExecuteMutationInput = z.infer<typeof ExecuteMutationInputSchema>;
 
+/**
+ * WHERE clause of an update or delete, from `where` with `whereParams` or
+ * from `filter`, with its placeholders numbered after the `offset` data
+ * values. Null when neither is given.
+ */
+function buildWhereClause(
+  input: Pick<ExecuteMutationInput, 'where' | 'whereParams' | 'filter'>,
+  offset: number
+): { sql: string; values: unknown[] } | null {
+  const { where, whereParams = [], filter } = input;
+
+  if (where && filter) {
+    throw new McpError(ErrorCode.InvalidParams, 'Pass either where or filter, not both');
+  }
+  if (filter) {
+    try {
+      return compileFilter(filter, offset + 1);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  }
+  if (!where) {
+    if (whereParams.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'whereParams requires a where clause with $1, $2, ... placeholders');
+    }
+    return null;
+  }
+
+  const { text, highest } = shiftParameters(where, offset);
+  if (highest !== whereParams.length) {
+    throw new McpError(ErrorCode.InvalidParams, `The where clause uses placeholders up to $${highest}, but whereParams has ${whereParams.length} values`);
+  }
+  return { sql: text, values: whereParams };
+}
+
+/** PostgreSQL's limit on bind parameters in one statement */
+const MAX_QUERY_PARAMETERS = 65535;
+
+/**
+ * Multi-row VALUES lists for `rows`, at most `batchSize` rows each and split
+ * further so no batch exceeds the parameter limit. Columns a row leaves out
+ * get their DEFAULT.
+ */
+function buildValuesBatches(
+  columns: string[],
+  rows: Record<string, unknown>[],
+  batchSize: number
+): Array<{ tuples: string; values: unknown[] }> {
+  const rowsPerBatch = Math.max(1, Math.min(batchSize, Math.floor(MAX_QUERY_PARAMETERS / columns.length)));
+  const batches: Array<{ tuples: string; values: unknown[] }> = [];
+
+  for (let start = 0; start < rows.length; start += rowsPerBatch) {
+    const values: unknown[] = [];
+    const tuples = rows.slice(start, start + rowsPerBatch).map(row => {
+      const items = columns.map(col => {
+        if (!Object.prototype.hasOwnProperty.call(row, col)) {
+          return 'DEFAULT';
+        }
+        values.push(row[col]);
+        return `$${values.length}`;
+      });
+      return `(${items.join(', ')})`;
+    });
+    batches.push({ tuples: tuples.join(', '), values });
+  }
+  return batches;
+}
+
+/**
+ * Run the INSERT statements of a batched insert or upsert: all in one
+ * transaction, or each in its own with `transactionPerBatch`. Returns the
+ * rows affected per batch (from the command tags) and the RETURNING rows of
+ * all batches.
+ */
+async function runInsertBatches(
+  db: DatabaseConnection,
+  statements: Array<{ sql: string; values: unknown[] }>,
+  transactionPerBatch: boolean
+): Promise<{ rowsAffected: number; batches: number[]; returning: SerializedResult }> {
+  const results: Array<SerializedResult & { rowCount: number }> = [];
+  const committed = () => results.reduce((sum, result) => sum + result.rowCount, 0);
+
+  const runBatch = async (index: number) => {
+    try {
+      results.push(await db.querySerialized(statements[index].sql, statements[index].values));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(statements.length > 1 ? `Batch ${index + 1} of ${statements.length} failed: ${message}` : message);
+    }
+  };
+
+  if (statements.length === 1) {
+    await runBatch(0);
+  } else if (transactionPerBatch) {
+    for (let index = 0; index < statements.length; index++) {
+      try {
+        await db.transaction(() => runBatch(index));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`${message} (${index} batches with ${committed()} rows affected were committed before it)`);
+      }
+    }
+  } else {
+    await db.transaction(async () => {
+      for (let index = 0; index < statements.length; index++) {
+        await runBatch(index);
+      }
+    });
+  }
+
+  return {
+    rowsAffected: committed(),
+    batches: results.map(result => result.rowCount),
+    returning: { columns: results[0]?.columns ?? [], rows: results.flatMap(result => result.rows) }
+  };
+}
+
 async function executeMutation(
   input: ExecuteMutationInput,
-  getConnectionString: GetConnectionStringFn
-): Promise<{ operation: string; rowsAffected: number; returning?: unknown[] }> {
-  const resolvedConnectionString = getConnectionString(input.connectionString);
-  const db = DatabaseConnection.getInstance();
-  const { operation, table, data, where, conflictColumns, returning, schema } = input;
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<{ operation: string; rowsAffected: number; batches?: number[]; returning?: SerializedResult; catalogChanges?: CatalogChanges; preview?: ToolOutput }> {
+  const resolvedConnectionString = getConnectionString(input.connectionString, input.profile);
+  const { operation, table, data, where, conflictColumns, returning, schema, confirmationToken, batchSize, transactionPerBatch, dryRun } = input;
+  // A dry run rolls back all batches together
+  const perBatch = transactionPerBatch && !dryRun;
+
+  try {
+    if (where) assertSqlFragment(where, 'WHERE clause');
+    if (returning) assertSqlFragment(returning, 'RETURNING clause');
+    if (dryRun) assertDryRunnable([where, returning].filter((fragment): fragment is string => Boolean(fragment)));
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+
+  const db = context.session.connection();
+  const run = async <T>(work: () => Promise<T>): Promise<{ result: T; catalogChanges?: CatalogChanges }> =>
+    dryRun ? executeDryRun(db, work) : { result: await work() };
 
   try {
     await db.connect(resolvedConnectionString);
@@ -176,107 +408,130 @@ async function executeMutation(
 
     switch (operation) {
       case 'insert': {
-        if (!data || Object.keys(data).length === 0) {
+        const rows = Array.isArray(data) ? data : data ? [data] : [];
+        const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+        if (columns.length === 0) {
           throw new McpError(ErrorCode.InvalidParams, 'Data object is required for insert operation');
         }
 
-        const columns = Object.keys(data);
-        const values = Object.values(data);
-        const placeholders = values.map((_, i) => `$${i + 1}`).join(', ');
-
-        let insertSQL = `INSERT INTO ${tableName} (${columns.map(col => `"${col}"`).join(', ')}) VALUES (${placeholders})`;
+        const statements = buildValuesBatches(columns, rows, batchSize).map(batch => ({
+          sql: `INSERT INTO ${tableName} (${columns.map(col => `"${col}"`).join(', ')}) VALUES ${batch.tuples}${returning ? ` RETURNING ${returning}` : ''}`,
+          values: batch.values
+        }));
 
-        if (returning) {
-          insertSQL += ` RETURNING ${returning}`;
-        }
-
-        const result = await db.query(insertSQL, values);
+        const { result, catalogChanges } = await run(() => runInsertBatches(db, statements, perBatch));
         return {
           operation: 'insert',
-          rowsAffected: Array.isArray(result) ? result.length : 1,
-          returning: returning ? result : undefined
+          rowsAffected: result.rowsAffected,
+          batches: statements.length > 1 ? result.batches : undefined,
+          returning: returning ? result.returning : undefined,
+          catalogChanges
         };
       }
 
       case 'update': {
+        if (Array.isArray(data)) {
+          throw new McpError(ErrorCode.InvalidParams, 'Update takes a single data object, not an array of rows');
+        }
         if (!data || Object.keys(data).length === 0) {
           throw new McpError(ErrorCode.InvalidParams, 'Data object is required for update operation');
         }
-        if (!where) {
-          throw new McpError(ErrorCode.InvalidParams, 'WHERE clause is required for update operation to prevent accidental full table updates');
-        }
-
         const columns = Object.keys(data);
         const values = Object.values(data);
         const setClause = columns.map((col, i) => `"${col}" = $${i + 1}`).join(', ');
 
-        let updateSQL = `UPDATE ${tableName} SET ${setClause} WHERE ${where}`;
+        const whereClause = buildWhereClause(input, values.length);
+        if (!whereClause) {
+          throw new McpError(ErrorCode.InvalidParams, 'WHERE clause (where or filter) is required for update operation to prevent accidental full table updates');
+        }
+
+        let updateSQL = `UPDATE ${tableName} SET ${setClause} WHERE ${whereClause.sql}`;
 
         if (returning) {
           updateSQL += ` RETURNING ${returning}`;
         }
 
-        const result = await db.query(updateSQL, values);
+        const { result, catalogChanges } = await run(() => db.querySerialized(updateSQL, [...values, ...whereClause.values]));
         return {
           operation: 'update',
-          rowsAffected: Array.isArray(result) ? result.length : 1,
-          returning: returning ? result : undefined
+          rowsAffected: result.rowCount,
+          returning: returning ? result : undefined,
+          catalogChanges
         };
       }
 
       case 'delete': {
-        if (!where) {
-          throw new McpError(ErrorCode.InvalidParams, 'WHERE clause is required for delete operation to prevent accidental full table deletion');
+        const whereClause = buildWhereClause(input, 0);
+        if (!whereClause) {
+          throw new McpError(ErrorCode.InvalidParams, 'WHERE clause (where or filter) is required for delete operation to prevent accidental full table deletion');
         }
 
-        let deleteSQL = `DELETE FROM ${tableName} WHERE ${where}`;
+        let deleteSQL = `DELETE FROM ${tableName} WHERE ${whereClause.sql}`;
 
         if (returning) {
           deleteSQL += ` RETURNING ${returning}`;
         }
 
-        const result = await db.query(deleteSQL);
+        const preview = dryRun ? null : await requireConfirmation(context.session, {
+          tool: 'sierra_execute_mutation',
+          operation,
+          sql: [deleteSQL],
+          parameters: whereClause.values,
+          affectedObjects: [`rows of ${tableName} matching ${whereClause.sql}`]
+        }, confirmationToken, () => estimateStatementRows(db, deleteSQL, whereClause.values));
+        if (preview) {
+          return { operation: 'delete', rowsAffected: 0, preview };
+        }
+
+        const { result, catalogChanges } = await run(() => db.querySerialized(deleteSQL, whereClause.values));
         return {
           operation: 'delete',
-          rowsAffected: Array.isArray(result) ? result.length : 1,
-          returning: returning ? result : undefined
+          rowsAffected: result.rowCount,
+          returning: returning ? result : undefined,
+          catalogChanges
         };
       }
 
       case 'upsert': {
-        if (!data || Object.keys(data).length === 0) {
+        const rows = Array.isArray(data) ? data : data ? [data] : [];
+        const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+        if (columns.length === 0) {
           throw new McpError(ErrorCode.InvalidParams, 'Data object is required for upsert operation');
         }
         if (!conflictColumns || conflictColumns.length === 0) {
           throw new McpError(ErrorCode.InvalidParams, 'Conflict columns are required for upsert operation');
         }
 
-        const columns = Object.keys(data);
-        const values = Object.values(data);
-        const placeholders = values.map((_, i) => `$${i + 1}`).join(', ');
         const conflictCols = conflictColumns.map(col => `"${col}"`).join(', ');
         const updateClause = columns
           .filter(col => !conflictColumns.includes(col))
           .map(col => `"${col}" = EXCLUDED."${col}"`)
           .join(', ');
 
-        let upsertSQL = `INSERT INTO ${tableName} (${columns.map(col => `"${col}"`).join(', ')}) VALUES (${placeholders}) ON CONFLICT (${conflictCols})`;
+        let conflictSQL = ` ON CONFLICT (${conflictCols})`;
 
         if (updateClause) {
-          upsertSQL += ` DO UPDATE SET ${updateClause}`;
+          conflictSQL += ` DO UPDATE SET ${updateClause}`;
         } else {
-          upsertSQL += ' DO NOTHING';
+          conflictSQL += ' DO NOTHING';
         }
 
         if (returning) {
-          upsertSQL += ` RETURNING ${returning}`;
+          conflictSQL += ` RETURNING ${returning}`;
         }
 
-        const result = await db.query(upsertSQL, values);
+        const statements = buildValuesBatches(columns, rows, batchSize).map(batch => ({
+          sql: `INSERT INTO ${tableName} (${columns.map(col => `"${col}"`).join(', ')}) VALUES ${batch.tuples}${conflictSQL}`,
+          values: batch.values
+        }));
+
+        const { result, catalogChanges } = await run(() => runInsertBatches(db, statements, perBatch));
         return {
           operation: 'upsert',
-          rowsAffected: Array.isArray(result) ? result.length : 1,
-          returning: returning ? result : undefined
+          rowsAffected: result.rowsAffected,
+          batches: statements.length > 1 ? result.batches : undefined,
+          returning: returning ? result.returning : undefined,
+          catalogChanges
         };
       }
 
@@ -292,31 +547,46 @@ async function executeMutation(
 
 export const executeMutationTool: SierraTool = {
   name: 'sierra_execute_mutation',
-  description: 'Execute data modification operations (INSERT/UPDATE/DELETE/UPSERT) - operation="insert/update/delete/upsert" with table and data. Examples: operation="insert", table="users", data={"name":"John","email":"john@example.com"}',
+  description: 'Execute data modification operations (INSERT/UPDATE/DELETE/UPSERT) - operation="insert/update/delete/upsert" with table and data. Examples: operation="insert", table="users", data={"name":"John","email":"john@example.com"}; operation="insert", table="users", data=[{"name":"John"},{"name":"Jane"}]; operation="delete", table="users", filter=[{"column":"status","op":"=","value":"inactive"}]',
   inputSchema: ExecuteMutationInputSchema,
-  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn): Promise<ToolOutput> => {
+  readOnlyOperations: [],
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
     const {
       connectionString: connStringArg,
+      profile,
       operation,
       table,
       data,
       where,
+      whereParams = [],
+      filter,
       conflictColumns,
       returning,
-      schema
+      schema,
+      confirmationToken,
+      batchSize = 1000,
+      transactionPerBatch = false,
+      dryRun = false,
+      outputFormat
     } = args as {
       connectionString?: string;
+      profile?: string;
       operation: 'insert' | 'update' | 'delete' | 'upsert';
       table: string;
-      data?: Record<string, unknown>;
+      data?: Record<string, unknown> | Record<string, unknown>[];
       where?: string;
+      whereParams?: unknown[];
+      filter?: Filter | Filter[];
       conflictColumns?: string[];
       returning?: string;
       schema?: string;
+      confirmationToken?: string;
+      batchSize?: number;
+      transactionPerBatch?: boolean;
+      dryRun?: boolean;
+      outputFormat?: OutputFormat;
     };
 
-    const resolvedConnString = getConnectionStringVal(connStringArg);
-
     try {
       if (!table?.trim()) {
         return {
@@ -326,20 +596,42 @@ export const executeMutationTool: SierraTool = {
       }
 
       const result = await executeMutation({
-        connectionString: resolvedConnString,
+        connectionString: connStringArg,
+        profile,
         operation,
         table,
         data,
         where,
+        whereParams,
+        filter,
         conflictColumns,
         returning,
-        schema: schema || 'public'
-      } as ExecuteMutationInput, getConnectionStringVal);
+        schema: schema || 'public',
+        confirmationToken,
+        batchSize,
+        transactionPerBatch,
+        dryRun
+      } as ExecuteMutationInput, getConnectionStringVal, context);
+
+      if (result.preview) {
+        return result.preview;
+      }
 
-      let responseText = `${operation.toUpperCase()} operation completed successfully. Rows affected: ${result.rowsAffected}`;
+      let responseText = dryRun
+        ? `DRY RUN: ${operation.toUpperCase()} operation was rolled back. Rows that would be affected: ${result.rowsAffected}`
+        : `${operation.toUpperCase()} operation completed successfully. Rows affected: ${result.rowsAffected}`;
+
+      if (result.batches) {
+        responseText += `\n\nBatches: ${result.batches.length} (rows affected per batch: ${result.batches.join(', ')})`;
+      }
+
+      if (result.returning && result.returning.rows.length > 0) {
+        responseText += `\n\nReturning data:\n${formatRows(result.returning.rows, outputFormat, { columns: result.returning.columns })}`;
+      }
 
-      if (result.returning && result.returning.length > 0) {
-        responseText += `\n\nReturning data:\n${JSON.stringify(result.returning, null, 2)}`;
+      const catalogChanges = result.catalogChanges ? formatCatalogChanges(result.catalogChanges) : '';
+      if (catalogChanges) {
+        responseText += `\n\nCatalog changes:\n${catalogChanges}`;
       }
 
       return { content: [{ type: 'text', text: responseText }] };
@@ -357,61 +649,191 @@ export const executeMutationTool: SierraTool = {
 
 const ExecuteSqlInputSchema = z.object({
   connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
   sql: z.string().describe('SQL statement to execute (can be any valid PostgreSQL SQL)'),
   parameters: z.array(z.unknown()).optional().default([]).describe('Parameter values for prepared statement placeholders ($1, $2, etc.)'),
   expectRows: z.boolean().optional().default(true).describe('Whether to expect rows back (false for statements like CREATE, DROP, etc.)'),
   timeout: z.number().optional().describe('Query timeout in milliseconds'),
-  transactional: z.boolean().optional().default(false).describe('Whether to wrap in a transaction')
+  transactional: z.boolean().optional().default(false).describe('Whether to wrap in a transaction'),
+  confirmationToken: z.string().optional().describe('Token returned by the preview of a destructive operation; pass it back to execute the operation when confirmation is required'),
+  byteaEncoding: z.enum(['hex', 'base64']).optional().default('hex').describe('Encoding of bytea values in the results'),
+  dryRun: z.boolean().optional().default(false).describe('Run the statements one by one in a transaction that is always rolled back and report the rows each affects, the rows of the last one that returns any and the catalog changes; sequences they advance (e.g. for serial or identity columns) stay advanced and are listed; no confirmation is needed'),
+  outputFormat: OutputFormatSchema
 });
 
 type ExecuteSqlInput = z.infer<typeof ExecuteSqlInputSchema>;
 
+/** Rows removed by DELETE, TRUNCATE and DROP TABLE statements, where the planner or statistics can tell */
+async function estimateDestructiveRows(db: DatabaseConnection, statements: SqlStatement[], parameters: unknown[]): Promise<number | undefined> {
+  let total: number | undefined;
+  for (const statement of statements) {
+    let estimate: number | undefined;
+    if (statement.kind === 'delete') {
+      estimate = await estimateStatementRows(db, statement.text, parameters);
+    } else if (statement.command === 'TRUNCATE' || statement.command === 'DROP TABLE') {
+      for (const relation of statement.relations) {
+        estimate = (estimate ?? 0) + ((await estimateTableRows(db, relation.schema ?? 'public', relation.name)) ?? 0);
+      }
+    }
+    if (estimate !== undefined) {
+      total = (total ?? 0) + estimate;
+    }
+  }
+  return total;
+}
+
+/**
+ * Run `statements` one by one in a transaction that is always rolled back,
+ * with the row count of each and the rows of the last one that returns
+ * columns. Parameters only apply to a single statement, as in `executeSql`.
+ */
+async function dryRunStatements(
+  db: DatabaseConnection,
+  statements: SqlStatement[],
+  parameters: unknown[],
+  options: { timeout?: number; bytea: ExecuteSqlInput['byteaEncoding'] }
+): Promise<{ counts: Array<{ command: string; rowCount: number }>; result?: SerializedResult; catalogChanges: CatalogChanges }> {
+  const { result: { counts, result }, catalogChanges } = await executeDryRun(db, async () => {
+    const counts: Array<{ command: string; rowCount: number }> = [];
+    let last: SerializedResult | undefined;
+    for (const statement of statements) {
+      const executed = await db.querySerialized(statement.text, statements.length === 1 ? parameters : [], options);
+      counts.push({ command: statement.command || 'statement', rowCount: executed.rowCount });
+      if (executed.columns.length > 0) {
+        last = executed;
+      }
+    }
+    return { counts, result: last };
+  });
+  return { counts, result, catalogChanges };
+}
+
+/**
+ * The impact of executed statements from their command tags: the rows they
+ * wrote, per statement when there are several, or the rows returned.
+ */
+function describeImpact(statements: Array<{ command: string; rowCount: number }>, rowsReturned?: number): string {
+  const commands = statements.map(s => isWriteCommand(s.command) ? `${s.command} ${s.rowCount}` : s.command).filter(Boolean);
+  if (statements.some(s => isWriteCommand(s.command))) {
+    return `Rows affected: ${rowsAffected(statements)}${statements.length > 1 ? ` (${commands.join(', ')})` : ''}.`;
+  }
+  if (rowsReturned !== undefined) {
+    return `Retrieved ${rowsReturned} rows.`;
+  }
+  return `Operation completed${commands.length > 0 ? ` (${commands.join(', ')})` : ''}.`;
+}
+
 async function executeSql(
   input: ExecuteSqlInput,
-  getConnectionString: GetConnectionStringFn
-): Promise<{ sql: string; rowsAffected?: number; rows?: unknown[]; message: string }> {
-  const resolvedConnectionString = getConnectionString(input.connectionString);
-  const db = DatabaseConnection.getInstance();
-  const { sql, parameters, expectRows, timeout, transactional } = input;
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<{ sql: string; rowsAffected?: number; columns?: ColumnInfo[]; rows?: SerializedResult['rows']; message: string; catalogChanges?: CatalogChanges; preview?: ToolOutput }> {
+  const resolvedConnectionString = getConnectionString(input.connectionString, input.profile);
+  const { sql, parameters, expectRows, timeout, transactional, confirmationToken, byteaEncoding, dryRun } = input;
+
+  if (DatabaseConnection.isReadOnly()) {
+    const analysis = analyzeSql(sql);
+    if (analysis.statements.length !== 1 || !analysis.readOnly) {
+      const reasons = analysis.statements.length !== 1
+        ? [`found ${analysis.statements.length} statements`]
+        : analysis.statements[0].reasons;
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `The server is running in read-only mode: only a single read-only statement is allowed (${reasons.join('; ')}).`
+      );
+    }
+  }
+
+  const control = parseSql(sql).filter(s => s.kind === 'transaction').map(s => s.command).join(', ');
+  if (control && dryRun) {
+    throw new McpError(ErrorCode.InvalidParams, `A dry run cannot contain transaction control statements: found ${control}`);
+  }
+  if (control && context.session.openTransaction) {
+    throw new McpError(ErrorCode.InvalidParams, `A session transaction is open: use sierra_transaction instead of ${control} statements`);
+  }
+  if (dryRun) {
+    try {
+      assertDryRunnable([sql]);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  }
 
+  const db = context.session.connection();
   try {
     await db.connect(resolvedConnectionString);
 
+    const statements = parseSql(sql);
+    if (dryRun) {
+      const { counts, result, catalogChanges } = await dryRunStatements(db, statements, parameters || [], {
+        ...(timeout ? { timeout } : {}),
+        bytea: byteaEncoding
+      });
+      return {
+        sql,
+        rowsAffected: rowsAffected(counts),
+        columns: result?.columns,
+        rows: result?.rows,
+        message: `DRY RUN: ${counts.length} statement(s) executed and rolled back.\n${counts.map(count => `- ${count.command}: ${count.rowCount} rows`).join('\n')}`,
+        catalogChanges
+      };
+    }
+
+    const destructive = statements.filter(isDestructiveStatement);
+    if (destructive.length > 0) {
+      const preview = await requireConfirmation(context.session, {
+        tool: 'sierra_execute_sql',
+        operation: destructive.map(s => s.command).join(', '),
+        sql: destructive.map(s => s.text),
+        parameters,
+        affectedObjects: destructive.map(s => {
+          const relations = s.relations.map(r => `${r.schema ?? 'public'}.${r.name}`);
+          return relations.length > 0 ? `${s.command} ${relations.join(', ')}` : s.command;
+        })
+      }, confirmationToken, () => estimateDestructiveRows(db, destructive, statements.length === 1 ? parameters : []));
+      if (preview) {
+        return { sql, message: '', preview };
+      }
+    }
+
     const queryOptions = timeout ? { timeout } : {};
 
     if (transactional) {
-      return await db.transaction(async (client) => {
-        const result = await client.query(sql, parameters || []);
-
+      // Queries inside the callback run on the transaction's client
+      return await db.transaction(async () => {
         if (expectRows) {
+          const { columns, rows, statements } = await db.querySerialized(sql, parameters || [], { bytea: byteaEncoding });
           return {
             sql,
-            rowsAffected: Array.isArray(result.rows) ? result.rows.length : 0,
-            rows: result.rows,
-            message: `SQL executed successfully in transaction. Retrieved ${Array.isArray(result.rows) ? result.rows.length : 0} rows.`
+            rowsAffected: rowsAffected(statements),
+            columns,
+            rows,
+            message: `SQL executed successfully in transaction. ${describeImpact(statements, rows.length)}`
           };
         }
+        const results = await db.queryResults(sql, parameters || []);
         return {
           sql,
-          rowsAffected: result.rowCount || 0,
-          message: `SQL executed successfully in transaction. Rows affected: ${result.rowCount || 0}`
+          rowsAffected: rowsAffected(results),
+          message: `SQL executed successfully in transaction. ${describeImpact(results)}`
         };
       });
     }
-    const result = await db.query(sql, parameters || [], queryOptions);
-
     if (expectRows) {
+      const { columns, rows, statements } = await db.querySerialized(sql, parameters || [], { ...queryOptions, bytea: byteaEncoding });
       return {
         sql,
-        rowsAffected: Array.isArray(result) ? result.length : 0,
-        rows: result,
-        message: `SQL executed successfully. Retrieved ${Array.isArray(result) ? result.length : 0} rows.`
+        rowsAffected: rowsAffected(statements),
+        columns,
+        rows,
+        message: `SQL executed successfully. ${describeImpact(statements, rows.length)}`
       };
     }
+    const results = await db.queryResults(sql, parameters || [], queryOptions);
     return {
       sql,
-      rowsAffected: Array.isArray(result) ? result.length : 1,
-      message: 'SQL executed successfully. Operation completed.'
+      rowsAffected: rowsAffected(results),
+      message: `SQL executed successfully. ${describeImpact(results)}`
     };
   } catch (error) {
     throw new McpError(ErrorCode.InternalError, `Failed to execute SQL: ${error instanceof Error ? error.message : String(error)}`);
@@ -424,25 +846,33 @@ export const executeSqlTool: SierraTool = {
   name: 'sierra_execute_sql',
   description: 'Execute arbitrary SQL statements - sql="ANY_VALID_SQL" with optional parameters and transaction support. Examples: sql="CREATE INDEX ...", sql="WITH complex_cte AS (...) SELECT ...", transactional=true',
   inputSchema: ExecuteSqlInputSchema,
-  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn): Promise<ToolOutput> => {
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
     const {
       connectionString: connStringArg,
+      profile,
       sql,
       parameters,
       expectRows,
       timeout,
-      transactional
+      transactional,
+      confirmationToken,
+      byteaEncoding,
+      dryRun,
+      outputFormat
     } = args as {
       connectionString?: string;
+      profile?: string;
       sql: string;
       parameters?: unknown[];
       expectRows?: boolean;
       timeout?: number;
       transactional?: boolean;
+      confirmationToken?: string;
+      byteaEncoding?: 'hex' | 'base64';
+      dryRun?: boolean;
+      outputFormat?: OutputFormat;
     };
 
-    const resolvedConnString = getConnectionStringVal(connStringArg);
-
     try {
       if (!sql?.trim()) {
         return {
@@ -452,18 +882,32 @@ export const executeSqlTool: SierraTool = {
       }
 
       const result = await executeSql({
-        connectionString: resolvedConnString,
+        connectionString: connStringArg,
+        profile,
         sql,
         parameters: parameters ?? [],
         expectRows: expectRows ?? true,
         timeout,
-        transactional: transactional ?? false
-      }, getConnectionStringVal);
+        transactional: transactional ?? false,
+        confirmationToken,
+        byteaEncoding: byteaEncoding ?? 'hex',
+        dryRun: dryRun ?? false,
+        outputFormat: outputFormat ?? 'json'
+      }, getConnectionStringVal, context);
+
+      if (result.preview) {
+        return result.preview;
+      }
 
       let responseText = result.message;
 
       if (result.rows && result.rows.length > 0) {
-        responseText += `\n\nResults:\n${JSON.stringify(result.rows, null, 2)}`;
+        responseText += `\n\nResults:\n${formatRows(result.rows, outputFormat, { columns: result.columns, hint: 'Add LIMIT/OFFSET or select fewer columns to see the rest, or use sierra_execute_query with pageSize.' })}`;
+      }
+
+      const catalogChanges = result.catalogChanges ? formatCatalogChanges(result.catalogChanges) : '';
+      if (catalogChanges) {
+        responseText += `\n\nCatalog changes:\n${catalogChanges}`;
       }
 
       return { content: [{ type: 'text', text: responseText }] };
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import { formatJson } from '../utils/budget.js';
+import { diffSchemas, readSchema, type SchemaDiff, type SchemaSnapshot } from '../utils/diff.js';
+
+const SchemaDiffInputSchema = z.object({
+  connectionString: z.string().optional().describe('PostgreSQL connection string of the source (optional)'),
+  profile: z.string().optional().describe('Named connection profile of the source (optional, alternative to connectionString)'),
+  schema: z.string().optional().default('public').describe('Source schema (defaults to public)'),
+  targetConnectionString: z.string().optional().describe('PostgreSQL connection string of the target (defaults to the source connection)'),
+  targetProfile: z.string().optional().describe('Named connection profile of the target (defaults to the source connection)'),
+  targetSchema: z.string().optional().describe('Target schema (defaults to the source schema)')
+});
+
+type SchemaDiffInput = z.infer<typeof SchemaDiffInputSchema>;
+
+async function readTarget(connectionString: string, schema: string, context: ToolContext): Promise<SchemaSnapshot> {
+  const db = context.session.connection();
+  try {
+    await db.connect(connectionString);
+    return await readSchema(db, schema);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+/** How a side of the diff is shown in the result; connection strings are not repeated */
+function describeTarget(profile: string | undefined, connectionString: string | undefined, schema: string): string {
+  const connection = profile ? `profile ${profile}` : connectionString ? 'connection string' : 'default connection';
+  return `${connection}, schema ${schema}`;
+}
+
+async function executeSchemaDiff(
+  input: SchemaDiffInput,
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<SchemaDiff & { source: string; target: string }> {
+  const { connectionString, profile, schema, targetConnectionString, targetProfile } = input;
+  const targetSchema = input.targetSchema ?? schema;
+  const sourceConnection = getConnectionString(connectionString, profile);
+  const separateTarget = targetConnectionString !== undefined || targetProfile !== undefined;
+  const targetConnection = separateTarget ? getConnectionString(targetConnectionString, targetProfile) : sourceConnection;
+  if (targetConnection === sourceConnection && targetSchema === schema) {
+    throw new McpError(ErrorCode.InvalidParams, 'Source and target are the same schema: pass targetProfile, targetConnectionString or targetSchema');
+  }
+
+  try {
+    const source = await readTarget(sourceConnection, schema, context);
+    const target = await readTarget(targetConnection, targetSchema, context);
+    return {
+      source: describeTarget(profile, connectionString, schema),
+      target: separateTarget ? describeTarget(targetProfile, targetConnectionString, targetSchema) : describeTarget(profile, connectionString, targetSchema),
+      ...diffSchemas(source, target)
+    };
+  } catch (error) {
+    throw new McpError(ErrorCode.InternalError, `Failed to compare schemas: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const schemaDiffTool: SierraTool = {
+  name: 'sierra_schema_diff',
+  description: 'Compare two schemas, in two databases (profile and targetProfile) or in one (schema and targetSchema): tables, columns, constraints, indexes and functions that the target lacks (added), has in addition (removed) or defines differently (changed), plus an ordered migration script that makes the target match the source. Example: profile="staging", targetProfile="production"',
+  inputSchema: SchemaDiffInputSchema,
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
+    const {
+      connectionString,
+      profile,
+      schema = 'public',
+      targetConnectionString,
+      targetProfile,
+      targetSchema
+    } = args as SchemaDiffInput;
+
+    try {
+      const result = await executeSchemaDiff({
+        connectionString,
+        profile,
+        schema,
+        targetConnectionString,
+        targetProfile,
+        targetSchema
+      }, getConnectionStringVal, context);
+      const { script, ...differences } = result;
+      const summary = `${result.added.length} added, ${result.removed.length} removed, ${result.changed.length} changed`;
+      if (script.length === 0) {
+        return { content: [{ type: 'text', text: `No differences between ${result.source} and ${result.target}.` }] };
+      }
+      return {
+        content: [
+          { type: 'text', text: `Schema diff between source (${result.source}) and target (${result.target}): ${summary}.` },
+          { type: 'text', text: formatJson(differences) },
+          { type: 'text', text: `Migration script (makes the target match the source; review before running):\n\n${script.join('\n\n')}` }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Error comparing schemas: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true
+      };
+    }
+  }
+};
@@ -0,0 +1,420 @@
+import { z } from 'zod';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import { DatabaseConnection } from '../utils/connection.js';
+import { isSideEffectFunction, parseSingleStatement, type SqlStatement } from '../utils/sql.js';
+import { formatJson } from '../utils/budget.js';
+
+const ExplainQueryInputSchema = z.object({
+  connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
+  query: z.string().describe('SELECT, INSERT, UPDATE, DELETE or MERGE statement to explain'),
+  parameters: z.array(z.unknown()).optional().default([]).describe('Parameter values for prepared statement placeholders ($1, $2, etc.)'),
+  analyze: z.boolean().optional().default(false).describe('Run the statement to get actual rows, timings and spills (EXPLAIN ANALYZE). Always executed inside a transaction that is rolled back'),
+  includePlan: z.boolean().optional().default(false).describe('Include the full JSON plan in addition to the summary'),
+  timeout: z.number().optional().describe('Query timeout in milliseconds')
+});
+
+type ExplainQueryInput = z.infer<typeof ExplainQueryInputSchema>;
+
+/** Tables with at least this many rows are reported when scanned sequentially */
+const LARGE_TABLE_ROWS = 10000;
+/** Estimated and actual rows differing by this factor or more count as a misestimate */
+const MISESTIMATE_FACTOR = 10;
+const TOP_NODES = 5;
+
+const EXPLAINABLE_KINDS = new Set(['select', 'insert', 'update', 'delete', 'merge']);
+
+interface PlanNode {
+  'Node Type': string;
+  'Relation Name'?: string;
+  Schema?: string;
+  Alias?: string;
+  'Index Name'?: string;
+  'Startup Cost': number;
+  'Total Cost': number;
+  'Plan Rows': number;
+  'Actual Total Time'?: number;
+  'Actual Rows'?: number;
+  'Actual Loops'?: number;
+  Filter?: string;
+  'Rows Removed by Filter'?: number;
+  'Sort Key'?: string[];
+  'Sort Method'?: string;
+  'Sort Space Used'?: number;
+  'Sort Space Type'?: string;
+  'Hash Batches'?: number;
+  'Original Hash Batches'?: number;
+  'HashAgg Batches'?: number;
+  'Disk Usage'?: number;
+  'Temp Written Blocks'?: number;
+  Plans?: PlanNode[];
+}
+
+interface ExplainOutput {
+  Plan: PlanNode;
+  'Planning Time'?: number;
+  'Execution Time'?: number;
+}
+
+/** A plan node with its position in the tree and the cost/time spent in the node itself */
+interface FlatNode {
+  id: number;
+  node: PlanNode;
+  selfCost: number;
+  selfTimeMs?: number;
+}
+
+interface IndexSuggestion {
+  table: string;
+  columns: string[];
+  reason: string;
+  tool: 'sierra_manage_indexes';
+  arguments: {
+    operation: 'create';
+    schema: string;
+    tableName: string;
+    indexName: string;
+    columns: string[];
+  };
+}
+
+function describeNode(node: PlanNode): string {
+  let description = node['Node Type'];
+  if (node['Index Name']) {
+    description += ` using ${node['Index Name']}`;
+  }
+  if (node['Relation Name']) {
+    description += ` on ${node.Schema ? `${node.Schema}.` : ''}${node['Relation Name']}`;
+    if (node.Alias && node.Alias !== node['Relation Name']) {
+      description += ` ${node.Alias}`;
+    }
+  }
+  return description;
+}
+
+/** Total time of a node over all its loops */
+function totalTime(node: PlanNode): number | undefined {
+  return node['Actual Total Time'] === undefined ? undefined : node['Actual Total Time'] * (node['Actual Loops'] ?? 1);
+}
+
+function flattenPlan(root: PlanNode): FlatNode[] {
+  const nodes: FlatNode[] = [];
+  const visit = (node: PlanNode) => {
+    const children = node.Plans ?? [];
+    const time = totalTime(node);
+    nodes.push({
+      id: nodes.length,
+      node,
+      selfCost: Math.max(0, node['Total Cost'] - children.reduce((sum, child) => sum + child['Total Cost'], 0)),
+      selfTimeMs: time === undefined
+        ? undefined
+        : Math.max(0, time - children.reduce((sum, child) => sum + (totalTime(child) ?? 0), 0))
+    });
+    for (const child of children) {
+      visit(child);
+    }
+  };
+  visit(root);
+  return nodes;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Columns compared in a scan filter, equality comparisons first, e.g.
+ * "((o.status = 'open'::text) AND (o.total > 100))" gives ["status", "total"].
+ */
+function filterColumns(filter: string): string[] {
+  const equality: string[] = [];
+  const other: string[] = [];
+  const pattern = /(?:^|[\s(])(?:"?[A-Za-z_][\w$]*"?\.)?"?([A-Za-z_][\w$]*)"?(?:::[\w ]+)?\s*(=|<>|!=|<=|>=|<|>|~~\*?|IS\s)/g;
+  for (const match of filter.matchAll(pattern)) {
+    const target = match[2] === '=' ? equality : other;
+    if (!equality.includes(match[1]) && !other.includes(match[1])) {
+      target.push(match[1]);
+    }
+  }
+  return [...equality, ...other];
+}
+
+async function suggestIndex(db: DatabaseConnection, schema: string, table: string, filter: string): Promise<IndexSuggestion | null> {
+  const candidates = filterColumns(filter);
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const columnRows = await db.query<{ attname: string }>(
+    `SELECT a.attname
+     FROM pg_attribute a
+     JOIN pg_class c ON c.oid = a.attrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = $1 AND c.relname = $2 AND a.attnum > 0 AND NOT a.attisdropped`,
+    [schema, table]
+  );
+  const tableColumns = new Set(columnRows.map(r => r.attname));
+  const columns = candidates.filter(c => tableColumns.has(c)).slice(0, 3);
+  if (columns.length === 0) {
+    return null;
+  }
+
+  // An index already leading with the first column means the planner preferred the scan
+  const existing = await db.queryOne<{ indexname: string }>(
+    `SELECT ic.relname AS indexname
+     FROM pg_index i
+     JOIN pg_class ic ON ic.oid = i.indexrelid
+     JOIN pg_class c ON c.oid = i.indrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum = i.indkey[0]
+     WHERE n.nspname = $1 AND c.relname = $2 AND a.attname = $3 AND i.indisvalid`,
+    [schema, table, columns[0]]
+  );
+  if (existing) {
+    return null;
+  }
+
+  const indexName = `${table}_${columns.join('_')}_idx`.slice(0, 63);
+  return {
+    table: `${schema}.${table}`,
+    columns,
+    reason: `Sequential scan filtering on ${columns.join(', ')}`,
+    tool: 'sierra_manage_indexes',
+    arguments: { operation: 'create', schema, tableName: table, indexName, columns }
+  };
+}
+
+async function summarizePlan(db: DatabaseConnection, output: ExplainOutput, analyzed: boolean): Promise<Record<string, unknown>> {
+  const nodes = flattenPlan(output.Plan);
+  const root = output.Plan;
+  const notes: string[] = [];
+
+  const totalCost = root['Total Cost'];
+  const totalTimeMs = totalTime(root);
+  const costliestNodes = [...nodes]
+    .sort((a, b) => analyzed ? (b.selfTimeMs ?? 0) - (a.selfTimeMs ?? 0) : b.selfCost - a.selfCost)
+    .slice(0, TOP_NODES)
+    .map(n => ({
+      id: n.id,
+      node: describeNode(n.node),
+      selfCost: round(n.selfCost),
+      costShare: totalCost > 0 ? `${round((n.selfCost / totalCost) * 100)}%` : undefined,
+      selfTimeMs: n.selfTimeMs !== undefined ? round(n.selfTimeMs) : undefined,
+      timeShare: n.selfTimeMs !== undefined && totalTimeMs ? `${round((n.selfTimeMs / totalTimeMs) * 100)}%` : undefined,
+      estimatedRows: n.node['Plan Rows'],
+      actualRows: n.node['Actual Rows']
+    }));
+
+  const seqScans: Array<Record<string, unknown>> = [];
+  const indexSuggestions: IndexSuggestion[] = [];
+  for (const { id, node } of nodes) {
+    if (node['Node Type'] !== 'Seq Scan' || !node['Relation Name']) {
+      continue;
+    }
+    const schema = node.Schema ?? 'public';
+    const table = node['Relation Name'];
+    const stats = await db.queryOne<{ estimate: string | null }>(
+      `SELECT CASE WHEN c.reltuples < 0 THEN NULL ELSE c.reltuples::bigint END AS estimate
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE n.nspname = $1 AND c.relname = $2`,
+      [schema, table]
+    );
+    const tableRows = stats?.estimate != null ? Number(stats.estimate) : undefined;
+    if ((tableRows ?? node['Plan Rows']) < LARGE_TABLE_ROWS) {
+      continue;
+    }
+
+    seqScans.push({
+      id,
+      table: `${schema}.${table}`,
+      tableRows,
+      filter: node.Filter,
+      estimatedRows: node['Plan Rows'],
+      actualRows: node['Actual Rows'],
+      rowsRemovedByFilter: node['Rows Removed by Filter']
+    });
+    if (node.Filter && !indexSuggestions.some(s => s.table === `${schema}.${table}`)) {
+      const suggestion = await suggestIndex(db, schema, table, node.Filter);
+      if (suggestion) {
+        indexSuggestions.push(suggestion);
+      }
+    }
+  }
+
+  const misestimates: Array<Record<string, unknown>> = [];
+  const spills: Array<Record<string, unknown>> = [];
+  if (analyzed) {
+    const misestimateFactor = (node: PlanNode): number | undefined => {
+      const actual = node['Actual Rows'];
+      if (actual === undefined || !node['Actual Loops']) {
+        return undefined;
+      }
+      const estimated = node['Plan Rows'];
+      const factor = Math.max(actual, estimated) / Math.max(Math.min(actual, estimated), 1);
+      return factor >= MISESTIMATE_FACTOR && Math.max(actual, estimated) >= 100 ? factor : undefined;
+    };
+
+    for (const { id, node } of nodes) {
+      // Parents inherit their children's misestimates; report only where one starts
+      const factor = misestimateFactor(node);
+      if (factor !== undefined && !node.Plans?.some(child => misestimateFactor(child) !== undefined)) {
+        const actual = node['Actual Rows'] as number;
+        misestimates.push({
+          id,
+          node: describeNode(node),
+          estimatedRows: node['Plan Rows'],
+          actualRows: actual,
+          factor: round(factor),
+          direction: actual > node['Plan Rows'] ? 'underestimated' : 'overestimated'
+        });
+      }
+
+      if (node['Sort Space Type'] === 'Disk') {
+        spills.push({ id, node: describeNode(node), kind: 'sort', method: node['Sort Method'], diskKb: node['Sort Space Used'] });
+      } else if ((node['Hash Batches'] ?? 1) > 1) {
+        spills.push({ id, node: describeNode(node), kind: 'hash', batches: node['Hash Batches'], originalBatches: node['Original Hash Batches'] });
+      } else if ((node['HashAgg Batches'] ?? 1) > 1) {
+        spills.push({ id, node: describeNode(node), kind: 'hash aggregate', batches: node['HashAgg Batches'], diskKb: node['Disk Usage'] });
+      } else if ((node['Temp Written Blocks'] ?? 0) > 0 && !node.Plans?.some(child => (child['Temp Written Blocks'] ?? 0) >= (node['Temp Written Blocks'] ?? 0))) {
+        spills.push({ id, node: describeNode(node), kind: 'temp files', tempWrittenBlocks: node['Temp Written Blocks'] });
+      }
+    }
+    if (misestimates.length > 0) {
+      notes.push('Large row misestimates usually mean stale statistics: run ANALYZE on the tables involved, or raise their statistics target.');
+    }
+    if (spills.length > 0) {
+      notes.push('Sorts or hashes spilled to disk: consider a larger work_mem for this query, or an index that provides the needed order.');
+    }
+  } else {
+    notes.push('Estimates only. Set analyze=true to get actual rows, timings, misestimates and disk spills.');
+  }
+  if (indexSuggestions.length > 0) {
+    notes.push('Index suggestions are heuristics from scan filters; check selectivity before creating them with sierra_manage_indexes.');
+  }
+
+  return {
+    analyzed,
+    planningTimeMs: output['Planning Time'] !== undefined ? round(output['Planning Time']) : undefined,
+    executionTimeMs: output['Execution Time'] !== undefined ? round(output['Execution Time']) : undefined,
+    totalCost,
+    estimatedRows: root['Plan Rows'],
+    actualRows: root['Actual Rows'],
+    nodeCount: nodes.length,
+    costliestNodes,
+    seqScansOnLargeTables: seqScans,
+    misestimates: analyzed ? misestimates.sort((a, b) => (b.factor as number) - (a.factor as number)).slice(0, TOP_NODES) : undefined,
+    spills: analyzed ? spills : undefined,
+    indexSuggestions,
+    notes
+  };
+}
+
+async function executeExplain(
+  input: ExplainQueryInput,
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<{ statement: SqlStatement; summary: Record<string, unknown>; plan: ExplainOutput }> {
+  const { query, parameters, analyze, timeout } = input;
+
+  let statement: SqlStatement;
+  try {
+    statement = parseSingleStatement(query);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+  if (!EXPLAINABLE_KINDS.has(statement.kind)) {
+    throw new McpError(ErrorCode.InvalidParams, `Only SELECT, INSERT, UPDATE, DELETE and MERGE can be explained; got ${statement.command || 'an unrecognized statement'}`);
+  }
+  if (analyze) {
+    const sideEffects = statement.functionCalls.filter(isSideEffectFunction);
+    if (sideEffects.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `EXPLAIN ANALYZE would call functions whose effects are not rolled back: ${[...new Set(sideEffects)].join(', ')}`);
+    }
+    if (!statement.readOnly && DatabaseConnection.isReadOnly()) {
+      throw new McpError(ErrorCode.InvalidParams, `EXPLAIN ANALYZE executes the statement, which is not read-only (${statement.reasons.join('; ')}), and the server is running in read-only mode.`);
+    }
+  }
+
+  const resolvedConnectionString = getConnectionString(input.connectionString, input.profile);
+  const db = context.session.connection();
+
+  try {
+    await db.connect(resolvedConnectionString);
+
+    const options = analyze ? 'FORMAT JSON, VERBOSE, BUFFERS, ANALYZE' : 'FORMAT JSON, VERBOSE';
+    const explainSql = `EXPLAIN (${options}) ${statement.text}`;
+    const queryOptions = timeout ? { timeout } : {};
+
+    let rows: Array<{ 'QUERY PLAN': ExplainOutput[] }>;
+    if (analyze) {
+      // ANALYZE really runs the statement; the rollback discards anything it wrote
+      rows = await db.transaction(() => db.query(explainSql, parameters ?? [], queryOptions), { rollback: true });
+    } else {
+      rows = await db.query(explainSql, parameters ?? [], queryOptions);
+    }
+
+    const plan = rows[0]?.['QUERY PLAN']?.[0];
+    if (!plan) {
+      throw new Error('EXPLAIN returned no plan');
+    }
+    return { statement, summary: await summarizePlan(db, plan, analyze), plan };
+  } catch (error) {
+    throw new McpError(ErrorCode.InternalError, `Failed to explain query: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+export const explainQueryTool: SierraTool = {
+  name: 'sierra_explain_query',
+  description: 'Explain a query plan and summarize it: costliest nodes, sequential scans on large tables, row misestimates, sort/hash spills and index suggestions. analyze=true runs the statement (EXPLAIN ANALYZE) in a transaction that is always rolled back. Example: query="SELECT * FROM orders WHERE status = $1", parameters=["open"], analyze=true',
+  inputSchema: ExplainQueryInputSchema,
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
+    const {
+      connectionString: connStringArg,
+      profile,
+      query,
+      parameters = [],
+      analyze = false,
+      includePlan = false,
+      timeout
+    } = args as ExplainQueryInput;
+
+    try {
+      if (!query?.trim()) {
+        return {
+          content: [{ type: 'text', text: 'Error: query is required' }],
+          isError: true
+        };
+      }
+
+      const { statement, summary, plan } = await executeExplain({
+        connectionString: connStringArg,
+        profile,
+        query,
+        parameters,
+        analyze,
+        includePlan,
+        timeout
+      }, getConnectionStringVal, context);
+      const heading = analyze
+        ? `EXPLAIN ANALYZE of ${statement.command} completed${statement.readOnly ? '' : ' (changes rolled back)'}.`
+        : `EXPLAIN of ${statement.command} completed.`;
+
+      return {
+        content: [{
+          type: 'text',
+          text: `${heading}\n\nSummary:\n${formatJson(summary)}${includePlan ? `\n\nPlan:\n${formatJson(plan)}` : ''}`
+        }]
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error explaining query: ${error instanceof Error ? error.message : String(error)}`
+        }],
+        isError: true
+      };
+    }
+  }
+};
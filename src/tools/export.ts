@@ -0,0 +1,246 @@
+import { z } from 'zod';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { createWriteStream, type WriteStream } from 'node:fs';
+import { rename, stat, unlink } from 'node:fs/promises';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import type { DatabaseConnection } from '../utils/connection.js';
+import { getExportDirectory, openFileForWriting, resolveFileInside } from '../utils/files.js';
+import { csvLine } from '../utils/format.js';
+import { applyRowLimit, parseSingleStatement, type SqlStatement } from '../utils/sql.js';
+
+const ExportInputSchema = z.object({
+  connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
+  query: z.string().describe('SQL SELECT query whose rows are exported'),
+  parameters: z.array(z.unknown()).optional().default([]).describe('Parameter values for prepared statement placeholders ($1, $2, etc.)'),
+  format: z.enum(['csv', 'jsonl', 'sql']).optional().default('csv').describe('File format: csv (with header row), jsonl (one JSON object per line), sql (INSERT statements)'),
+  fileName: z.string().optional().describe('File name relative to the export directory (defaults to a timestamped name); .gz is appended when gzip is set'),
+  gzip: z.boolean().optional().default(false).describe('Compress the file with gzip'),
+  overwrite: z.boolean().optional().default(false).describe('Replace an existing file of the same name'),
+  insertTable: z.string().optional().describe('Target table of the INSERT statements for format="sql" (defaults to the table the query reads from)'),
+  byteaEncoding: z.enum(['hex', 'base64']).optional().default('hex').describe('Encoding of bytea values for format="jsonl"'),
+  limit: z.number().optional().describe('Maximum number of rows to export'),
+  timeout: z.number().optional().describe('Timeout in milliseconds for each batch of rows')
+});
+
+type ExportInput = z.infer<typeof ExportInputSchema>;
+
+/** Rows fetched from the cursor per round trip */
+const EXPORT_BATCH_ROWS = 1000;
+
+const FILE_EXTENSIONS: Record<ExportInput['format'], string> = {
+  csv: 'csv',
+  jsonl: 'jsonl',
+  sql: 'sql'
+};
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string | null): string {
+  return value === null ? 'NULL' : `'${value.replace(/'/g, "''")}'`;
+}
+
+/** `schema.table` for INSERT statements, quoted part by part */
+function insertTarget(insertTable: string | undefined, statement: SqlStatement): string {
+  if (insertTable) {
+    return insertTable.split('.').map(quoteIdentifier).join('.');
+  }
+  if (statement.relations.length !== 1) {
+    throw new McpError(ErrorCode.InvalidParams, 'insertTable is required for format="sql" when the query does not read from exactly one table');
+  }
+  const [relation] = statement.relations;
+  return [relation.schema, relation.name].filter((part): part is string => Boolean(part)).map(quoteIdentifier).join('.');
+}
+
+async function executeExport(
+  input: ExportInput,
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<{ path: string; format: string; rows: number; bytes: number; uncompressedBytes: number; columns: string[] }> {
+  const { query, parameters, format, fileName, gzip, overwrite, insertTable, byteaEncoding, limit, timeout } = input;
+
+  const directory = getExportDirectory();
+  if (!directory) {
+    throw new McpError(ErrorCode.InvalidRequest, 'Exports are disabled: start the server with --export-dir (or SIERRA_EXPORT_DIR).');
+  }
+
+  let statement: SqlStatement;
+  try {
+    statement = parseSingleStatement(query);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+  if (statement.kind !== 'select') {
+    throw new McpError(ErrorCode.InvalidParams, `Query must be a SELECT statement, CTE (WITH clause), VALUES or TABLE; got ${statement.command || 'an unrecognized statement'}`);
+  }
+  if (!statement.readOnly) {
+    throw new McpError(ErrorCode.InvalidParams, `Query is not read-only: ${statement.reasons.join('; ')}`);
+  }
+  const target = format === 'sql' ? insertTarget(insertTable, statement) : '';
+
+  const baseName = fileName ?? `export-${new Date().toISOString().replace(/[:.]/g, '-')}.${FILE_EXTENSIONS[format]}`;
+  let filePath: string;
+  try {
+    filePath = resolveFileInside(directory, gzip && !baseName.endsWith('.gz') ? `${baseName}.gz` : baseName);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+  if (!overwrite && await stat(filePath).then(() => true, () => false)) {
+    throw new McpError(ErrorCode.InvalidParams, `${path.relative(directory, filePath)} already exists; pass overwrite=true to replace it`);
+  }
+
+  const resolvedConnectionString = getConnectionString(input.connectionString, input.profile);
+  // Written next to the target and renamed when complete, so a failed export leaves no partial file behind
+  const partialPath = `${filePath}.partial`;
+  let output: WriteStream;
+  try {
+    output = createWriteStream(partialPath, { fd: openFileForWriting(partialPath) });
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+  const db = context.session.connection();
+  const stats: ExportStats = { rows: 0, uncompressedBytes: 0, columns: [] };
+
+  try {
+    await db.connect(resolvedConnectionString);
+    await db.transaction(async () => {
+      const sql = limit !== undefined ? applyRowLimit(statement, limit) : statement.text;
+      await db.query(`DECLARE sierra_export NO SCROLL CURSOR FOR ${sql}`, parameters ?? [], timeout ? { timeout } : {});
+      const source = exportChunks(db, format, { target, byteaEncoding, timeout }, stats);
+      if (gzip) {
+        await pipeline(source, createGzip(), output);
+      } else {
+        await pipeline(source, output);
+      }
+    }, { rollback: true, readOnly: true });
+
+    await rename(partialPath, filePath);
+    const { size } = await stat(filePath);
+    return { path: filePath, format, rows: stats.rows, bytes: size, uncompressedBytes: stats.uncompressedBytes, columns: stats.columns };
+  } catch (error) {
+    await unlink(partialPath).catch(() => undefined);
+    throw new McpError(ErrorCode.InternalError, `Failed to export query: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    // Closes the file when the export failed before writing it
+    output.destroy();
+    await db.disconnect();
+  }
+}
+
+interface ExportStats {
+  rows: number;
+  /** Bytes written before compression */
+  uncompressedBytes: number;
+  columns: string[];
+}
+
+/**
+ * Fetch the `sierra_export` cursor batch by batch and yield each batch
+ * rendered in `format`, counting rows and bytes in `stats`. CSV and SQL use
+ * the text PostgreSQL sends (as `COPY` would); JSON Lines uses the lossless
+ * encoding of `querySerialized()`.
+ */
+async function* exportChunks(
+  db: DatabaseConnection,
+  format: ExportInput['format'],
+  options: { target: string; byteaEncoding: ExportInput['byteaEncoding']; timeout?: number },
+  stats: ExportStats
+): AsyncGenerator<string> {
+  const fetchSql = `FETCH FORWARD ${EXPORT_BATCH_ROWS} FROM sierra_export`;
+  const queryOptions = options.timeout ? { timeout: options.timeout } : {};
+
+  for (let first = true; ; first = false) {
+    let chunk: string;
+    let count: number;
+    if (format === 'jsonl') {
+      const { columns, rows } = await db.querySerialized(fetchSql, [], { ...queryOptions, bytea: options.byteaEncoding });
+      stats.columns = columns.map(column => column.name);
+      chunk = rows.map(row => `${JSON.stringify(row)}\n`).join('');
+      count = rows.length;
+    } else {
+      const { fields, rows } = await db.queryRaw(fetchSql, [], queryOptions);
+      stats.columns = fields.map(field => field.name);
+      if (format === 'csv') {
+        // The header is written even when there are no rows
+        chunk = (first ? `${csvLine(stats.columns)}\n` : '') + rows.map(row => `${csvLine(row)}\n`).join('');
+      } else {
+        const values = rows.map(row => `(${row.map(quoteLiteral).join(', ')})`).join(',\n');
+        chunk = rows.length > 0 ? `INSERT INTO ${options.target} (${stats.columns.map(quoteIdentifier).join(', ')}) VALUES\n${values};\n` : '';
+      }
+      count = rows.length;
+    }
+
+    stats.rows += count;
+    stats.uncompressedBytes += Buffer.byteLength(chunk);
+    if (chunk) {
+      yield chunk;
+    }
+    if (count < EXPORT_BATCH_ROWS) {
+      return;
+    }
+  }
+}
+
+export const exportTool: SierraTool = {
+  name: 'sierra_export',
+  description: 'Export the rows of a SELECT query to a file in the server\'s export directory as CSV, JSON Lines or SQL INSERT statements, optionally gzipped. Returns the file path, row count and size instead of the data. Example: query="SELECT * FROM orders WHERE created_at >= $1", parameters=["2024-01-01"], format="csv", gzip=true',
+  inputSchema: ExportInputSchema,
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
+    const {
+      connectionString: connStringArg,
+      profile,
+      query,
+      parameters = [],
+      format = 'csv',
+      fileName,
+      gzip = false,
+      overwrite = false,
+      insertTable,
+      byteaEncoding = 'hex',
+      limit,
+      timeout
+    } = args as ExportInput;
+
+    try {
+      if (!query?.trim()) {
+        return {
+          content: [{ type: 'text', text: 'Error: query is required' }],
+          isError: true
+        };
+      }
+
+      const result = await executeExport({
+        connectionString: connStringArg,
+        profile,
+        query,
+        parameters,
+        format,
+        fileName,
+        gzip,
+        overwrite,
+        insertTable,
+        byteaEncoding,
+        limit,
+        timeout
+      }, getConnectionStringVal, context);
+
+      const size = gzip ? `${result.bytes} bytes (${result.uncompressedBytes} uncompressed)` : `${result.bytes} bytes`;
+      return {
+        content: [{
+          type: 'text',
+          text: `Exported ${result.rows} rows to ${result.path} (${result.format}${gzip ? ', gzip' : ''}, ${size}).\n\nColumns: ${result.columns.join(', ') || 'none'}`
+        }]
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Error exporting query: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true
+      };
+    }
+  }
+};
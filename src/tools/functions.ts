@@ -1,10 +1,13 @@
 import { z } from 'zod';
-import { DatabaseConnection } from '../utils/connection.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import type { SierraTool, ToolOutput, GetConnectionStringFn } from '../types/tool.js';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import { requireConfirmation } from '../utils/confirmation.js';
+import { formatRows, OutputFormatSchema } from '../utils/format.js';
+import { listFunctions } from '../utils/catalog.js';
 
 const ManageFunctionsInputSchema = z.object({
   connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
   operation: z.enum(['get', 'create', 'drop']).describe('Operation: get (list/info), create (new function), or drop (remove function)'),
   schema: z.string().optional().default('public').describe('Schema name (defaults to public)'),
   functionName: z.string().optional().describe('Name of the function (required for create/drop, optional for get to filter)'),
@@ -16,7 +19,9 @@ const ManageFunctionsInputSchema = z.object({
   security: z.enum(['INVOKER', 'DEFINER']).optional().describe('Function security context (defaults to INVOKER for create)'),
   replace: z.boolean().optional().describe('Whether to replace the function if it exists (for create operation)'),
   ifExists: z.boolean().optional().describe('Whether to include IF EXISTS clause (for drop operation)'),
-  cascade: z.boolean().optional().describe('Whether to include CASCADE clause (for drop operation)')
+  cascade: z.boolean().optional().describe('Whether to include CASCADE clause (for drop operation)'),
+  confirmationToken: z.string().optional().describe('Token returned by the preview of a destructive operation; pass it back to execute the operation when confirmation is required'),
+  outputFormat: OutputFormatSchema.describe('Format of the list (for get operation): json (default), markdown, csv, ndjson or columns')
 });
 
 type ManageFunctionsInput = z.infer<typeof ManageFunctionsInputSchema>;
@@ -25,9 +30,11 @@ export const manageFunctionsTool: SierraTool = {
   name: 'sierra_manage_functions',
   description: 'Manage PostgreSQL functions - get, create, or drop functions with a single tool. Examples: operation="get" to list functions, operation="create" with functionName="test_func", parameters="" (empty for no params), returnType="TEXT", functionBody="SELECT \'Hello\'"',
   inputSchema: ManageFunctionsInputSchema,
-  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn): Promise<ToolOutput> => {
+  readOnlyOperations: ['get'],
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
     const {
       connectionString: connStringArg,
+      profile,
       operation,
       schema = 'public',
       functionName,
@@ -39,52 +46,24 @@ export const manageFunctionsTool: SierraTool = {
       security = 'INVOKER',
       replace,
       ifExists,
-      cascade
+      cascade,
+      confirmationToken,
+      outputFormat
     } = args as ManageFunctionsInput;
 
-    const resolvedConnString = getConnectionStringVal(connStringArg);
-    const db = DatabaseConnection.getInstance();
+    const resolvedConnString = getConnectionStringVal(connStringArg, profile);
+    const db = context.session.connection();
 
     try {
       await db.connect(resolvedConnString);
 
       switch (operation) {
         case 'get': {
-          let query = `
-            SELECT
-              n.nspname as schema_name,
-              p.proname as function_name,
-              pg_get_function_identity_arguments(p.oid) as parameters,
-              pg_get_function_result(p.oid) as return_type,
-              l.lanname as language,
-              CASE p.provolatile
-                WHEN 'i' THEN 'IMMUTABLE'
-                WHEN 's' THEN 'STABLE'
-                WHEN 'v' THEN 'VOLATILE'
-              END as volatility,
-              CASE WHEN p.prosecdef THEN 'DEFINER' ELSE 'INVOKER' END as security,
-              pg_get_functiondef(p.oid) as definition
-            FROM pg_proc p
-            JOIN pg_namespace n ON n.oid = p.pronamespace
-            JOIN pg_language l ON l.oid = p.prolang
-            WHERE n.nspname = $1
-              AND p.prokind = 'f'
-          `;
-
-          const params: unknown[] = [schema];
-
-          if (functionName) {
-            query += ` AND p.proname = $2`;
-            params.push(functionName);
-          }
-
-          query += ` ORDER BY p.proname`;
-
-          const functions = await db.query(query, params);
+          const functions = await listFunctions(db, { schema, functionName });
           return {
             content: [{
               type: 'text',
-              text: `Found ${functions.length} functions.\n\n${JSON.stringify(functions, null, 2)}`
+              text: `Found ${functions.length} functions.\n\n${formatRows(functions, outputFormat)}`
             }]
           };
         }
@@ -133,6 +112,14 @@ $$`;
 
           const sql = `DROP FUNCTION ${ifExistsClause}"${schema}"."${functionName}"${params}${cascadeClause}`;
 
+          const preview = await requireConfirmation(context.session, {
+            tool: 'sierra_manage_functions',
+            operation,
+            sql: [sql],
+            affectedObjects: [`function "${schema}"."${functionName}"${params}${cascade ? ' and dependent objects' : ''}`]
+          }, confirmationToken);
+          if (preview) return preview;
+
           await db.query(sql);
 
           return {
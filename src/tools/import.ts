@@ -0,0 +1,554 @@
+import { z } from 'zod';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { createReadStream, createWriteStream, type WriteStream } from 'node:fs';
+import { unlink } from 'node:fs/promises';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+import { pipeline, type Readable } from 'node:stream';
+import { finished } from 'node:stream/promises';
+import { createGunzip } from 'node:zlib';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import type { DatabaseConnection } from '../utils/connection.js';
+import { getImportDirectory, openFileForWriting, resolveExistingFileInside, resolveFileInside } from '../utils/files.js';
+import { csvLine } from '../utils/format.js';
+
+const ImportInputSchema = z.object({
+  connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
+  table: z.string().describe('Target table'),
+  schema: z.string().optional().default('public').describe('Schema name (defaults to public)'),
+  file: z.string().optional().describe('File to import, relative to the import directory: .csv or .jsonl/.ndjson, optionally gzipped (.gz)'),
+  rows: z.array(z.record(z.unknown())).optional().describe('Rows to import inline, as objects of column-value pairs (alternative to file)'),
+  format: z.enum(['csv', 'jsonl']).optional().describe('File format (defaults to the file extension)'),
+  header: z.boolean().optional().default(true).describe('Whether the first CSV line names the columns'),
+  delimiter: z.string().length(1).optional().default(',').describe('CSV field delimiter'),
+  columns: z.array(z.string()).optional().describe('Names of the CSV fields for files without a header row (defaults to the table\'s columns in order)'),
+  columnMapping: z.record(z.string()).optional().describe('Source column -> table column; when given, only the mapped source columns are imported'),
+  maxErrors: z.number().int().min(0).optional().default(100).describe('Rejected rows tolerated before the whole import is rolled back'),
+  rejectFile: z.string().optional().describe('Reject file relative to the import directory (defaults to <file>.rejects.jsonl for file imports)')
+});
+
+type ImportInput = z.infer<typeof ImportInputSchema>;
+
+/** Rows sent per COPY; a failing row costs a resend of its batch */
+const IMPORT_BATCH_ROWS = 1000;
+
+/** Rejected rows listed in the response */
+const REJECTS_SHOWN = 10;
+
+interface SourceRecord {
+  /** Position of the row in the source, from 1 (header excluded) */
+  row: number;
+  /** Field values of a CSV record, the object of a JSON row, or the text of an unreadable line */
+  data: Array<string | null> | Record<string, unknown> | string | null;
+  /** Why the row could not be read */
+  error?: string;
+}
+
+interface EncodedRow {
+  row: number;
+  data: SourceRecord['data'];
+  /** The row as a line of `COPY ... CSV` data */
+  line: string;
+}
+
+interface RejectEntry {
+  row: number;
+  error: string;
+  column?: string;
+  data: unknown;
+}
+
+interface TargetColumn {
+  name: string;
+  /** `pg_type.typcategory` */
+  category: string;
+}
+
+interface ImportResult {
+  table: string;
+  source: string;
+  columns: string[];
+  inserted: number;
+  rejected: number;
+  rejectFile: string | null;
+  rejects: RejectEntry[];
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function formatFromFileName(fileName: string): ImportInput['format'] {
+  const extension = path.extname(fileName.replace(/\.gz$/i, '')).toLowerCase();
+  if (extension === '.csv') return 'csv';
+  if (extension === '.jsonl' || extension === '.ndjson') return 'jsonl';
+  return undefined;
+}
+
+/** Text of a file, decompressed when it ends in .gz */
+function readText(filePath: string): Readable {
+  const input: Readable = filePath.toLowerCase().endsWith('.gz')
+    ? pipeline(createReadStream(filePath), createGunzip(), () => undefined)
+    : createReadStream(filePath);
+  return input.setEncoding('utf8');
+}
+
+/**
+ * Parse RFC 4180 CSV as `COPY ... CSV` reads it: an unquoted empty field is
+ * NULL, a quoted one the empty string. Blank lines are skipped.
+ */
+async function* csvRecords(source: AsyncIterable<string>, delimiter: string): AsyncGenerator<Array<string | null>> {
+  let record: Array<string | null> = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  // A quote inside quotes is either the first of "" or the closing quote
+  let pendingQuote = false;
+  let fieldStarted = false;
+  let first = true;
+
+  const endField = () => {
+    record.push(quoted || field !== '' ? field : null);
+    field = '';
+    quoted = false;
+    fieldStarted = false;
+  };
+
+  for await (const text of source) {
+    const chunk = first ? text.replace(/^\uFEFF/, '') : text;
+    first = false;
+    for (const char of chunk) {
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && !fieldStarted) {
+        quoted = inQuotes = fieldStarted = true;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n') {
+        if (record.length > 0 || fieldStarted) {
+          endField();
+          yield record;
+        }
+        record = [];
+      } else if (char !== '\r') {
+        field += char;
+        fieldStarted = true;
+      }
+    }
+  }
+
+  if (inQuotes && !pendingQuote) {
+    throw new Error('Unterminated quoted field at the end of the file');
+  }
+  if (record.length > 0 || fieldStarted) {
+    endField();
+    yield record;
+  }
+}
+
+/** JSON Lines: one object per non-blank line; lines that are not objects become rejects */
+async function* jsonRecords(source: Readable): AsyncGenerator<SourceRecord> {
+  let row = 0;
+  for await (const line of createInterface({ input: source, crlfDelay: Infinity })) {
+    if (!line.trim()) {
+      continue;
+    }
+    row++;
+    try {
+      const data: unknown = JSON.parse(line);
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        yield { row, data: line, error: 'Line is not a JSON object' };
+      } else {
+        yield { row, data: data as Record<string, unknown> };
+      }
+    } catch (error) {
+      yield { row, data: line, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+}
+
+/** PostgreSQL array literal of a JSON array, for array columns */
+function arrayLiteral(values: unknown[]): string {
+  const items = values.map(value => {
+    if (value === null || value === undefined) return 'NULL';
+    if (Array.isArray(value)) return arrayLiteral(value);
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return `"${text.replace(/[\\"]/g, char => `\\${char}`)}"`;
+  });
+  return `{${items.join(',')}}`;
+}
+
+/** The source columns to import, paired with the table columns they fill */
+function mapColumns(
+  sourceNames: string[],
+  columnMapping: Record<string, string> | undefined,
+  tableColumns: TargetColumn[]
+): Array<{ source: string; target: TargetColumn }> {
+  const byName = new Map(tableColumns.map(column => [column.name, column]));
+  const pairs = columnMapping
+    ? Object.entries(columnMapping).map(([source, target]) => ({ source, target }))
+    : sourceNames.map(name => ({ source: name, target: name }));
+
+  const missingSources = columnMapping ? pairs.filter(pair => !sourceNames.includes(pair.source)).map(pair => pair.source) : [];
+  if (missingSources.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `columnMapping names source columns the data does not have: ${missingSources.join(', ')}`);
+  }
+  const unknownTargets = pairs.filter(pair => !byName.has(pair.target)).map(pair => pair.target);
+  if (unknownTargets.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Columns not found in the table: ${unknownTargets.join(', ')}${columnMapping ? '' : ' (map them to table columns with columnMapping)'}`);
+  }
+  if (pairs.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'No columns to import');
+  }
+  return pairs.map(pair => ({ source: pair.source, target: byName.get(pair.target) as TargetColumn }));
+}
+
+/** Rejected rows: counted, kept for the response and written to the reject file as JSON Lines */
+class RejectLog {
+  public count = 0;
+  public readonly shown: RejectEntry[] = [];
+  private readonly stream: WriteStream | null;
+  /** The first write error of the reject file, reported by the next add() or close() */
+  private error: Error | null = null;
+  private closed = false;
+
+  /** The reject file is opened at once, so a path that cannot be written fails before anything is imported */
+  constructor(public readonly filePath: string | null, private readonly maxErrors: number) {
+    this.stream = filePath ? createWriteStream(filePath, { fd: openFileForWriting(filePath) }) : null;
+    this.stream?.on('error', error => {
+      this.error ??= error;
+    });
+  }
+
+  add(entry: RejectEntry): void {
+    this.throwWriteError();
+    this.count++;
+    if (this.shown.length < REJECTS_SHOWN) {
+      this.shown.push(entry);
+    }
+    this.stream?.write(`${JSON.stringify(entry)}\n`);
+    if (this.count > this.maxErrors) {
+      throw new Error(`More than ${this.maxErrors} rows rejected (last: row ${entry.row}: ${entry.error}); nothing was imported`);
+    }
+  }
+
+  /** Finish the reject file, removing it when no row was rejected; throws if it could not be written */
+  async close(): Promise<void> {
+    const stream = this.stream;
+    if (stream && !this.closed) {
+      this.closed = true;
+      stream.end();
+      await finished(stream).catch((error: Error) => {
+        this.error ??= error;
+      });
+      if (this.count === 0) {
+        await unlink(this.filePath as string).catch(() => undefined);
+      }
+    }
+    this.throwWriteError();
+  }
+
+  private throwWriteError(): void {
+    if (this.error) {
+      throw new Error(`Cannot write the reject file ${this.filePath}: ${this.error.message}`);
+    }
+  }
+}
+
+/** Line and column of the COPY data PostgreSQL names in an error's context */
+function failedLine(error: unknown): { line: number; column?: string } | null {
+  const where = (error as { where?: unknown })?.where;
+  const match = typeof where === 'string' ? /COPY [^\n]*?, line (\d+)(?:, column ([^:\n]+))?/.exec(where) : null;
+  return match ? { line: Number(match[1]), column: match[2] } : null;
+}
+
+/**
+ * COPY `batch` inside a savepoint. A row PostgreSQL rejects is logged and
+ * the batch is sent again without it; an error not tied to a row ends the
+ * import.
+ */
+async function copyBatch(db: DatabaseConnection, copySql: string, batch: EncodedRow[], rejects: RejectLog): Promise<number> {
+  let pending = batch;
+  while (pending.length > 0) {
+    await db.query('SAVEPOINT sierra_import');
+    try {
+      const copied = await db.copyFrom(copySql, pending.map(row => row.line));
+      await db.query('RELEASE SAVEPOINT sierra_import');
+      return copied;
+    } catch (error) {
+      await db.query('ROLLBACK TO SAVEPOINT sierra_import');
+      const failed = failedLine(error);
+      if (!failed || failed.line > pending.length) {
+        throw error;
+      }
+      const rejected = pending[failed.line - 1];
+      rejects.add({
+        row: rejected.row,
+        error: error instanceof Error ? error.message : String(error),
+        ...(failed.column ? { column: failed.column } : {}),
+        data: rejected.data
+      });
+      pending = pending.filter((_, index) => index !== failed.line - 1);
+    }
+  }
+  return 0;
+}
+
+async function executeImport(
+  input: ImportInput,
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<ImportResult> {
+  const { table, schema, file, rows, header, delimiter, columns, columnMapping, maxErrors, rejectFile } = input;
+
+  if ((file === undefined) === (rows === undefined)) {
+    throw new McpError(ErrorCode.InvalidParams, 'Pass either file or rows');
+  }
+  const directory = getImportDirectory();
+  if (!directory && (file !== undefined || rejectFile !== undefined)) {
+    throw new McpError(ErrorCode.InvalidRequest, 'File imports are disabled: start the server with --import-dir (or SIERRA_IMPORT_DIR), or pass the rows inline.');
+  }
+
+  const format = input.format ?? (file !== undefined ? formatFromFileName(file) : 'jsonl');
+  if (!format) {
+    throw new McpError(ErrorCode.InvalidParams, `Cannot tell the format of ${file} from its extension; pass format="csv" or format="jsonl"`);
+  }
+  const resolvedConnectionString = getConnectionString(input.connectionString, input.profile);
+
+  let filePath: string | null = null;
+  let rejectPath: string | null = null;
+  let rejects: RejectLog;
+  try {
+    if (file !== undefined) {
+      filePath = resolveExistingFileInside(directory as string, file);
+    }
+    const rejectName = rejectFile ?? (file !== undefined ? `${file}.rejects.jsonl` : undefined);
+    if (rejectName !== undefined) {
+      rejectPath = resolveFileInside(directory as string, rejectName);
+    }
+    rejects = new RejectLog(rejectPath, maxErrors);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+
+  const db = context.session.connection();
+  const tableName = `${quoteIdentifier(schema)}.${quoteIdentifier(table)}`;
+  let source: Readable | null = null;
+
+  try {
+    await db.connect(resolvedConnectionString);
+
+    const tableColumns = await db.query<{ name: string; category: string }>(
+      `SELECT a.attname AS name, t.typcategory AS category
+       FROM pg_attribute a
+       JOIN pg_class c ON c.oid = a.attrelid
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       JOIN pg_type t ON t.oid = a.atttypid
+       WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'p', 'f')
+         AND a.attnum > 0 AND NOT a.attisdropped
+       ORDER BY a.attnum`,
+      [schema, table]
+    );
+    if (tableColumns.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Table ${schema}.${table} not found`);
+    }
+
+    // Source column names and the records after them
+    let sourceNames: string[];
+    let records: AsyncGenerator<SourceRecord>;
+    if (rows !== undefined) {
+      sourceNames = [...new Set(rows.flatMap(row => Object.keys(row)))];
+      records = (async function* () {
+        for (const [index, data] of rows.entries()) yield { row: index + 1, data } as SourceRecord;
+      })();
+    } else if (format === 'csv') {
+      source = readText(filePath as string);
+      const csv = csvRecords(source, delimiter);
+      if (header) {
+        const first = await csv.next();
+        sourceNames = first.done ? [] : first.value.map(name => name ?? '');
+      } else {
+        sourceNames = columns ?? tableColumns.map(column => column.name);
+      }
+      records = (async function* () {
+        let row = 0;
+        for await (const data of csv) yield { row: ++row, data } as SourceRecord;
+      })();
+    } else {
+      source = readText(filePath as string);
+      const json = jsonRecords(source);
+      // The first object names the columns; unreadable lines before it are kept
+      const before: SourceRecord[] = [];
+      let next = await json.next();
+      while (!next.done && next.value.error) {
+        before.push(next.value);
+        next = await json.next();
+      }
+      const firstObject = next.done ? null : next.value;
+      sourceNames = firstObject ? Object.keys(firstObject.data as Record<string, unknown>) : [];
+      records = (async function* () {
+        yield* before;
+        if (firstObject) yield firstObject;
+        yield* json;
+      })();
+    }
+    if (sourceNames.length === 0) {
+      // No row names a column: an empty source, or JSON Lines without a single object
+      for await (const record of records) {
+        rejects.add({ row: record.row, error: record.error ?? 'Empty row', data: record.data });
+      }
+      await rejects.close();
+      return { table: `${schema}.${table}`, source: file ?? 'inline rows', columns: [], inserted: 0, rejected: rejects.count, rejectFile: rejects.count > 0 ? rejectPath : null, rejects: rejects.shown };
+    }
+
+    const mapping = mapColumns(sourceNames, columnMapping, tableColumns);
+    const indexes = mapping.map(pair => sourceNames.indexOf(pair.source));
+    const copySql = `COPY ${tableName} (${mapping.map(pair => quoteIdentifier(pair.target.name)).join(', ')}) FROM STDIN WITH (FORMAT csv)`;
+
+    const encode = (record: SourceRecord): EncodedRow | RejectEntry => {
+      if (record.error || record.data === null || typeof record.data === 'string') {
+        return { row: record.row, error: record.error ?? 'Empty row', data: record.data };
+      }
+      if (Array.isArray(record.data)) {
+        if (record.data.length !== sourceNames.length) {
+          return { row: record.row, error: `Expected ${sourceNames.length} fields, found ${record.data.length}`, data: record.data };
+        }
+        const fields = record.data;
+        return { row: record.row, data: fields, line: `${csvLine(indexes.map(index => fields[index]))}\n` };
+      }
+      const data = record.data;
+      const unexpected = columnMapping ? [] : Object.keys(data).filter(key => !sourceNames.includes(key));
+      if (unexpected.length > 0) {
+        return { row: record.row, error: `Unexpected fields: ${unexpected.join(', ')}`, data };
+      }
+      const values = mapping.map(({ source: name, target }) => {
+        const value = data[name];
+        return Array.isArray(value) && target.category === 'A' ? arrayLiteral(value) : value;
+      });
+      return { row: record.row, data, line: `${csvLine(values)}\n` };
+    };
+
+    let inserted = 0;
+    await db.transaction(async () => {
+      let batch: EncodedRow[] = [];
+      for await (const record of records) {
+        const encoded = encode(record);
+        if ('line' in encoded) {
+          batch.push(encoded);
+        } else {
+          rejects.add(encoded);
+        }
+        if (batch.length >= IMPORT_BATCH_ROWS) {
+          inserted += await copyBatch(db, copySql, batch, rejects);
+          batch = [];
+        }
+      }
+      inserted += await copyBatch(db, copySql, batch, rejects);
+      // Before the commit, so rows are not imported when their rejects could not be recorded
+      await rejects.close();
+    });
+
+    return {
+      table: `${schema}.${table}`,
+      source: file ?? 'inline rows',
+      columns: mapping.map(pair => pair.target.name),
+      inserted,
+      rejected: rejects.count,
+      rejectFile: rejects.count > 0 ? rejectPath : null,
+      rejects: rejects.shown
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    const rejectNote = rejects.count > 0 && rejectPath ? ` Rejected rows are in ${rejectPath}.` : '';
+    throw new McpError(ErrorCode.InternalError, `Failed to import into ${schema}.${table}: ${error instanceof Error ? error.message : String(error)}${rejectNote}`);
+  } finally {
+    source?.destroy();
+    await rejects.close().catch(() => undefined);
+    await db.disconnect();
+  }
+}
+
+export const importTool: SierraTool = {
+  name: 'sierra_import',
+  description: 'Bulk-load rows into a table with COPY FROM STDIN, from a CSV or JSON Lines file in the server\'s import directory or from an inline array of rows. Rows PostgreSQL rejects are skipped and written to a reject file, up to maxErrors. Examples: table="orders", file="orders.csv"; table="users", rows=[{"name":"John"},{"name":"Jane"}]',
+  inputSchema: ImportInputSchema,
+  readOnlyOperations: [],
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
+    const {
+      connectionString: connStringArg,
+      profile,
+      table,
+      schema = 'public',
+      file,
+      rows,
+      format,
+      header = true,
+      delimiter = ',',
+      columns,
+      columnMapping,
+      maxErrors = 100,
+      rejectFile
+    } = args as ImportInput;
+
+    try {
+      if (!table?.trim()) {
+        return {
+          content: [{ type: 'text', text: 'Error: table is required' }],
+          isError: true
+        };
+      }
+
+      const result = await executeImport({
+        connectionString: connStringArg,
+        profile,
+        table,
+        schema: schema || 'public',
+        file,
+        rows,
+        format,
+        header,
+        delimiter,
+        columns,
+        columnMapping,
+        maxErrors,
+        rejectFile
+      }, getConnectionStringVal, context);
+
+      let responseText = `Imported ${result.inserted} rows into ${result.table} from ${result.source}.`;
+      if (result.columns.length > 0) {
+        responseText += `\n\nColumns: ${result.columns.join(', ')}`;
+      }
+      if (result.rejected > 0) {
+        responseText += `\n\n${result.rejected} rows rejected${result.rejectFile ? ` (all listed in ${result.rejectFile})` : ''}:`;
+        responseText += result.rejects
+          .map(reject => `\n- row ${reject.row}${reject.column ? `, column ${reject.column}` : ''}: ${reject.error}`)
+          .join('');
+        if (result.rejected > result.rejects.length) {
+          responseText += `\n- ... ${result.rejected - result.rejects.length} more`;
+        }
+      }
+
+      return { content: [{ type: 'text', text: responseText }] };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Error importing rows: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true
+      };
+    }
+  }
+};
@@ -1,10 +1,15 @@
 import { z } from 'zod';
-import { DatabaseConnection } from '../utils/connection.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import type { SierraTool, ToolOutput, GetConnectionStringFn } from '../types/tool.js';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import { requireConfirmation } from '../utils/confirmation.js';
+import { assertSqlFragment } from '../utils/sql.js';
+import { formatJson } from '../utils/budget.js';
+import { formatRows, OutputFormatSchema } from '../utils/format.js';
+import { listIndexes } from '../utils/catalog.js';
 
 const ManageIndexesInputSchema = z.object({
   connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
   operation: z.enum(['get', 'create', 'drop', 'reindex', 'analyze_usage']).describe('Operation: get (list indexes), create (new index), drop (remove index), reindex (rebuild), analyze_usage (find unused/duplicate)'),
   schema: z.string().optional().default('public').describe('Schema name (defaults to public)'),
   tableName: z.string().optional().describe('Table name (optional for get/analyze_usage, required for create)'),
@@ -22,7 +27,9 @@ const ManageIndexesInputSchema = z.object({
   target: z.string().optional().describe('Target name for reindex (required for reindex operation)'),
   showUnused: z.boolean().optional().describe('Include unused indexes (for analyze_usage operation)'),
   showDuplicates: z.boolean().optional().describe('Detect duplicate indexes (for analyze_usage operation)'),
-  minSizeBytes: z.number().optional().describe('Minimum index size in bytes (for analyze_usage operation)')
+  minSizeBytes: z.number().optional().describe('Minimum index size in bytes (for analyze_usage operation)'),
+  confirmationToken: z.string().optional().describe('Token returned by the preview of a destructive operation; pass it back to execute the operation when confirmation is required'),
+  outputFormat: OutputFormatSchema.describe('Format of the list (for get operation): json (default), markdown, csv, ndjson or columns')
 });
 
 type ManageIndexesInput = z.infer<typeof ManageIndexesInputSchema>;
@@ -31,9 +38,11 @@ export const manageIndexesTool: SierraTool = {
   name: 'sierra_manage_indexes',
   description: 'Manage PostgreSQL indexes - get, create, drop, reindex, and analyze usage with a single tool. Examples: operation="get" to list indexes, operation="create" with indexName, tableName, columns, operation="analyze_usage" for performance analysis',
   inputSchema: ManageIndexesInputSchema,
-  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn): Promise<ToolOutput> => {
+  readOnlyOperations: ['get', 'analyze_usage'],
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
     const {
       connectionString: connStringArg,
+      profile,
       operation,
       schema = 'public',
       tableName,
@@ -51,65 +60,24 @@ export const manageIndexesTool: SierraTool = {
       target,
       showUnused,
       showDuplicates,
-      minSizeBytes
+      minSizeBytes,
+      confirmationToken,
+      outputFormat
     } = args as ManageIndexesInput;
 
-    const resolvedConnString = getConnectionStringVal(connStringArg);
-    const db = DatabaseConnection.getInstance();
+    const resolvedConnString = getConnectionStringVal(connStringArg, profile);
+    const db = context.session.connection();
 
     try {
       await db.connect(resolvedConnString);
 
       switch (operation) {
         case 'get': {
-          let query = `
-            SELECT
-              i.relname as index_name,
-              t.relname as table_name,
-              n.nspname as schema_name,
-              am.amname as index_type,
-              pg_get_indexdef(i.oid) as index_definition,
-              pg_relation_size(i.oid) as index_size_bytes,
-              pg_size_pretty(pg_relation_size(i.oid)) as index_size
-          `;
-
-          if (includeStats) {
-            query += `,
-              s.idx_scan as scans,
-              s.idx_tup_read as tuples_read,
-              s.idx_tup_fetch as tuples_fetched
-            `;
-          }
-
-          query += `
-            FROM pg_index x
-            JOIN pg_class i ON i.oid = x.indexrelid
-            JOIN pg_class t ON t.oid = x.indrelid
-            JOIN pg_namespace n ON n.oid = t.relnamespace
-            JOIN pg_am am ON am.oid = i.relam
-          `;
-
-          if (includeStats) {
-            query += `
-              LEFT JOIN pg_stat_user_indexes s ON s.indexrelid = i.oid
-            `;
-          }
-
-          query += ` WHERE n.nspname = $1`;
-          const params: unknown[] = [schema];
-
-          if (tableName) {
-            query += ` AND t.relname = $2`;
-            params.push(tableName);
-          }
-
-          query += ` ORDER BY t.relname, i.relname`;
-
-          const indexes = await db.query(query, params);
+          const indexes = await listIndexes(db, { schema, tableName, includeStats });
           return {
             content: [{
               type: 'text',
-              text: `Found ${indexes.length} indexes.\n\n${JSON.stringify(indexes, null, 2)}`
+              text: `Found ${indexes.length} indexes.\n\n${formatRows(indexes, outputFormat)}`
             }]
           };
         }
@@ -126,6 +94,7 @@ export const manageIndexesTool: SierraTool = {
           const concurrentClause = concurrent ? 'CONCURRENTLY ' : '';
           const ifNotExistsClause = ifNotExists ? 'IF NOT EXISTS ' : '';
           const columnList = columns.map(c => `"${c}"`).join(', ');
+          if (where) assertSqlFragment(where, 'WHERE clause');
           const whereClause = where ? ` WHERE ${where}` : '';
 
           const sql = `CREATE ${uniqueClause}INDEX ${concurrentClause}${ifNotExistsClause}"${indexName}" ON "${schema}"."${tableName}" USING ${method} (${columnList})${whereClause}`;
@@ -154,6 +123,14 @@ export const manageIndexesTool: SierraTool = {
 
           const sql = `DROP INDEX ${concurrentClause}${ifExistsClause}"${schema}"."${indexName}"${cascadeClause}`;
 
+          const preview = await requireConfirmation(context.session, {
+            tool: 'sierra_manage_indexes',
+            operation,
+            sql: [sql],
+            affectedObjects: [`index "${schema}"."${indexName}"${cascade ? ' and dependent objects' : ''}`]
+          }, confirmationToken);
+          if (preview) return preview;
+
           await db.query(sql);
 
           return {
@@ -248,7 +225,7 @@ export const manageIndexesTool: SierraTool = {
           return {
             content: [{
               type: 'text',
-              text: `Index usage analysis completed.\n\n${JSON.stringify(results, null, 2)}`
+              text: `Index usage analysis completed.\n\n${formatJson(results)}`
             }]
           };
         }
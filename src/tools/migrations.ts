@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import { formatJson } from '../utils/budget.js';
+import { requireConfirmation } from '../utils/confirmation.js';
+import { getMigrationsDirectory } from '../utils/files.js';
+import {
+  MIGRATIONS_TABLE,
+  checkRunnable,
+  ensureMigrationsTable,
+  getAppliedMigrations,
+  loadMigrations,
+  migrationStatus,
+  parseTargetVersion,
+  planDown,
+  planUp,
+  runMigrations,
+  verifyMigrations,
+  type MigrationFile
+} from '../utils/migrations.js';
+
+const ManageMigrationsInputSchema = z.object({
+  connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
+  operation: z.enum(['status', 'plan', 'up', 'down', 'verify']).describe('Operation: status (applied and pending migrations), plan (what up or down would run, with the SQL), up (apply pending migrations), down (revert applied migrations), verify (compare the history with the migration files)'),
+  target: z.union([z.number().int().nonnegative(), z.string()]).optional().describe('Target version: up applies pending migrations up to it, down reverts applied migrations newer than it (0 reverts all). Defaults to all pending migrations for up and the newest applied one for down'),
+  direction: z.enum(['up', 'down']).optional().default('up').describe('Direction to plan (for plan operation)'),
+  timeout: z.number().optional().describe('Timeout in milliseconds for each migration (for up and down)'),
+  confirmationToken: z.string().optional().describe('Token returned by the preview of a destructive operation; pass it back to execute the operation when confirmation is required')
+});
+
+type ManageMigrationsInput = z.infer<typeof ManageMigrationsInputSchema>;
+
+function describeMigration(migration: { version: string; name: string }): string {
+  return `${migration.version} (${migration.name})`;
+}
+
+/** The SQL of each migration, headed by its file name */
+function formatPlan(migrations: MigrationFile[], direction: 'up' | 'down'): string {
+  return migrations
+    .map(migration => `-- ${direction === 'up' ? migration.upFile : migration.downFile}\n${(direction === 'up' ? migration.up : migration.down!).trim()}`)
+    .join('\n\n');
+}
+
+async function executeMigrations(
+  input: ManageMigrationsInput,
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<ToolOutput> {
+  const { operation, direction, timeout, confirmationToken } = input;
+
+  const directory = getMigrationsDirectory();
+  if (!directory) {
+    throw new McpError(ErrorCode.InvalidRequest, 'Migrations are disabled: start the server with --migrations-dir (or SIERRA_MIGRATIONS_DIR).');
+  }
+  const runs = operation === 'up' || operation === 'down';
+  if (runs && context.session.openTransaction) {
+    throw new McpError(ErrorCode.InvalidRequest, 'A session transaction is open: commit or roll it back before running migrations, which commit one by one');
+  }
+
+  let files: MigrationFile[];
+  let target: string | undefined;
+  try {
+    files = loadMigrations(directory);
+    target = parseTargetVersion(input.target);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+
+  const db = context.session.connection();
+  try {
+    await db.connect(getConnectionString(input.connectionString, input.profile));
+    const applied = await getAppliedMigrations(db);
+
+    switch (operation) {
+      case 'status': {
+        const statuses = migrationStatus(files, applied);
+        const pending = statuses.filter(status => status.state === 'pending').length;
+        const problems = statuses.filter(status => status.state === 'modified' || status.state === 'missing file').length;
+        const current = applied[applied.length - 1]?.version ?? 'none';
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Current version: ${current}. ${applied.length} applied, ${pending} pending${problems > 0 ? `, ${problems} not matching their files (run verify)` : ''}.`
+            },
+            { type: 'text', text: formatJson(statuses) }
+          ]
+        };
+      }
+
+      case 'verify': {
+        const issues = verifyMigrations(files, applied);
+        if (issues.length === 0) {
+          return { content: [{ type: 'text', text: `Verified ${applied.length} applied and ${planUp(files, applied).length} pending migrations: the history matches the migration files.` }] };
+        }
+        return {
+          content: [
+            { type: 'text', text: `Found ${issues.length} problem(s) with the migrations:` },
+            { type: 'text', text: formatJson(issues) }
+          ]
+        };
+      }
+
+      case 'plan': {
+        const planned = direction === 'up' ? planUp(files, applied, target) : planDown(files, applied, target);
+        const migrations = checkRunnable(planned, direction, files, applied);
+        if (migrations.length === 0) {
+          return { content: [{ type: 'text', text: `Nothing to ${direction === 'up' ? 'apply' : 'revert'}.` }] };
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Running ${direction} would ${direction === 'up' ? 'apply' : 'revert'} ${migrations.length} migration(s), in this order: ${migrations.map(describeMigration).join(', ')}. Each runs in its own transaction.`
+            },
+            { type: 'text', text: formatPlan(migrations, direction) }
+          ]
+        };
+      }
+
+      case 'up':
+      case 'down': {
+        const planned = operation === 'up' ? planUp(files, applied, target) : planDown(files, applied, target);
+        const migrations = checkRunnable(planned, operation, files, applied);
+        if (migrations.length === 0) {
+          return { content: [{ type: 'text', text: `Nothing to ${operation === 'up' ? 'apply' : 'revert'}.` }] };
+        }
+
+        if (operation === 'down') {
+          const preview = await requireConfirmation(context.session, {
+            tool: 'sierra_manage_migrations',
+            operation,
+            sql: migrations.map(migration => migration.down!),
+            affectedObjects: migrations.map(migration => `migration ${describeMigration(migration)}`)
+          }, confirmationToken);
+          if (preview) return preview;
+        } else {
+          await ensureMigrationsTable(db);
+        }
+
+        const run = await runMigrations(db, operation, migrations, timeout ? { timeout } : {});
+        const verb = operation === 'up' ? 'Applied' : 'Reverted';
+        const done = run.applied.length > 0 ? `${verb} ${run.applied.map(describeMigration).join(', ')}.` : `${verb} nothing.`;
+        if (run.failed) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Migration ${describeMigration(run.failed)} failed and was rolled back: ${run.failed.error}\n\n${done} The remaining migrations were not run.`
+            }],
+            isError: true
+          };
+        }
+        const current = (await getAppliedMigrations(db)).pop()?.version ?? 'none';
+        return {
+          content: [
+            { type: 'text', text: `${done} Current version: ${current}.` },
+            { type: 'text', text: formatJson(run.applied) }
+          ]
+        };
+      }
+
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unknown operation: ${operation}`);
+    }
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InternalError, `Failed to run ${operation}: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+export const manageMigrationsTool: SierraTool = {
+  name: 'sierra_manage_migrations',
+  description: `Run the versioned SQL migrations of the server's migrations directory (<version>_<name>.up.sql and .down.sql files), recorded with checksums in the ${MIGRATIONS_TABLE} table. Operations: status, plan (the SQL up or down would run), up (to an optional target version), down (the newest migration, or back to target), verify (history against files). Each migration runs in its own transaction under an advisory lock. Example: operation="plan", then operation="up"`,
+  inputSchema: ManageMigrationsInputSchema,
+  readOnlyOperations: ['status', 'plan', 'verify'],
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
+    const {
+      connectionString: connStringArg,
+      profile,
+      operation,
+      target,
+      direction = 'up',
+      timeout,
+      confirmationToken
+    } = args as ManageMigrationsInput;
+
+    try {
+      return await executeMigrations({
+        connectionString: connStringArg,
+        profile,
+        operation,
+        target,
+        direction,
+        timeout,
+        confirmationToken
+      }, getConnectionStringVal, context);
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Error executing ${operation} operation: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true
+      };
+    }
+  }
+};
@@ -1,10 +1,11 @@
 import { z } from 'zod';
-import { DatabaseConnection } from '../utils/connection.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import type { SierraTool, ToolOutput, GetConnectionStringFn } from '../types/tool.js';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import { formatJson } from '../utils/budget.js';
 
 const MonitorDatabaseInputSchema = z.object({
   connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
   includeQueries: z.boolean().optional().default(true).describe('Include active queries'),
   includeLocks: z.boolean().optional().default(true).describe('Include lock information'),
   includeTables: z.boolean().optional().default(true).describe('Include table statistics'),
@@ -72,9 +73,10 @@ export const monitorDatabaseTool: SierraTool = {
   name: 'sierra_monitor_database',
   description: 'Get real-time monitoring information for a PostgreSQL database including connections, queries, locks, and table statistics.',
   inputSchema: MonitorDatabaseInputSchema,
-  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn): Promise<ToolOutput> => {
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
     const {
       connectionString: connStringArg,
+      profile,
       includeQueries = true,
       includeLocks = true,
       includeTables = true,
@@ -82,8 +84,8 @@ export const monitorDatabaseTool: SierraTool = {
       alertThresholds = {}
     } = args as MonitorDatabaseInput;
 
-    const resolvedConnString = getConnectionStringVal(connStringArg);
-    const db = DatabaseConnection.getInstance();
+    const resolvedConnString = getConnectionStringVal(connStringArg, profile);
+    const db = context.session.connection();
 
     try {
       await db.connect(resolvedConnString);
@@ -291,7 +293,7 @@ export const monitorDatabaseTool: SierraTool = {
       return {
         content: [{
           type: 'text',
-          text: `Database monitoring snapshot:\n\n${JSON.stringify(result, null, 2)}`
+          text: `Database monitoring snapshot:\n\n${formatJson(result)}`
         }]
       };
 
@@ -1,33 +1,14 @@
-import { DatabaseConnection } from '../utils/connection.js';
+import type { DatabaseConnection } from '../utils/connection.js';
 import { z } from 'zod';
-import type { SierraTool, GetConnectionStringFn, ToolOutput } from '../types/tool.js';
+import type { SierraTool, GetConnectionStringFn, ToolOutput, ToolContext } from '../types/tool.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import type { PoolClient } from 'pg';
-
-interface TableInfo {
-  tableName: string;
-  columns: ColumnInfo[];
-  constraints: ConstraintInfo[];
-  indexes: IndexInfo[];
-}
-
-interface ColumnInfo {
-  name: string;
-  dataType: string;
-  nullable: boolean;
-  default: string | null;
-}
-
-interface ConstraintInfo {
-  name: string;
-  type: string;
-  definition: string;
-}
-
-interface IndexInfo {
-  name: string;
-  definition: string;
-}
+import { estimateTableRows, requireConfirmation } from '../utils/confirmation.js';
+import { assertDryRunnable, executeDryRun, type CatalogChanges } from '../utils/dryrun.js';
+import { DDL_OBJECT_TYPES, generateDdl, type DdlObjectType, type GeneratedDdl } from '../utils/ddl.js';
+import { formatJson } from '../utils/budget.js';
+import { getTableInfo, listTables, listViews, type TableInfo, type ViewRow } from '../utils/catalog.js';
+import { parseSingleStatement, type SqlStatement } from '../utils/sql.js';
 
 interface EnumInfo {
   enum_schema: string;
@@ -37,16 +18,18 @@ interface EnumInfo {
 
 const GetSchemaInfoInputSchema = z.object({
   connectionString: z.string().optional(),
+  profile: z.string().optional(),
   tableName: z.string().optional().describe("Optional table name to get detailed schema for"),
 });
 type GetSchemaInfoInput = z.infer<typeof GetSchemaInfoInputSchema>;
 
 async function executeGetSchemaInfo(
   input: GetSchemaInfoInput,
-  getConnectionString: GetConnectionStringFn
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
 ): Promise<TableInfo | string[]> {
-  const resolvedConnectionString = getConnectionString(input.connectionString);
-  const db = DatabaseConnection.getInstance();
+  const resolvedConnectionString = getConnectionString(input.connectionString, input.profile);
+  const db = context.session.connection();
   const { tableName } = input;
 
   try {
@@ -56,13 +39,7 @@ async function executeGetSchemaInfo(
       return await getTableInfo(db, tableName);
     }
 
-    const tables = await db.query<{ table_name: string }>(
-      `SELECT table_name
-       FROM information_schema.tables
-       WHERE table_schema = 'public' AND table_type = 'BASE TABLE'
-       ORDER BY table_name`
-    );
-    return tables.map(t => t.table_name);
+    return await listTables(db);
 
   } catch (error) {
     throw new McpError(ErrorCode.InternalError, `Failed to get schema information: ${error instanceof Error ? error.message : String(error)}`);
@@ -80,18 +57,21 @@ const CreateTableColumnSchema = z.object({
 
 const CreateTableInputSchema = z.object({
   connectionString: z.string().optional(),
+  profile: z.string().optional(),
   tableName: z.string(),
   columns: z.array(CreateTableColumnSchema).min(1),
+  dryRun: z.boolean().optional(),
 });
 type CreateTableInput = z.infer<typeof CreateTableInputSchema>;
 
 async function executeCreateTable(
   input: CreateTableInput,
-  getConnectionString: GetConnectionStringFn
-): Promise<{ tableName: string; columns: z.infer<typeof CreateTableColumnSchema>[] }> {
-  const resolvedConnectionString = getConnectionString(input.connectionString);
-  const db = DatabaseConnection.getInstance();
-  const { tableName, columns } = input;
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<{ tableName: string; columns: z.infer<typeof CreateTableColumnSchema>[]; catalogChanges?: CatalogChanges }> {
+  const resolvedConnectionString = getConnectionString(input.connectionString, input.profile);
+  const db = context.session.connection();
+  const { tableName, columns, dryRun } = input;
 
   try {
     await db.connect(resolvedConnectionString);
@@ -105,6 +85,10 @@ async function executeCreateTable(
 
     const createTableSQL = `CREATE TABLE IF NOT EXISTS "${tableName}" (${columnDefs})`;
 
+    if (dryRun) {
+      const { catalogChanges } = await executeDryRun(db, () => db.query(createTableSQL));
+      return { tableName, columns, catalogChanges };
+    }
     await db.query(createTableSQL);
 
     return { tableName, columns };
@@ -125,61 +109,72 @@ const AlterTableOperationSchema = z.object({
 
 const AlterTableInputSchema = z.object({
   connectionString: z.string().optional(),
+  profile: z.string().optional(),
   tableName: z.string(),
   operations: z.array(AlterTableOperationSchema).min(1),
+  dryRun: z.boolean().optional(),
 });
 type AlterTableInput = z.infer<typeof AlterTableInputSchema>;
 
+function buildAlterTableStatements(tableName: string, operations: AlterTableInput['operations']): string[] {
+  return operations.map(op => {
+    const colNameQuoted = `"${op.columnName}"`;
+
+    switch (op.type) {
+      case 'add': {
+        if (!op.dataType) throw new Error('Data type is required for ADD operation');
+        let sql = `ALTER TABLE "${tableName}" ADD COLUMN ${colNameQuoted} ${op.dataType}`;
+        if (op.nullable === false) sql += ' NOT NULL';
+        if (op.default !== undefined) sql += ` DEFAULT ${op.default}`;
+        return sql;
+      }
+
+      case 'alter': {
+        const alterActions: string[] = [];
+        if (op.dataType) alterActions.push(`TYPE ${op.dataType}`);
+        if (op.nullable !== undefined) {
+          alterActions.push(op.nullable ? 'DROP NOT NULL' : 'SET NOT NULL');
+        }
+        if (op.default !== undefined) {
+          alterActions.push(op.default === null || op.default === ''
+            ? 'DROP DEFAULT'
+            : `SET DEFAULT ${op.default}`);
+        }
+        if (alterActions.length === 0) throw new Error('No alter operation specified for column.');
+        return `ALTER TABLE "${tableName}" ALTER COLUMN ${colNameQuoted} ${alterActions.join(' ')}`;
+      }
+
+      case 'drop':
+        return `ALTER TABLE "${tableName}" DROP COLUMN ${colNameQuoted}`;
+    }
+  });
+}
+
 async function executeAlterTable(
   input: AlterTableInput,
-  getConnectionString: GetConnectionStringFn
-): Promise<{ tableName: string; operations: z.infer<typeof AlterTableOperationSchema>[] }> {
-  const resolvedConnectionString = getConnectionString(input.connectionString);
-  const db = DatabaseConnection.getInstance();
-  const { tableName, operations } = input;
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<{ tableName: string; operations: z.infer<typeof AlterTableOperationSchema>[]; catalogChanges?: CatalogChanges }> {
+  const resolvedConnectionString = getConnectionString(input.connectionString, input.profile);
+  const db = context.session.connection();
+  const { tableName, operations, dryRun } = input;
 
   try {
+    const statements = buildAlterTableStatements(tableName, operations);
+    // An added column's default is evaluated for the existing rows
+    if (dryRun) assertDryRunnable(statements);
     await db.connect(resolvedConnectionString);
 
-    await db.transaction(async (client: PoolClient) => {
-      for (const op of operations) {
-        let sql = '';
-        const colNameQuoted = `"${op.columnName}"`;
-
-        switch (op.type) {
-          case 'add':
-            if (!op.dataType) throw new Error('Data type is required for ADD operation');
-            sql = `ALTER TABLE "${tableName}" ADD COLUMN ${colNameQuoted} ${op.dataType}`;
-            if (op.nullable === false) sql += ' NOT NULL';
-            if (op.default !== undefined) sql += ` DEFAULT ${op.default}`;
-            break;
-
-          case 'alter': {
-            sql = `ALTER TABLE "${tableName}" ALTER COLUMN ${colNameQuoted}`;
-            const alterActions: string[] = [];
-            if (op.dataType) alterActions.push(`TYPE ${op.dataType}`);
-            if (op.nullable !== undefined) {
-              alterActions.push(op.nullable ? 'DROP NOT NULL' : 'SET NOT NULL');
-            }
-            if (op.default !== undefined) {
-              alterActions.push(op.default === null || op.default === ''
-                ? 'DROP DEFAULT'
-                : `SET DEFAULT ${op.default}`);
-            }
-            if (alterActions.length === 0) throw new Error('No alter operation specified for column.');
-            sql += ` ${alterActions.join(' ')}`;
-            break;
-          }
-
-          case 'drop':
-            sql = `ALTER TABLE "${tableName}" DROP COLUMN ${colNameQuoted}`;
-            break;
-        }
-        if (sql) {
-            await client.query(sql);
-        }
+    const alter = () => db.transaction(async (client: PoolClient) => {
+      for (const sql of statements) {
+        await client.query(sql);
       }
     });
+    if (dryRun) {
+      const { catalogChanges } = await executeDryRun(db, alter);
+      return { tableName, operations, catalogChanges };
+    }
+    await alter();
 
     return { tableName, operations };
   } catch (error) {
@@ -189,85 +184,16 @@ async function executeAlterTable(
   }
 }
 
-async function getTableInfo(db: DatabaseConnection, tableName: string): Promise<TableInfo> {
-  const columns = await db.query<{
-    column_name: string;
-    data_type: string;
-    is_nullable: string;
-    column_default: string | null;
-  }>(
-    `SELECT column_name, data_type, is_nullable, column_default
-     FROM information_schema.columns
-     WHERE table_schema = 'public' AND table_name = $1
-     ORDER BY ordinal_position`,
-    [tableName]
-  );
-
-  const constraints = await db.query<{
-    constraint_name: string;
-    constraint_type: string;
-    definition: string;
-  }>(
-    `SELECT
-       c.conname as constraint_name,
-       CASE
-         WHEN c.contype = 'p' THEN 'PRIMARY KEY'
-         WHEN c.contype = 'f' THEN 'FOREIGN KEY'
-         WHEN c.contype = 'u' THEN 'UNIQUE'
-         WHEN c.contype = 'c' THEN 'CHECK'
-         ELSE c.contype::text
-       END as constraint_type,
-       pg_get_constraintdef(c.oid) as definition
-     FROM pg_constraint c
-     JOIN pg_namespace n ON n.oid = c.connamespace
-     JOIN pg_class cl ON cl.oid = c.conrelid
-     WHERE n.nspname = 'public' AND cl.relname = $1`,
-    [tableName]
-  );
-
-  const indexes = await db.query<{
-    indexname: string;
-    indexdef: string;
-  }>(
-    `SELECT
-       i.relname as indexname,
-       pg_get_indexdef(i.oid) as indexdef
-     FROM pg_index x
-     JOIN pg_class c ON c.oid = x.indrelid
-     JOIN pg_class i ON i.oid = x.indexrelid
-     JOIN pg_namespace n ON n.oid = c.relnamespace
-     WHERE c.relkind = 'r' AND n.nspname = 'public' AND c.relname = $1`,
-    [tableName]
-  );
-
-  return {
-    tableName,
-    columns: columns.map(col => ({
-      name: col.column_name,
-      dataType: col.data_type,
-      nullable: col.is_nullable === 'YES',
-      default: col.column_default
-    })),
-    constraints: constraints.map(con => ({
-      name: con.constraint_name,
-      type: con.constraint_type,
-      definition: con.definition
-    })),
-    indexes: indexes.map(idx => ({
-      name: idx.indexname,
-      definition: idx.indexdef
-    }))
-  };
-}
-
 async function executeGetEnumsInSchema(
   connectionString: string,
+  profile: string | undefined,
   schema = 'public',
-  enumName?: string,
-  getConnectionString?: GetConnectionStringFn
+  enumName: string | undefined,
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
 ): Promise<EnumInfo[]> {
-  const resolvedConnectionString = getConnectionString ? getConnectionString(connectionString) : connectionString;
-  const db = DatabaseConnection.getInstance();
+  const resolvedConnectionString = getConnectionString(connectionString, profile);
+  const db = context.session.connection();
   try {
     await db.connect(resolvedConnectionString);
     let query = `
@@ -301,14 +227,17 @@ async function executeGetEnumsInSchema(
 
 async function executeCreateEnumInSchema(
   connectionString: string,
+  profile: string | undefined,
   enumName: string,
   values: string[],
   schema = 'public',
   ifNotExists = false,
-  getConnectionString?: GetConnectionStringFn
-): Promise<{ schema: string; enumName: string; values: string[]}> {
-  const resolvedConnectionString = getConnectionString ? getConnectionString(connectionString) : connectionString;
-  const db = DatabaseConnection.getInstance();
+  dryRun = false,
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<{ schema: string; enumName: string; values: string[]; catalogChanges?: CatalogChanges }> {
+  const resolvedConnectionString = getConnectionString(connectionString, profile);
+  const db = context.session.connection();
   try {
     await db.connect(resolvedConnectionString);
     const qualifiedSchema = `"${schema}"`;
@@ -319,6 +248,10 @@ async function executeCreateEnumInSchema(
 
     const query = `CREATE TYPE ${ifNotExistsClause} ${fullEnumName} AS ENUM (${valuesPlaceholders});`;
 
+    if (dryRun) {
+      const { catalogChanges } = await executeDryRun(db, () => db.query(query, values));
+      return { schema, enumName, values, catalogChanges };
+    }
     await db.query(query, values);
     return { schema, enumName, values };
   } catch (error) {
@@ -328,12 +261,232 @@ async function executeCreateEnumInSchema(
   }
 }
 
+async function executeGetDdl(
+  connectionString: string | undefined,
+  profile: string | undefined,
+  objectType: DdlObjectType,
+  schema: string,
+  objectName: string | undefined,
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<GeneratedDdl> {
+  const resolvedConnectionString = getConnectionString(connectionString, profile);
+  const db = context.session.connection();
+  try {
+    await db.connect(resolvedConnectionString);
+    return await generateDdl(db, objectType, schema, objectName);
+  } catch (error) {
+    throw new McpError(ErrorCode.InternalError, `Failed to generate DDL: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+async function executeGetViews(
+  connectionString: string | undefined,
+  profile: string | undefined,
+  schema: string,
+  viewName: string | undefined,
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<ViewRow[]> {
+  const resolvedConnectionString = getConnectionString(connectionString, profile);
+  const db = context.session.connection();
+  try {
+    await db.connect(resolvedConnectionString);
+    return await listViews(db, { schema, viewName });
+  } catch (error) {
+    throw new McpError(ErrorCode.InternalError, `Failed to fetch views: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+interface CreateViewInput {
+  connectionString?: string;
+  profile?: string;
+  schema: string;
+  viewName: string;
+  query: string;
+  materialized: boolean;
+  orReplace: boolean;
+  ifNotExists: boolean;
+  withData: boolean;
+  dryRun: boolean;
+}
+
+function buildCreateViewStatement(input: CreateViewInput): string {
+  const { schema, viewName, query, materialized, orReplace, ifNotExists, withData } = input;
+  let statement: SqlStatement;
+  try {
+    statement = parseSingleStatement(query);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+  if (statement.kind !== 'select') {
+    throw new McpError(ErrorCode.InvalidParams, `The view query must be a SELECT statement, CTE (WITH clause), VALUES or TABLE; got ${statement.command || 'an unrecognized statement'}`);
+  }
+  const fullViewName = `"${schema}"."${viewName}"`;
+  if (!materialized) {
+    if (ifNotExists || !withData) {
+      throw new McpError(ErrorCode.InvalidParams, 'ifNotExists and withData apply to materialized views only; use orReplace to replace a view');
+    }
+    return `CREATE ${orReplace ? 'OR REPLACE ' : ''}VIEW ${fullViewName} AS ${statement.text}`;
+  }
+  if (orReplace) {
+    throw new McpError(ErrorCode.InvalidParams, 'Materialized views cannot be replaced: drop it with drop_view and create it again');
+  }
+  return `CREATE MATERIALIZED VIEW ${ifNotExists ? 'IF NOT EXISTS ' : ''}${fullViewName} AS ${statement.text}${withData ? '' : ' WITH NO DATA'}`;
+}
+
+async function executeCreateView(
+  input: CreateViewInput,
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<{ schema: string; viewName: string; viewType: ViewRow['view_type']; sql: string; catalogChanges?: CatalogChanges }> {
+  const sql = buildCreateViewStatement(input);
+  const { schema, viewName, materialized, withData, dryRun } = input;
+  // Only a materialized view filled with data runs its query
+  if (dryRun && materialized && withData) {
+    try {
+      assertDryRunnable([sql]);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  }
+  const viewType = materialized ? 'materialized view' : 'view';
+  const db = context.session.connection();
+  try {
+    await db.connect(getConnectionString(input.connectionString, input.profile));
+    if (dryRun) {
+      const { catalogChanges } = await executeDryRun(db, () => db.query(sql));
+      return { schema, viewName, viewType, sql, catalogChanges };
+    }
+    await db.query(sql);
+    return { schema, viewName, viewType, sql };
+  } catch (error) {
+    throw new McpError(ErrorCode.InternalError, `Failed to create ${viewType} ${viewName}: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+/** The view or materialized view `schema.viewName`, or an error naming what is missing */
+async function findView(db: DatabaseConnection, schema: string, viewName: string): Promise<ViewRow> {
+  const [view] = await listViews(db, { schema, viewName });
+  if (!view) {
+    throw new Error(`View "${schema}"."${viewName}" not found`);
+  }
+  return view;
+}
+
+async function executeDropView(
+  input: {
+    connectionString?: string;
+    profile?: string;
+    schema: string;
+    viewName: string;
+    ifExists: boolean;
+    cascade: boolean;
+    dryRun: boolean;
+    confirmationToken?: string;
+  },
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<{ preview: ToolOutput } | { schema: string; viewName: string; viewType?: ViewRow['view_type']; dropped: boolean; catalogChanges?: CatalogChanges }> {
+  const { schema, viewName, ifExists, cascade, dryRun, confirmationToken } = input;
+  const db = context.session.connection();
+  try {
+    await db.connect(getConnectionString(input.connectionString, input.profile));
+    const [view] = await listViews(db, { schema, viewName });
+    if (!view) {
+      if (ifExists) {
+        return { schema, viewName, dropped: false };
+      }
+      throw new Error(`View "${schema}"."${viewName}" not found`);
+    }
+
+    const viewType = view.view_type;
+    const sql = `DROP ${viewType === 'materialized view' ? 'MATERIALIZED VIEW' : 'VIEW'} "${schema}"."${viewName}"${cascade ? ' CASCADE' : ''}`;
+    if (dryRun) {
+      const { catalogChanges } = await executeDryRun(db, () => db.query(sql));
+      return { schema, viewName, viewType, dropped: true, catalogChanges };
+    }
+
+    const preview = await requireConfirmation(context.session, {
+      tool: 'sierra_manage_schema',
+      operation: 'drop_view',
+      sql: [sql],
+      affectedObjects: [`${viewType} "${schema}"."${viewName}"`, ...(cascade ? view.used_by.map(name => `dependent view ${name}`) : [])]
+    }, confirmationToken);
+    if (preview) return { preview };
+
+    await db.query(sql);
+    return { schema, viewName, viewType, dropped: true };
+  } catch (error) {
+    throw new McpError(ErrorCode.InternalError, `Failed to drop view ${viewName}: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+/**
+ * Refresh a materialized view. CONCURRENTLY keeps the view readable during
+ * the refresh, but PostgreSQL only allows it on a populated view with a
+ * unique index on plain columns, so both are checked first.
+ */
+async function executeRefreshView(
+  input: {
+    connectionString?: string;
+    profile?: string;
+    schema: string;
+    viewName: string;
+    concurrently: boolean;
+    withData: boolean;
+  },
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<{ schema: string; viewName: string; concurrently: boolean; durationMs: number; isPopulated: boolean | null; size: string | null; sizeBytes: string | null }> {
+  const { schema, viewName, concurrently, withData } = input;
+  const db = context.session.connection();
+  try {
+    await db.connect(getConnectionString(input.connectionString, input.profile));
+    const view = await findView(db, schema, viewName);
+    if (view.view_type !== 'materialized view') {
+      throw new Error(`"${schema}"."${viewName}" is a view, not a materialized view; views are not refreshed`);
+    }
+    if (concurrently) {
+      if (!withData) {
+        throw new Error('withData=false cannot be combined with concurrently');
+      }
+      if (!view.is_populated) {
+        throw new Error(`"${schema}"."${viewName}" is not populated; refresh it once without concurrently first`);
+      }
+      if (!view.concurrent_refresh_index) {
+        throw new Error(`"${schema}"."${viewName}" has no unique index on plain columns without a WHERE clause, which REFRESH ... CONCURRENTLY needs; create one with sierra_manage_indexes or refresh without concurrently`);
+      }
+    }
+
+    const started = Date.now();
+    await db.query(`REFRESH MATERIALIZED VIEW ${concurrently ? 'CONCURRENTLY ' : ''}"${schema}"."${viewName}"${withData ? '' : ' WITH NO DATA'}`);
+    const durationMs = Date.now() - started;
+
+    const refreshed = await findView(db, schema, viewName);
+    return { schema, viewName, concurrently, durationMs, isPopulated: refreshed.is_populated, size: refreshed.size, sizeBytes: refreshed.size_bytes };
+  } catch (error) {
+    throw new McpError(ErrorCode.InternalError, `Failed to refresh materialized view ${viewName}: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await db.disconnect();
+  }
+}
+
 export const manageSchemaTools: SierraTool = {
   name: 'sierra_manage_schema',
-  description: 'Manage PostgreSQL schema - get schema info, create/alter tables, manage enums. Examples: operation="get_info" for table lists, operation="create_table" with tableName and columns, operation="get_enums" to list enums, operation="create_enum" with enumName and values',
+  description: 'Manage PostgreSQL schema - get schema info, create/alter tables, manage enums, views and materialized views, generate DDL. Examples: operation="get_info" for table lists, operation="create_table" with tableName and columns, operation="get_enums" to list enums, operation="create_enum" with enumName and values, operation="get_views" to list views, operation="create_view" with viewName and query, operation="refresh_view" with viewName and concurrently=true, operation="get_ddl" with objectType="table" and objectName',
   inputSchema: z.object({
     connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
-    operation: z.enum(['get_info', 'create_table', 'alter_table', 'get_enums', 'create_enum']).describe('Operation: get_info (schema/table info), create_table (new table), alter_table (modify table), get_enums (list ENUMs), create_enum (new ENUM)'),
+    profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
+    operation: z.enum(['get_info', 'create_table', 'alter_table', 'get_enums', 'create_enum', 'get_views', 'create_view', 'drop_view', 'refresh_view', 'get_ddl']).describe('Operation: get_info (schema/table info), create_table (new table), alter_table (modify table), get_enums (list ENUMs), create_enum (new ENUM), get_views (list views and materialized views with definitions and dependencies), create_view (new or replaced view, or materialized view), drop_view (remove a view or materialized view), refresh_view (refresh a materialized view), get_ddl (CREATE statements that recreate an object or a whole schema)'),
     tableName: z.string().optional().describe('Table name (optional for get_info to get specific table info, required for create_table/alter_table)'),
     schema: z.string().optional().describe('Schema name (defaults to public)'),
     columns: z.array(z.object({
@@ -351,11 +504,25 @@ export const manageSchemaTools: SierraTool = {
     })).optional().describe('Alter operations (required for alter_table)'),
     enumName: z.string().optional().describe('ENUM name (optional for get_enums to filter, required for create_enum)'),
     values: z.array(z.string()).optional().describe('ENUM values (required for create_enum)'),
-    ifNotExists: z.boolean().optional().describe('Include IF NOT EXISTS clause (for create_enum)')
+    ifNotExists: z.boolean().optional().describe('Include IF NOT EXISTS clause (for create_enum and materialized create_view)'),
+    viewName: z.string().optional().describe('View or materialized view name (optional for get_views to filter, required for create_view/drop_view/refresh_view)'),
+    query: z.string().optional().describe('SELECT query the view is defined by (required for create_view)'),
+    materialized: z.boolean().optional().describe('Create a materialized view (for create_view)'),
+    orReplace: z.boolean().optional().describe('Replace an existing view of the same name; not available for materialized views (for create_view)'),
+    withData: z.boolean().optional().describe('Fill the materialized view right away (default: true); false leaves it unpopulated until refreshed (for create_view and refresh_view)'),
+    concurrently: z.boolean().optional().describe('Refresh without locking out readers; needs a populated materialized view with a unique index (for refresh_view)'),
+    ifExists: z.boolean().optional().describe('Do not fail when the view does not exist (for drop_view)'),
+    cascade: z.boolean().optional().describe('Also drop the views that depend on it (for drop_view)'),
+    objectType: z.enum(DDL_OBJECT_TYPES).optional().describe('Kind of object for get_ddl (defaults to table); "view" includes materialized views, "function" every overload, "schema" every object of schema in dependency order'),
+    objectName: z.string().optional().describe('Object name for get_ddl (tableName and enumName are used when it is omitted); not needed for objectType="schema"'),
+    dryRun: z.boolean().optional().describe('Run create_table, alter_table, create_enum, create_view or drop_view in a transaction that is always rolled back and report the catalog changes it would make; no confirmation is needed'),
+    confirmationToken: z.string().optional().describe('Token returned by the preview of a destructive operation; pass it back to execute the operation when confirmation is required')
   }),
-  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn): Promise<ToolOutput> => {
+  readOnlyOperations: ['get_info', 'get_enums', 'get_views', 'get_ddl'],
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
     const {
       connectionString: connStringArg,
+      profile,
       operation,
       tableName,
       schema,
@@ -363,10 +530,23 @@ export const manageSchemaTools: SierraTool = {
       operations,
       enumName,
       values,
-      ifNotExists
+      ifNotExists,
+      viewName,
+      query,
+      materialized,
+      orReplace,
+      withData,
+      concurrently,
+      ifExists,
+      cascade,
+      objectType,
+      objectName,
+      dryRun,
+      confirmationToken
     } = args as {
       connectionString?: string;
-      operation: 'get_info' | 'create_table' | 'alter_table' | 'get_enums' | 'create_enum';
+      profile?: string;
+      operation: 'get_info' | 'create_table' | 'alter_table' | 'get_enums' | 'create_enum' | 'get_views' | 'create_view' | 'drop_view' | 'refresh_view' | 'get_ddl';
       tableName?: string;
       schema?: string;
       columns?: Array<{
@@ -385,6 +565,18 @@ export const manageSchemaTools: SierraTool = {
       enumName?: string;
       values?: string[];
       ifNotExists?: boolean;
+      viewName?: string;
+      query?: string;
+      materialized?: boolean;
+      orReplace?: boolean;
+      withData?: boolean;
+      concurrently?: boolean;
+      ifExists?: boolean;
+      cascade?: boolean;
+      objectType?: DdlObjectType;
+      objectName?: string;
+      dryRun?: boolean;
+      confirmationToken?: string;
     };
 
     try {
@@ -392,12 +584,13 @@ export const manageSchemaTools: SierraTool = {
         case 'get_info': {
           const result = await executeGetSchemaInfo({
             connectionString: connStringArg,
+            profile,
             tableName
-          }, getConnectionStringVal);
+          }, getConnectionStringVal, context);
           const message = tableName
             ? `Schema information for table ${tableName}`
             : 'List of tables in database';
-          return { content: [{ type: 'text', text: message }, { type: 'text', text: JSON.stringify(result, null, 2) }] };
+          return { content: [{ type: 'text', text: message }, { type: 'text', text: formatJson(result, 'Pass tableName to get the details of a single table.') }] };
         }
 
         case 'create_table': {
@@ -409,10 +602,15 @@ export const manageSchemaTools: SierraTool = {
           }
           const result = await executeCreateTable({
             connectionString: connStringArg,
+            profile,
             tableName,
-            columns
-          }, getConnectionStringVal);
-          return { content: [{ type: 'text', text: `Table ${result.tableName} created successfully (if not exists).` }, { type: 'text', text: JSON.stringify(result, null, 2) }] };
+            columns,
+            dryRun
+          }, getConnectionStringVal, context);
+          const message = dryRun
+            ? `Dry run: table ${result.tableName} would be created (if not exists); the change was rolled back.`
+            : `Table ${result.tableName} created successfully (if not exists).`;
+          return { content: [{ type: 'text', text: message }, { type: 'text', text: formatJson(result) }] };
         }
 
         case 'alter_table': {
@@ -422,22 +620,47 @@ export const manageSchemaTools: SierraTool = {
               isError: true
             };
           }
+          const droppedColumns = operations.filter(op => op.type === 'drop').map(op => op.columnName);
+          if (droppedColumns.length > 0 && !dryRun) {
+            const preview = await requireConfirmation(context.session, {
+              tool: 'sierra_manage_schema',
+              operation,
+              sql: buildAlterTableStatements(tableName, operations),
+              affectedObjects: droppedColumns.map(column => `column "${tableName}"."${column}"`)
+            }, confirmationToken, async () => {
+              const db = context.session.connection();
+              try {
+                await db.connect(getConnectionStringVal(connStringArg, profile));
+                return await estimateTableRows(db, 'public', tableName);
+              } finally {
+                await db.disconnect();
+              }
+            });
+            if (preview) return preview;
+          }
           const result = await executeAlterTable({
             connectionString: connStringArg,
+            profile,
             tableName,
-            operations
-          }, getConnectionStringVal);
-          return { content: [{ type: 'text', text: `Table ${result.tableName} altered successfully.` }, { type: 'text', text: JSON.stringify(result, null, 2) }] };
+            operations,
+            dryRun
+          }, getConnectionStringVal, context);
+          const message = dryRun
+            ? `Dry run: table ${result.tableName} would be altered; the changes were rolled back.`
+            : `Table ${result.tableName} altered successfully.`;
+          return { content: [{ type: 'text', text: message }, { type: 'text', text: formatJson(result) }] };
         }
 
         case 'get_enums': {
           const result = await executeGetEnumsInSchema(
             connStringArg || '',
+            profile,
             schema || 'public',
             enumName,
-            getConnectionStringVal
+            getConnectionStringVal,
+            context
           );
-          return { content: [{ type: 'text', text: `Fetched ${result.length} ENUM(s).` }, { type: 'text', text: JSON.stringify(result, null, 2) }] };
+          return { content: [{ type: 'text', text: `Fetched ${result.length} ENUM(s).` }, { type: 'text', text: formatJson(result) }] };
         }
 
         case 'create_enum': {
@@ -449,18 +672,137 @@ export const manageSchemaTools: SierraTool = {
           }
           const result = await executeCreateEnumInSchema(
             connStringArg || '',
+            profile,
             enumName,
             values,
             schema || 'public',
             ifNotExists || false,
-            getConnectionStringVal
+            dryRun || false,
+            getConnectionStringVal,
+            context
           );
-          return { content: [{ type: 'text', text: `ENUM type ${result.schema ? `${result.schema}.` : ''}${result.enumName} created successfully.` }, { type: 'text', text: JSON.stringify(result, null, 2) }] };
+          const qualifiedName = `${result.schema ? `${result.schema}.` : ''}${result.enumName}`;
+          const message = dryRun
+            ? `Dry run: ENUM type ${qualifiedName} would be created; the change was rolled back.`
+            : `ENUM type ${qualifiedName} created successfully.`;
+          return { content: [{ type: 'text', text: message }, { type: 'text', text: formatJson(result) }] };
+        }
+
+        case 'get_views': {
+          const result = await executeGetViews(
+            connStringArg,
+            profile,
+            schema || 'public',
+            viewName,
+            getConnectionStringVal,
+            context
+          );
+          return { content: [{ type: 'text', text: `Fetched ${result.length} view(s).` }, { type: 'text', text: formatJson(result) }] };
+        }
+
+        case 'create_view': {
+          if (!viewName || !query) {
+            return {
+              content: [{ type: 'text', text: 'Error: viewName and query are required for create_view operation' }],
+              isError: true
+            };
+          }
+          const result = await executeCreateView({
+            connectionString: connStringArg,
+            profile,
+            schema: schema || 'public',
+            viewName,
+            query,
+            materialized: materialized || false,
+            orReplace: orReplace || false,
+            ifNotExists: ifNotExists || false,
+            withData: withData ?? true,
+            dryRun: dryRun || false
+          }, getConnectionStringVal, context);
+          const qualifiedName = `${result.schema}.${result.viewName}`;
+          const message = dryRun
+            ? `Dry run: ${result.viewType} ${qualifiedName} would be created; the change was rolled back.`
+            : `${result.viewType === 'view' ? 'View' : 'Materialized view'} ${qualifiedName} created successfully${withData === false ? ' (not populated until refreshed)' : ''}.`;
+          return { content: [{ type: 'text', text: message }, { type: 'text', text: formatJson(result) }] };
+        }
+
+        case 'drop_view': {
+          if (!viewName) {
+            return {
+              content: [{ type: 'text', text: 'Error: viewName is required for drop_view operation' }],
+              isError: true
+            };
+          }
+          const result = await executeDropView({
+            connectionString: connStringArg,
+            profile,
+            schema: schema || 'public',
+            viewName,
+            ifExists: ifExists || false,
+            cascade: cascade || false,
+            dryRun: dryRun || false,
+            confirmationToken
+          }, getConnectionStringVal, context);
+          if ('preview' in result) return result.preview;
+          const qualifiedName = `${result.schema}.${result.viewName}`;
+          const message = !result.dropped
+            ? `View ${qualifiedName} does not exist; nothing was dropped.`
+            : dryRun
+              ? `Dry run: ${result.viewType} ${qualifiedName} would be dropped; the change was rolled back.`
+              : `${result.viewType === 'view' ? 'View' : 'Materialized view'} ${qualifiedName} dropped successfully.`;
+          return { content: [{ type: 'text', text: message }, { type: 'text', text: formatJson(result) }] };
+        }
+
+        case 'refresh_view': {
+          if (!viewName) {
+            return {
+              content: [{ type: 'text', text: 'Error: viewName is required for refresh_view operation' }],
+              isError: true
+            };
+          }
+          const result = await executeRefreshView({
+            connectionString: connStringArg,
+            profile,
+            schema: schema || 'public',
+            viewName,
+            concurrently: concurrently || false,
+            withData: withData ?? true
+          }, getConnectionStringVal, context);
+          const message = result.isPopulated
+            ? `Materialized view ${result.schema}.${result.viewName} refreshed${result.concurrently ? ' concurrently' : ''} in ${result.durationMs} ms; it now takes ${result.size}.`
+            : `Materialized view ${result.schema}.${result.viewName} emptied; it is not populated until refreshed with data.`;
+          return { content: [{ type: 'text', text: message }, { type: 'text', text: formatJson(result) }] };
+        }
+
+        case 'get_ddl': {
+          const type = objectType ?? 'table';
+          const name = objectName ?? (type === 'enum' ? enumName : tableName);
+          if (type !== 'schema' && !name) {
+            return {
+              content: [{ type: 'text', text: `Error: objectName is required for get_ddl operation with objectType "${type}"` }],
+              isError: true
+            };
+          }
+          const result = await executeGetDdl(
+            connStringArg,
+            profile,
+            type,
+            schema || 'public',
+            type === 'schema' ? undefined : name,
+            getConnectionStringVal,
+            context
+          );
+          return {
+            content: [
+              { type: 'text', text: `DDL for ${type} ${type === 'schema' ? schema || 'public' : name}: ${result.statements.length} statement(s) creating ${result.objects.join(', ')}` },
+              { type: 'text', text: result.statements.join('\n\n') }
+            ]
+          };
         }
 
         default:
           return {
-            content: [{ type: 'text', text: `Error: Unknown operation "${operation}". Supported operations: get_info, create_table, alter_table, get_enums, create_enum` }],
+            content: [{ type: 'text', text: `Error: Unknown operation "${operation}". Supported operations: get_info, create_table, alter_table, get_enums, create_enum, get_views, create_view, drop_view, refresh_view, get_ddl` }],
             isError: true
           };
       }
@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import { formatJson } from '../utils/budget.js';
+import { ISOLATION_LEVELS, TRANSACTION_IDLE_TTL_MS, type IsolationLevel } from '../utils/transaction.js';
+
+const TransactionInputSchema = z.object({
+  connectionString: z.string().optional().describe('PostgreSQL connection string (optional, for begin)'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, for begin)'),
+  operation: z.enum(['begin', 'savepoint', 'rollback_to', 'commit', 'rollback', 'status']).describe('Operation: begin (open a transaction for the following tool calls), savepoint, rollback_to (a savepoint), commit, rollback, status'),
+  name: z.string().optional().describe('Savepoint name (required for savepoint and rollback_to)'),
+  isolationLevel: z.enum(ISOLATION_LEVELS).optional().describe('Isolation level for begin (defaults to the server setting, usually read committed)'),
+  readOnly: z.boolean().optional().describe('Begin a read-only transaction'),
+  idleTimeout: z.number().int().positive().optional().describe(`Milliseconds without a tool call after which the transaction is rolled back (default: ${TRANSACTION_IDLE_TTL_MS})`)
+});
+
+type TransactionInput = z.infer<typeof TransactionInputSchema>;
+
+/** Savepoint names are plain identifiers; `sierra_` names are used by the tools themselves */
+const SAVEPOINT_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function savepointName(name: string | undefined, operation: string): string {
+  if (!name) {
+    throw new McpError(ErrorCode.InvalidParams, `name is required for ${operation}`);
+  }
+  if (!SAVEPOINT_NAME.test(name) || name.toLowerCase().startsWith('sierra_')) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid savepoint name "${name}": use letters, digits and underscores, not starting with a digit or "sierra_"`);
+  }
+  return name;
+}
+
+async function executeTransaction(
+  input: TransactionInput,
+  getConnectionString: GetConnectionStringFn,
+  context: ToolContext
+): Promise<ToolOutput> {
+  const { operation, name, isolationLevel, readOnly, idleTimeout } = input;
+  const { session } = context;
+
+  if (operation === 'status') {
+    const transaction = session.openTransaction;
+    if (!transaction) {
+      return { content: [{ type: 'text', text: 'No transaction is open in this session.' }] };
+    }
+    return {
+      content: [
+        { type: 'text', text: 'A transaction is open in this session.' },
+        {
+          type: 'text',
+          text: formatJson({
+            startedAt: transaction.startedAt.toISOString(),
+            isolationLevel: transaction.options.isolationLevel ?? 'default',
+            readOnly: transaction.options.readOnly ?? false,
+            savepoints: transaction.savepointNames,
+            idleTimeout: transaction.options.idleTimeout
+          })
+        }
+      ]
+    };
+  }
+
+  try {
+    switch (operation) {
+      case 'begin': {
+        const transaction = await session.beginTransaction(getConnectionString(input.connectionString, input.profile), { isolationLevel, readOnly, idleTimeout });
+        const modes = [transaction.options.isolationLevel, transaction.options.readOnly ? 'read only' : ''].filter(Boolean).join(', ');
+        const minutes = Math.round(transaction.options.idleTimeout / 60000);
+        return {
+          content: [{
+            type: 'text',
+            text: `Transaction started${modes ? ` (${modes})` : ''}. The data and schema tools of this session now run inside it until commit or rollback; it is rolled back after ${minutes > 0 ? `${minutes} minutes` : `${transaction.options.idleTimeout} ms`} without a tool call.`
+          }]
+        };
+      }
+
+      case 'savepoint': {
+        const savepoint = savepointName(name, operation);
+        await session.requireTransaction().savepoint(savepoint);
+        return { content: [{ type: 'text', text: `Savepoint ${savepoint} created.` }] };
+      }
+
+      case 'rollback_to': {
+        const savepoint = savepointName(name, operation);
+        await session.requireTransaction().rollbackTo(savepoint);
+        return { content: [{ type: 'text', text: `Rolled back to savepoint ${savepoint}.` }] };
+      }
+
+      case 'commit': {
+        if (!(await session.requireTransaction().commit())) {
+          return {
+            content: [{ type: 'text', text: 'The transaction was rolled back instead of committed because a statement in it had failed.' }],
+            isError: true
+          };
+        }
+        return { content: [{ type: 'text', text: 'Transaction committed.' }] };
+      }
+
+      case 'rollback':
+        await session.requireTransaction().rollback();
+        return { content: [{ type: 'text', text: 'Transaction rolled back.' }] };
+
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unknown operation: ${operation}`);
+    }
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InternalError, `Failed to ${operation.replace('_', ' ')}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const transactionTool: SierraTool = {
+  name: 'sierra_transaction',
+  description: 'Open a transaction that spans tool calls: after operation="begin", sierra_execute_sql, sierra_execute_mutation, sierra_manage_schema and the other data and schema tools of this session run inside it until operation="commit" or "rollback". Also savepoint / rollback_to with name, and status. An idle transaction is rolled back automatically. Example: operation="begin", isolationLevel="serializable"',
+  inputSchema: TransactionInputSchema,
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
+    const {
+      connectionString: connStringArg,
+      profile,
+      operation,
+      name,
+      isolationLevel,
+      readOnly,
+      idleTimeout
+    } = args as {
+      connectionString?: string;
+      profile?: string;
+      operation: TransactionInput['operation'];
+      name?: string;
+      isolationLevel?: IsolationLevel;
+      readOnly?: boolean;
+      idleTimeout?: number;
+    };
+
+    try {
+      return await executeTransaction({
+        connectionString: connStringArg,
+        profile,
+        operation,
+        name,
+        isolationLevel,
+        readOnly,
+        idleTimeout
+      }, getConnectionStringVal, context);
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Error executing ${operation} operation: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true
+      };
+    }
+  }
+};
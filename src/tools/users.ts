@@ -1,10 +1,12 @@
 import { z } from 'zod';
-import { DatabaseConnection } from '../utils/connection.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import type { SierraTool, ToolOutput, GetConnectionStringFn } from '../types/tool.js';
+import type { SierraTool, ToolOutput, GetConnectionStringFn, ToolContext } from '../types/tool.js';
+import { requireConfirmation } from '../utils/confirmation.js';
+import { formatRows, OutputFormatSchema } from '../utils/format.js';
 
 const ManageUsersInputSchema = z.object({
   connectionString: z.string().optional().describe('PostgreSQL connection string (optional)'),
+  profile: z.string().optional().describe('Named connection profile from the profiles file (optional, alternative to connectionString)'),
   operation: z.enum(['create', 'drop', 'alter', 'grant', 'revoke', 'get_permissions', 'list']).describe('Operation: create (new user), drop (remove user), alter (modify user), grant (permissions), revoke (permissions), get_permissions (view permissions), list (all users)'),
   username: z.string().optional().describe('Username (required for create/drop/alter/grant/revoke/get_permissions, optional filter for list)'),
   password: z.string().optional().describe('Password for the user (for create operation)'),
@@ -23,7 +25,9 @@ const ManageUsersInputSchema = z.object({
   withGrantOption: z.boolean().optional().describe('Allow user to grant these permissions to others (for grant operation)'),
   cascade: z.boolean().optional().describe('Include CASCADE to drop owned objects (for drop/revoke operations)'),
   ifExists: z.boolean().optional().describe('Include IF EXISTS clause (for drop operation)'),
-  includeSystemRoles: z.boolean().optional().describe('Include system roles (for list operation)')
+  includeSystemRoles: z.boolean().optional().describe('Include system roles (for list operation)'),
+  confirmationToken: z.string().optional().describe('Token returned by the preview of a destructive operation; pass it back to execute the operation when confirmation is required'),
+  outputFormat: OutputFormatSchema.describe('Format of the list (for list/get_permissions operations): json (default), markdown, csv, ndjson or columns')
 });
 
 type ManageUsersInput = z.infer<typeof ManageUsersInputSchema>;
@@ -32,9 +36,11 @@ export const manageUsersTool: SierraTool = {
   name: 'sierra_manage_users',
   description: 'Manage PostgreSQL users and permissions - create, drop, alter users, grant/revoke permissions. Examples: operation="create" with username="testuser", operation="grant" with username, permissions, target, targetType',
   inputSchema: ManageUsersInputSchema,
-  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn): Promise<ToolOutput> => {
+  readOnlyOperations: ['get_permissions', 'list'],
+  execute: async (args: unknown, getConnectionStringVal: GetConnectionStringFn, context: ToolContext): Promise<ToolOutput> => {
     const {
       connectionString: connStringArg,
+      profile,
       operation,
       username,
       password,
@@ -53,11 +59,13 @@ export const manageUsersTool: SierraTool = {
       withGrantOption,
       cascade,
       ifExists,
-      includeSystemRoles
+      includeSystemRoles,
+      confirmationToken,
+      outputFormat
     } = args as ManageUsersInput;
 
-    const resolvedConnString = getConnectionStringVal(connStringArg);
-    const db = DatabaseConnection.getInstance();
+    const resolvedConnString = getConnectionStringVal(connStringArg, profile);
+    const db = context.session.connection();
 
     try {
       await db.connect(resolvedConnString);
@@ -95,7 +103,7 @@ export const manageUsersTool: SierraTool = {
           return {
             content: [{
               type: 'text',
-              text: `Found ${users.length} users/roles.\n\n${JSON.stringify(users, null, 2)}`
+              text: `Found ${users.length} users/roles.\n\n${formatRows(users, outputFormat)}`
             }]
           };
         }
@@ -140,15 +148,23 @@ export const manageUsersTool: SierraTool = {
           }
 
           const ifExistsClause = ifExists ? 'IF EXISTS ' : '';
-
-          if (cascade) {
-            await db.query(`REASSIGN OWNED BY "${username}" TO postgres`);
-            await db.query(`DROP OWNED BY ${ifExistsClause}"${username}"`);
+          const statements = cascade
+            ? [`REASSIGN OWNED BY "${username}" TO postgres`, `DROP OWNED BY ${ifExistsClause}"${username}"`]
+            : [];
+          statements.push(`DROP ROLE ${ifExistsClause}"${username}"`);
+
+          const preview = await requireConfirmation(context.session, {
+            tool: 'sierra_manage_users',
+            operation,
+            sql: statements,
+            affectedObjects: cascade ? [`role "${username}"`, `objects owned by "${username}"`] : [`role "${username}"`]
+          }, confirmationToken);
+          if (preview) return preview;
+
+          for (const sql of statements) {
+            await db.query(sql);
           }
 
-          const sql = `DROP ROLE ${ifExistsClause}"${username}"`;
-          await db.query(sql);
-
           return {
             content: [{
               type: 'text',
@@ -315,7 +331,7 @@ export const manageUsersTool: SierraTool = {
           return {
             content: [{
               type: 'text',
-              text: `Permissions for user "${username}":\n\n${JSON.stringify(permissions, null, 2)}`
+              text: `Permissions for user "${username}":\n\n${formatRows(permissions, outputFormat)}`
             }]
           };
         }
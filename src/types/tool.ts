@@ -1,15 +1,26 @@
 import type { z } from 'zod';
+import type { DatabaseSession } from '../utils/session.js';
 
-export type GetConnectionStringFn = (connectionStringArg?: string) => string;
+export type GetConnectionStringFn = (connectionStringArg?: string, profileArg?: string) => string;
 
 export interface ToolOutput {
   content: Array<{ type: 'text'; text: string }>;
   isError?: boolean;
 }
 
+export interface ToolContext {
+  session: DatabaseSession;
+}
+
 export interface SierraTool {
   name: string;
   description: string;
   inputSchema: z.ZodTypeAny;
-  execute: (args: unknown, getConnectionString: GetConnectionStringFn) => Promise<ToolOutput>;
+  /**
+   * Values of the `operation` argument that never write. Tools that leave this
+   * unset are read-only as a whole (or guard themselves); an empty list means
+   * the tool is hidden in read-only mode.
+   */
+  readOnlyOperations?: readonly string[];
+  execute: (args: unknown, getConnectionString: GetConnectionStringFn, context: ToolContext) => Promise<ToolOutput>;
 }
@@ -0,0 +1,232 @@
+import fs from 'node:fs';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import pkg from 'pg';
+import type { Pool as PoolType } from 'pg';
+import type { ConnectionProfile } from './profiles.js';
+const { Pool } = pkg;
+
+/** The tool call that SQL executed inside it belongs to */
+export interface AuditContext {
+  callId: string;
+  sessionId: string;
+  apiKey?: string;
+  tool: string;
+  operation?: string;
+  /** Rows changed by INSERT/UPDATE/DELETE/MERGE/COPY statements of this call */
+  rowsAffected: number;
+}
+
+interface AuditEventBase {
+  timestamp: string;
+  callId: string;
+  sessionId: string;
+  apiKey?: string;
+  tool: string;
+  operation?: string;
+  durationMs: number;
+  rowsAffected?: number;
+  error?: string;
+}
+
+export type AuditEvent =
+  | AuditEventBase & { type: 'tool_call'; arguments: unknown; isError: boolean }
+  | AuditEventBase & { type: 'sql'; sql: string; parameters: unknown[]; command?: string; rowCount?: number };
+
+const WRITE_COMMANDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'COPY']);
+const SECRET_KEYS = /pass(word)?|secret|token|api[_-]?key|credential|connectionstring/i;
+const REDACTED = '[REDACTED]';
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+let fileStream: fs.WriteStream | null = null;
+let tablePool: PoolType | null = null;
+let tableName = '';
+let tableReady: Promise<void> | null = null;
+let tableQueue: Promise<void> = Promise.resolve();
+
+function quoteTableName(name: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/.test(name)) {
+    throw new Error(`Invalid audit table name "${name}"`);
+  }
+  return name.split('.').map(part => `"${part}"`).join('.');
+}
+
+/**
+ * Enable the audit log: a JSON Lines file, a table in the database of a
+ * connection profile, or both. Events are appended; nothing is ever updated.
+ */
+export function configureAudit(options: { file?: string; profile?: ConnectionProfile; table?: string }): void {
+  if (options.file) {
+    fileStream = fs.createWriteStream(options.file, { flags: 'a' });
+    fileStream.on('error', error => console.error('[Sierra MCP Error] Audit log file:', error));
+  }
+  if (options.profile) {
+    tableName = quoteTableName(options.table || 'sierra_audit_log');
+    tablePool = new Pool({
+      connectionString: options.profile.connectionString,
+      ssl: options.profile.options.ssl,
+      max: 1,
+      allowExitOnIdle: true
+    });
+    tablePool.on('error', error => console.error('[Sierra MCP Error] Audit database:', error));
+  }
+}
+
+export function isAuditEnabled(): boolean {
+  return fileStream !== null || tablePool !== null;
+}
+
+/** True for command tags whose row count is rows written (INSERT, UPDATE, DELETE, MERGE, COPY) */
+export function isWriteCommand(command: string): boolean {
+  return WRITE_COMMANDS.has(command);
+}
+
+/** Run a tool call with an audit context, so its SQL is attributed to it */
+export function runWithAuditContext<T>(context: AuditContext, fn: () => Promise<T>): Promise<T> {
+  return auditStorage.run(context, fn);
+}
+
+function redactConnectionString(value: string): string {
+  return value.replace(/(postgres(?:ql)?:\/\/[^:/@\s]+:)[^@\s]+@/gi, `$1${REDACTED}@`);
+}
+
+/** Copy of tool arguments with secrets (passwords, tokens, credentials in URLs) replaced */
+export function redactSecrets(value: unknown, key = ''): unknown {
+  if (key && SECRET_KEYS.test(key) && value !== undefined && value !== null) {
+    return REDACTED;
+  }
+  if (typeof value === 'string') {
+    return redactConnectionString(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactSecrets(v, k)]));
+  }
+  return value;
+}
+
+/** SQL text with inline password literals (CREATE/ALTER ROLE ... PASSWORD '...') replaced */
+function redactSql(sql: string): string {
+  return redactConnectionString(sql).replace(/(PASSWORD\s+)'(?:[^']|'')*'/gi, `$1'${REDACTED}'`);
+}
+
+async function writeToTable(event: AuditEvent): Promise<void> {
+  const pool = tablePool as PoolType;
+  if (!tableReady) {
+    // A failed attempt is forgotten, so the next event tries again (e.g. after a database restart)
+    tableReady = pool.query(`
+      CREATE TABLE IF NOT EXISTS ${tableName} (
+        id bigserial PRIMARY KEY,
+        logged_at timestamptz NOT NULL,
+        event_type text NOT NULL,
+        call_id text NOT NULL,
+        session_id text NOT NULL,
+        api_key text,
+        tool text NOT NULL,
+        operation text,
+        sql text,
+        duration_ms integer NOT NULL,
+        rows_affected bigint,
+        error text,
+        event jsonb NOT NULL
+      )`).then(() => undefined, error => {
+        tableReady = null;
+        throw error;
+      });
+  }
+  await tableReady;
+  await pool.query(
+    `INSERT INTO ${tableName}
+       (logged_at, event_type, call_id, session_id, api_key, tool, operation, sql, duration_ms, rows_affected, error, event)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+    [
+      event.timestamp, event.type, event.callId, event.sessionId, event.apiKey ?? null, event.tool,
+      event.operation ?? null, event.type === 'sql' ? event.sql : null, event.durationMs,
+      event.rowsAffected ?? null, event.error ?? null, JSON.stringify(event)
+    ]
+  );
+}
+
+function writeEvent(event: AuditEvent): void {
+  if (fileStream) {
+    fileStream.write(`${JSON.stringify(event)}\n`);
+  }
+  if (tablePool) {
+    // Serialized and never awaited by the tool call; failures are only logged
+    tableQueue = tableQueue
+      .then(() => writeToTable(event))
+      .catch(error => console.error('[Sierra MCP Error] Could not write audit event to the database:', error));
+  }
+}
+
+/** Record a statement run by `DatabaseConnection` inside a tool call */
+export function recordSql(entry: {
+  sql: string;
+  parameters: unknown[];
+  durationMs: number;
+  command?: string;
+  rowCount?: number | null;
+  error?: string;
+}): void {
+  const context = auditStorage.getStore();
+  if (!context || !isAuditEnabled()) {
+    return;
+  }
+  const isWrite = entry.command !== undefined && isWriteCommand(entry.command);
+  if (isWrite && entry.rowCount) {
+    context.rowsAffected += entry.rowCount;
+  }
+
+  writeEvent({
+    type: 'sql',
+    timestamp: new Date().toISOString(),
+    callId: context.callId,
+    sessionId: context.sessionId,
+    apiKey: context.apiKey,
+    tool: context.tool,
+    operation: context.operation,
+    sql: redactSql(entry.sql),
+    parameters: entry.parameters.map(p => redactSecrets(p)),
+    command: entry.command,
+    rowCount: entry.rowCount ?? undefined,
+    durationMs: entry.durationMs,
+    rowsAffected: isWrite ? entry.rowCount ?? undefined : undefined,
+    error: entry.error
+  });
+}
+
+/** Record a finished tool call */
+export function recordToolCall(context: AuditContext, entry: { arguments: unknown; durationMs: number; isError: boolean; error?: string }): void {
+  if (!isAuditEnabled()) {
+    return;
+  }
+  writeEvent({
+    type: 'tool_call',
+    timestamp: new Date().toISOString(),
+    callId: context.callId,
+    sessionId: context.sessionId,
+    apiKey: context.apiKey,
+    tool: context.tool,
+    operation: context.operation,
+    arguments: redactSecrets(entry.arguments),
+    durationMs: entry.durationMs,
+    rowsAffected: context.rowsAffected,
+    isError: entry.isError,
+    error: entry.error
+  });
+}
+
+/** Flush pending writes and close the audit sinks */
+export async function closeAudit(): Promise<void> {
+  await tableQueue;
+  if (tablePool) {
+    await tablePool.end();
+    tablePool = null;
+  }
+  if (fileStream) {
+    const stream = fileStream;
+    fileStream = null;
+    await new Promise<void>(resolve => stream.end(resolve));
+  }
+}
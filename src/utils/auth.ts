@@ -0,0 +1,119 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { IncomingHttpHeaders } from 'node:http';
+import { z } from 'zod';
+import { getProfile } from './profiles.js';
+import { loadPolicy, parsePolicy, type ToolPolicy } from './policy.js';
+
+const ApiKeyEntrySchema = z.object({
+  name: z.string().min(1),
+  hash: z.string().regex(/^sha256:[0-9a-f]{64}$/, 'Expected "sha256:<64 hex characters>"'),
+  enabled: z.boolean().optional().default(true),
+  profile: z.string().optional().describe('Connection profile every call made with this key uses'),
+  policy: z.unknown().optional().describe('Inline tool policy (same format as --tools-config)'),
+  policyFile: z.string().optional().describe('Tool policy file, relative to the keys file')
+}).refine(k => k.policy === undefined || k.policyFile === undefined, {
+  message: 'Only one of policy or policyFile may be set'
+});
+
+const ApiKeysFileSchema = z.object({
+  keys: z.array(ApiKeyEntrySchema).min(1)
+});
+
+export interface ApiKey {
+  name: string;
+  enabled: boolean;
+  /** Connection profile the key is restricted to */
+  profile?: string;
+  /** Tool policy replacing the server-wide one for this key */
+  policy?: ToolPolicy;
+  hash: Buffer;
+}
+
+export type AuthResult =
+  | { ok: true; key: ApiKey }
+  | { ok: false; status: 401 | 403; message: string };
+
+let apiKeys: ApiKey[] = [];
+
+export function hashApiKey(key: string): string {
+  return `sha256:${createHash('sha256').update(key).digest('hex')}`;
+}
+
+/** A new random API key and the hash to put in the keys file */
+export function generateApiKey(): { key: string; hash: string } {
+  const key = `sdq_${randomBytes(24).toString('base64url')}`;
+  return { key, hash: hashApiKey(key) };
+}
+
+/**
+ * Load hashed API keys for the HTTP transport. Once loaded, every `/mcp`
+ * request must present one of them. Referenced profiles must already be
+ * loaded.
+ */
+export function loadApiKeys(keysPath: string): void {
+  const parsed = ApiKeysFileSchema.safeParse(JSON.parse(fs.readFileSync(keysPath, 'utf-8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid API keys file ${keysPath}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+
+  const loaded: ApiKey[] = [];
+  for (const entry of parsed.data.keys) {
+    if (loaded.some(k => k.name === entry.name)) {
+      throw new Error(`API key "${entry.name}" is defined more than once in ${keysPath}`);
+    }
+    if (entry.profile && !getProfile(entry.profile)) {
+      throw new Error(`API key "${entry.name}" refers to unknown profile "${entry.profile}"`);
+    }
+
+    let policy: ToolPolicy | undefined;
+    if (entry.policyFile) {
+      policy = loadPolicy(path.resolve(path.dirname(keysPath), entry.policyFile));
+    } else if (entry.policy !== undefined) {
+      policy = parsePolicy(entry.policy, `API key "${entry.name}"`);
+    }
+
+    loaded.push({
+      name: entry.name,
+      enabled: entry.enabled,
+      profile: entry.profile,
+      policy,
+      hash: Buffer.from(entry.hash.slice('sha256:'.length), 'hex')
+    });
+  }
+
+  apiKeys = loaded;
+}
+
+export function isAuthEnabled(): boolean {
+  return apiKeys.length > 0;
+}
+
+/** The key from `Authorization: Bearer <key>` or `X-API-Key: <key>` */
+function extractApiKey(headers: IncomingHttpHeaders): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+    return match ? match[1] : undefined;
+  }
+  const header = headers['x-api-key'];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+export function authenticate(headers: IncomingHttpHeaders): AuthResult {
+  const presented = extractApiKey(headers);
+  if (!presented) {
+    return { ok: false, status: 401, message: 'Unauthorized: missing bearer token or X-API-Key header' };
+  }
+
+  const digest = createHash('sha256').update(presented).digest();
+  const key = apiKeys.find(k => timingSafeEqual(k.hash, digest));
+  if (!key) {
+    return { ok: false, status: 401, message: 'Unauthorized: invalid API key' };
+  }
+  if (!key.enabled) {
+    return { ok: false, status: 403, message: `Forbidden: API key "${key.name}" is disabled` };
+  }
+  return { ok: true, key };
+}
@@ -0,0 +1,181 @@
+import type { ToolOutput } from '../types/tool.js';
+
+/** Limits on what a single tool response may contain; 0 disables a limit */
+export interface ResponseBudget {
+  /** Bytes of text in one tool response */
+  maxBytes: number;
+  /** Items kept from any one array (result rows, list entries) */
+  maxRows: number;
+  /** Characters kept from a single string value; bytea is counted in hex characters */
+  maxCellLength: number;
+}
+
+/** Room left for the message around a JSON payload, so headers survive the byte cap */
+const MESSAGE_RESERVE_BYTES = 1024;
+
+const DEFAULT_HINT = 'Narrow the request (filters, fewer columns, LIMIT/OFFSET) to see the rest.';
+
+let budget: ResponseBudget = {
+  maxBytes: 100_000,
+  maxRows: 1000,
+  maxCellLength: 2000
+};
+
+export function setResponseBudget(overrides: Partial<ResponseBudget>): void {
+  budget = { ...budget, ...overrides };
+}
+
+interface BudgetReport {
+  /** Array path -> items shown and items in total */
+  arrays: Map<string, { shown: number; total: number }>;
+  truncatedCells: number;
+}
+
+function truncateCell(value: string, report: BudgetReport): string {
+  if (!budget.maxCellLength || value.length <= budget.maxCellLength) {
+    return value;
+  }
+  report.truncatedCells++;
+  return `${value.slice(0, budget.maxCellLength)}… [truncated: ${value.length - budget.maxCellLength} more characters]`;
+}
+
+function formatBytea(value: Buffer, report: BudgetReport): string {
+  const hex = value.toString('hex');
+  if (!budget.maxCellLength || hex.length + 2 <= budget.maxCellLength) {
+    return `\\x${hex}`;
+  }
+  report.truncatedCells++;
+  const shownBytes = Math.max(0, Math.floor((budget.maxCellLength - 2) / 2));
+  return `\\x${hex.slice(0, shownBytes * 2)}… [truncated: ${value.length - shownBytes} more bytes]`;
+}
+
+/** Copy of `value` with long cells truncated and long arrays cut to the row budget */
+function trimValue(value: unknown, path: string, report: BudgetReport): unknown {
+  if (typeof value === 'string') {
+    return truncateCell(value, report);
+  }
+  if (Buffer.isBuffer(value)) {
+    return formatBytea(value, report);
+  }
+  if (Array.isArray(value)) {
+    const arrayPath = path || 'results';
+    const kept = budget.maxRows && value.length > budget.maxRows ? value.slice(0, budget.maxRows) : value;
+    if (kept.length < value.length) {
+      report.arrays.set(arrayPath, { shown: kept.length, total: value.length });
+    }
+    return kept.map(item => trimValue(item, `${arrayPath}[]`, report));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, trimValue(item, path ? `${path}.${key}` : key, report)])
+    );
+  }
+  return value;
+}
+
+/** All arrays in `value` with their paths and serialized sizes */
+function collectArrays(value: unknown, path: string, found: Array<{ path: string; array: unknown[]; size: number }>): void {
+  if (Array.isArray(value)) {
+    const arrayPath = path || 'results';
+    found.push({ path: arrayPath, array: value, size: JSON.stringify(value).length });
+    value.forEach(item => collectArrays(item, `${arrayPath}[]`, found));
+  } else if (value && typeof value === 'object' && !(value instanceof Date)) {
+    for (const [key, item] of Object.entries(value)) {
+      collectArrays(item, path ? `${path}.${key}` : key, found);
+    }
+  }
+}
+
+/** Shrink the largest arrays until the pretty-printed value fits in `maxBytes` */
+function fitToBytes(value: unknown, maxBytes: number, report: BudgetReport): string {
+  let text = JSON.stringify(value, null, 2) ?? 'null';
+  while (Buffer.byteLength(text) > maxBytes) {
+    const arrays: Array<{ path: string; array: unknown[]; size: number }> = [];
+    collectArrays(value, '', arrays);
+    const largest = arrays.filter(a => a.array.length > 0).sort((a, b) => b.size - a.size)[0];
+    if (!largest) {
+      break;
+    }
+    const total = report.arrays.get(largest.path)?.total ?? largest.array.length;
+    const ratio = maxBytes / Buffer.byteLength(text);
+    const keep = Math.min(largest.array.length - 1, Math.floor(largest.array.length * ratio * 0.9));
+    largest.array.length = Math.max(0, keep);
+    report.arrays.set(largest.path, { shown: largest.array.length, total });
+    text = JSON.stringify(value, null, 2);
+  }
+  return text;
+}
+
+function payloadBytes(): number {
+  return Math.max(budget.maxBytes - MESSAGE_RESERVE_BYTES, MESSAGE_RESERVE_BYTES);
+}
+
+/**
+ * Pretty-print a tool result within the response budget: long strings and
+ * bytea values are truncated with markers, arrays beyond the row or byte
+ * budget are cut, and a note says what was left out and how to get the rest.
+ */
+export function formatJson(value: unknown, hint = DEFAULT_HINT): string {
+  const report: BudgetReport = { arrays: new Map(), truncatedCells: 0 };
+  const trimmed = trimValue(value, '', report);
+  const text = budget.maxBytes
+    ? fitToBytes(trimmed, payloadBytes(), report)
+    : JSON.stringify(trimmed, null, 2) ?? 'null';
+  return withBudgetNote(text, report, hint);
+}
+
+/**
+ * Render `rows` with `render` within the response budget, like `formatJson()`
+ * for text formats: cells are truncated first, then rows are dropped from the
+ * end until the rendered text fits.
+ */
+export function formatRowsWithin(rows: unknown[], render: (rows: unknown[]) => string, hint = DEFAULT_HINT): string {
+  const report: BudgetReport = { arrays: new Map(), truncatedCells: 0 };
+  let kept = trimValue(rows, 'rows', report) as unknown[];
+  let text = render(kept);
+  while (budget.maxBytes && kept.length > 0 && Buffer.byteLength(text) > payloadBytes()) {
+    const ratio = payloadBytes() / Buffer.byteLength(text);
+    kept = kept.slice(0, Math.max(0, Math.min(kept.length - 1, Math.floor(kept.length * ratio * 0.9))));
+    report.arrays.set('rows', { shown: kept.length, total: rows.length });
+    text = render(kept);
+  }
+  return withBudgetNote(text, report, hint);
+}
+
+function withBudgetNote(text: string, report: BudgetReport, hint: string): string {
+  const omitted: string[] = [];
+  for (const [path, { shown, total }] of report.arrays) {
+    omitted.push(`${path}: ${shown} of ${total} items shown`);
+  }
+  if (report.truncatedCells > 0) {
+    omitted.push(`${report.truncatedCells} values truncated to ${budget.maxCellLength} characters`);
+  }
+  return omitted.length > 0 ? `${text}\n\n[Output budget: ${omitted.join('; ')}. ${hint}]` : text;
+}
+
+/** Final byte cap for any tool response, applied by the request handler */
+export function capToolOutput(output: ToolOutput): ToolOutput {
+  if (!budget.maxBytes) {
+    return output;
+  }
+  const totalBytes = output.content.reduce((sum, item) => sum + Buffer.byteLength(item.text), 0);
+  if (totalBytes <= budget.maxBytes) {
+    return output;
+  }
+
+  let remaining = budget.maxBytes;
+  const content: ToolOutput['content'] = [];
+  for (const item of output.content) {
+    if (remaining <= 0) {
+      break;
+    }
+    const bytes = Buffer.from(item.text);
+    // Cutting mid-character leaves a replacement character at the end
+    const text = bytes.length <= remaining ? item.text : bytes.subarray(0, remaining).toString('utf8').replace(/\uFFFD$/, '');
+    remaining -= bytes.length;
+    content.push({ type: 'text', text });
+  }
+  const last = content[content.length - 1];
+  last.text += `\n\n[Response truncated: ${budget.maxBytes} of ${totalBytes} bytes shown. Narrow the request or page through the results to see the rest.]`;
+  return { ...output, content };
+}
@@ -0,0 +1,402 @@
+import type { DatabaseConnection } from './connection.js';
+
+/**
+ * Catalog queries shared by the listing operations of the schema, index,
+ * constraint and function tools and by `sierra_schema_diff`, so a diff sees
+ * objects exactly as those tools report them.
+ */
+
+export interface TableInfo {
+  tableName: string;
+  columns: ColumnInfo[];
+  constraints: ConstraintInfo[];
+  indexes: IndexInfo[];
+}
+
+export interface ColumnInfo {
+  name: string;
+  dataType: string;
+  nullable: boolean;
+  default: string | null;
+  /** Identity columns: whether values are generated ALWAYS or BY DEFAULT */
+  identity: 'ALWAYS' | 'BY DEFAULT' | null;
+  /** Generated columns: the expression, and whether values are STORED or computed when read (VIRTUAL) */
+  generated: { expression: string; kind: 'STORED' | 'VIRTUAL' } | null;
+}
+
+export interface ConstraintInfo {
+  name: string;
+  type: string;
+  definition: string;
+}
+
+export interface IndexInfo {
+  name: string;
+  definition: string;
+}
+
+/** Rows of the listing operations; type aliases rather than interfaces so `formatRows()` accepts them */
+export type IndexRow = {
+  index_name: string;
+  table_name: string;
+  schema_name: string;
+  index_type: string;
+  index_definition: string;
+  index_size_bytes: string;
+  index_size: string;
+  scans?: string | null;
+  tuples_read?: string | null;
+  tuples_fetched?: string | null;
+};
+
+export type ConstraintRow = {
+  constraint_name: string;
+  schema_name: string;
+  table_name: string;
+  constraint_type: string;
+  definition: string;
+  is_deferrable: boolean;
+  is_deferred: boolean;
+};
+
+export type FunctionRow = {
+  schema_name: string;
+  function_name: string;
+  parameters: string;
+  return_type: string;
+  language: string;
+  volatility: string;
+  security: string;
+  definition: string;
+};
+
+export type ViewRow = {
+  schema_name: string;
+  view_name: string;
+  view_type: 'view' | 'materialized view';
+  owner: string;
+  definition: string;
+  /** Tables, views and functions the view reads, schema-qualified */
+  depends_on: string[];
+  /** Views that read this one */
+  used_by: string[];
+  /** Materialized views only: whether it holds data (false after WITH NO DATA) */
+  is_populated: boolean | null;
+  /** Materialized views only: size as of the last refresh, indexes included */
+  size_bytes: string | null;
+  size: string | null;
+  estimated_rows: string | null;
+  /** Materialized views only: a unique index that allows REFRESH ... CONCURRENTLY */
+  concurrent_refresh_index: string | null;
+};
+
+export const CONSTRAINT_TYPES = ['PRIMARY KEY', 'FOREIGN KEY', 'UNIQUE', 'CHECK'] as const;
+
+export type ConstraintType = typeof CONSTRAINT_TYPES[number];
+
+/** Base tables of `schema`, by name */
+export async function listTables(db: DatabaseConnection, schema = 'public'): Promise<string[]> {
+  const tables = await db.query<{ table_name: string }>(
+    `SELECT table_name
+     FROM information_schema.tables
+     WHERE table_schema = $1 AND table_type = 'BASE TABLE'
+     ORDER BY table_name`,
+    [schema]
+  );
+  return tables.map(t => t.table_name);
+}
+
+export async function getTableInfo(db: DatabaseConnection, tableName: string, schema = 'public'): Promise<TableInfo> {
+  const columns = await db.query<{
+    column_name: string;
+    data_type: string;
+    nullable: boolean;
+    column_default: string | null;
+    identity: string;
+    generated: string;
+    generation_expression: string | null;
+  }>(
+    `SELECT
+       a.attname as column_name,
+       format_type(a.atttypid, a.atttypmod) as data_type,
+       NOT a.attnotnull as nullable,
+       CASE WHEN a.attgenerated = '' THEN pg_get_expr(d.adbin, d.adrelid) END as column_default,
+       a.attidentity as identity,
+       a.attgenerated as generated,
+       CASE WHEN a.attgenerated <> '' THEN pg_get_expr(d.adbin, d.adrelid) END as generation_expression
+     FROM pg_attribute a
+     JOIN pg_class c ON c.oid = a.attrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+     WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'p', 'v', 'm', 'f') AND a.attnum > 0 AND NOT a.attisdropped
+     ORDER BY a.attnum`,
+    [schema, tableName]
+  );
+
+  const constraints = await db.query<{
+    constraint_name: string;
+    constraint_type: string;
+    definition: string;
+  }>(
+    `SELECT
+       c.conname as constraint_name,
+       CASE
+         WHEN c.contype = 'p' THEN 'PRIMARY KEY'
+         WHEN c.contype = 'f' THEN 'FOREIGN KEY'
+         WHEN c.contype = 'u' THEN 'UNIQUE'
+         WHEN c.contype = 'c' THEN 'CHECK'
+         ELSE c.contype::text
+       END as constraint_type,
+       pg_get_constraintdef(c.oid) as definition
+     FROM pg_constraint c
+     JOIN pg_namespace n ON n.oid = c.connamespace
+     JOIN pg_class cl ON cl.oid = c.conrelid
+     WHERE n.nspname = $1 AND cl.relname = $2`,
+    [schema, tableName]
+  );
+
+  const indexes = await db.query<{
+    indexname: string;
+    indexdef: string;
+  }>(
+    `SELECT
+       i.relname as indexname,
+       pg_get_indexdef(i.oid) as indexdef
+     FROM pg_index x
+     JOIN pg_class c ON c.oid = x.indrelid
+     JOIN pg_class i ON i.oid = x.indexrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE c.relkind = 'r' AND n.nspname = $1 AND c.relname = $2`,
+    [schema, tableName]
+  );
+
+  return {
+    tableName,
+    columns: columns.map(col => ({
+      name: col.column_name,
+      dataType: col.data_type,
+      nullable: col.nullable,
+      default: col.column_default,
+      identity: col.identity === 'a' ? 'ALWAYS' : col.identity === 'd' ? 'BY DEFAULT' : null,
+      generated: col.generated && col.generation_expression !== null
+        ? { expression: col.generation_expression, kind: col.generated === 'v' ? 'VIRTUAL' : 'STORED' }
+        : null
+    })),
+    constraints: constraints.map(con => ({
+      name: con.constraint_name,
+      type: con.constraint_type,
+      definition: con.definition
+    })),
+    indexes: indexes.map(idx => ({
+      name: idx.indexname,
+      definition: idx.indexdef
+    }))
+  };
+}
+
+/** Indexes of `schema`, optionally of one table and with usage statistics */
+export async function listIndexes(
+  db: DatabaseConnection,
+  options: { schema?: string; tableName?: string; includeStats?: boolean } = {}
+): Promise<IndexRow[]> {
+  const { schema = 'public', tableName, includeStats } = options;
+  let query = `
+    SELECT
+      i.relname as index_name,
+      t.relname as table_name,
+      n.nspname as schema_name,
+      am.amname as index_type,
+      pg_get_indexdef(i.oid) as index_definition,
+      pg_relation_size(i.oid) as index_size_bytes,
+      pg_size_pretty(pg_relation_size(i.oid)) as index_size
+  `;
+
+  if (includeStats) {
+    query += `,
+      s.idx_scan as scans,
+      s.idx_tup_read as tuples_read,
+      s.idx_tup_fetch as tuples_fetched
+    `;
+  }
+
+  query += `
+    FROM pg_index x
+    JOIN pg_class i ON i.oid = x.indexrelid
+    JOIN pg_class t ON t.oid = x.indrelid
+    JOIN pg_namespace n ON n.oid = t.relnamespace
+    JOIN pg_am am ON am.oid = i.relam
+  `;
+
+  if (includeStats) {
+    query += `
+      LEFT JOIN pg_stat_user_indexes s ON s.indexrelid = i.oid
+    `;
+  }
+
+  query += ` WHERE n.nspname = $1`;
+  const params: unknown[] = [schema];
+
+  if (tableName) {
+    query += ` AND t.relname = $2`;
+    params.push(tableName);
+  }
+
+  query += ` ORDER BY t.relname, i.relname`;
+
+  return db.query<IndexRow>(query, params);
+}
+
+/** Constraints of the tables of `schema`, optionally of one table or type */
+export async function listConstraints(
+  db: DatabaseConnection,
+  options: { schema?: string; tableName?: string; constraintType?: ConstraintType } = {}
+): Promise<ConstraintRow[]> {
+  const { schema = 'public', tableName, constraintType } = options;
+  let query = `
+    SELECT
+      c.conname as constraint_name,
+      n.nspname as schema_name,
+      t.relname as table_name,
+      CASE c.contype
+        WHEN 'p' THEN 'PRIMARY KEY'
+        WHEN 'f' THEN 'FOREIGN KEY'
+        WHEN 'u' THEN 'UNIQUE'
+        WHEN 'c' THEN 'CHECK'
+        WHEN 'x' THEN 'EXCLUSION'
+        ELSE c.contype::text
+      END as constraint_type,
+      pg_get_constraintdef(c.oid) as definition,
+      c.condeferrable as is_deferrable,
+      c.condeferred as is_deferred
+    FROM pg_constraint c
+    JOIN pg_namespace n ON n.oid = c.connamespace
+    JOIN pg_class t ON t.oid = c.conrelid
+    WHERE n.nspname = $1
+  `;
+
+  const params: unknown[] = [schema];
+
+  if (tableName) {
+    query += ` AND t.relname = $${params.length + 1}`;
+    params.push(tableName);
+  }
+
+  if (constraintType) {
+    const typeMap: Record<ConstraintType, string> = {
+      'PRIMARY KEY': 'p',
+      'FOREIGN KEY': 'f',
+      'UNIQUE': 'u',
+      'CHECK': 'c'
+    };
+    query += ` AND c.contype = $${params.length + 1}`;
+    params.push(typeMap[constraintType]);
+  }
+
+  query += ` ORDER BY t.relname, c.conname`;
+
+  return db.query<ConstraintRow>(query, params);
+}
+
+/** Functions of `schema` (not procedures or aggregates), optionally every overload of one name */
+export async function listFunctions(
+  db: DatabaseConnection,
+  options: { schema?: string; functionName?: string } = {}
+): Promise<FunctionRow[]> {
+  const { schema = 'public', functionName } = options;
+  let query = `
+    SELECT
+      n.nspname as schema_name,
+      p.proname as function_name,
+      pg_get_function_identity_arguments(p.oid) as parameters,
+      pg_get_function_result(p.oid) as return_type,
+      l.lanname as language,
+      CASE p.provolatile
+        WHEN 'i' THEN 'IMMUTABLE'
+        WHEN 's' THEN 'STABLE'
+        WHEN 'v' THEN 'VOLATILE'
+      END as volatility,
+      CASE WHEN p.prosecdef THEN 'DEFINER' ELSE 'INVOKER' END as security,
+      pg_get_functiondef(p.oid) as definition
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    JOIN pg_language l ON l.oid = p.prolang
+    WHERE n.nspname = $1
+      AND p.prokind = 'f'
+  `;
+
+  const params: unknown[] = [schema];
+
+  if (functionName) {
+    query += ` AND p.proname = $2`;
+    params.push(functionName);
+  }
+
+  query += ` ORDER BY p.proname`;
+
+  return db.query<FunctionRow>(query, params);
+}
+
+/** Views and materialized views of `schema`, optionally one of them, with their dependencies */
+export async function listViews(db: DatabaseConnection, options: { schema?: string; viewName?: string } = {}): Promise<ViewRow[]> {
+  const { schema = 'public', viewName } = options;
+  let query = `
+    SELECT
+      n.nspname as schema_name,
+      c.relname as view_name,
+      CASE c.relkind WHEN 'm' THEN 'materialized view' ELSE 'view' END as view_type,
+      pg_get_userbyid(c.relowner) as owner,
+      pg_get_viewdef(c.oid, true) as definition,
+      ARRAY(
+        SELECT format('%I.%I', dn.nspname, dc.relname)
+        FROM pg_rewrite r
+        JOIN pg_depend d ON d.classid = 'pg_rewrite'::regclass AND d.objid = r.oid AND d.refclassid = 'pg_class'::regclass
+        JOIN pg_class dc ON dc.oid = d.refobjid
+        JOIN pg_namespace dn ON dn.oid = dc.relnamespace
+        WHERE r.ev_class = c.oid AND dc.oid <> c.oid
+        UNION
+        SELECT format('%I.%I(%s)', pn.nspname, p.proname, pg_get_function_identity_arguments(p.oid))
+        FROM pg_rewrite r
+        JOIN pg_depend d ON d.classid = 'pg_rewrite'::regclass AND d.objid = r.oid AND d.refclassid = 'pg_proc'::regclass
+        JOIN pg_proc p ON p.oid = d.refobjid
+        JOIN pg_namespace pn ON pn.oid = p.pronamespace
+        WHERE r.ev_class = c.oid AND pn.nspname NOT IN ('pg_catalog', 'information_schema')
+        ORDER BY 1
+      ) as depends_on,
+      ARRAY(
+        SELECT DISTINCT format('%I.%I', un.nspname, uc.relname)
+        FROM pg_depend d
+        JOIN pg_rewrite r ON d.classid = 'pg_rewrite'::regclass AND d.objid = r.oid
+        JOIN pg_class uc ON uc.oid = r.ev_class
+        JOIN pg_namespace un ON un.oid = uc.relnamespace
+        WHERE d.refclassid = 'pg_class'::regclass AND d.refobjid = c.oid AND uc.oid <> c.oid
+        ORDER BY 1
+      ) as used_by,
+      CASE WHEN c.relkind = 'm' THEN c.relispopulated END as is_populated,
+      CASE WHEN c.relkind = 'm' THEN pg_total_relation_size(c.oid) END as size_bytes,
+      CASE WHEN c.relkind = 'm' THEN pg_size_pretty(pg_total_relation_size(c.oid)) END as size,
+      CASE WHEN c.relkind = 'm' AND c.reltuples >= 0 THEN c.reltuples::bigint END as estimated_rows,
+      CASE WHEN c.relkind = 'm' THEN (
+        SELECT i.relname
+        FROM pg_index x
+        JOIN pg_class i ON i.oid = x.indexrelid
+        WHERE x.indrelid = c.oid AND x.indisunique AND x.indisvalid
+          AND x.indpred IS NULL AND x.indexprs IS NULL
+        ORDER BY i.relname
+        LIMIT 1
+      ) END as concurrent_refresh_index
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = $1 AND c.relkind IN ('v', 'm')
+  `;
+
+  const params: unknown[] = [schema];
+
+  if (viewName) {
+    query += ` AND c.relname = $2`;
+    params.push(viewName);
+  }
+
+  query += ` ORDER BY c.relname`;
+
+  return db.query<ViewRow>(query, params);
+}
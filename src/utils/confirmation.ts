@@ -0,0 +1,138 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { ToolOutput } from '../types/tool.js';
+import type { DatabaseConnection } from './connection.js';
+import type { DatabaseSession } from './session.js';
+
+/** How long a confirmation token stays valid */
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/** A destructive action as shown in the preview */
+export interface DestructiveAction {
+  tool: string;
+  operation: string;
+  sql: string[];
+  parameters?: unknown[];
+  affectedObjects: string[];
+}
+
+interface PendingConfirmation {
+  sessionId: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+let confirmationRequired = false;
+const pending = new Map<string, PendingConfirmation>();
+
+export function setConfirmationRequired(required: boolean): void {
+  confirmationRequired = required;
+}
+
+export function isConfirmationRequired(): boolean {
+  return confirmationRequired;
+}
+
+function fingerprint(action: DestructiveAction): string {
+  return createHash('sha256')
+    .update(JSON.stringify([action.tool, action.operation, action.sql, action.parameters ?? []]))
+    .digest('hex');
+}
+
+function purgeExpired(now: number): void {
+  for (const [token, entry] of pending) {
+    if (entry.expiresAt <= now) {
+      pending.delete(token);
+    }
+  }
+}
+
+/**
+ * Two-phase execution for destructive operations. Returns null when the
+ * action may run: confirmation is disabled, or `token` was issued to this
+ * session for exactly this SQL and has not expired. Otherwise returns a
+ * preview with a fresh single-use token that the caller sends back as
+ * `confirmationToken` to execute the action.
+ */
+export async function requireConfirmation(
+  session: DatabaseSession,
+  action: DestructiveAction,
+  token: string | undefined,
+  estimateRows?: () => Promise<number | undefined>
+): Promise<ToolOutput | null> {
+  if (!confirmationRequired) {
+    return null;
+  }
+
+  const now = Date.now();
+  purgeExpired(now);
+  const actionFingerprint = fingerprint(action);
+
+  if (token) {
+    const entry = pending.get(token);
+    pending.delete(token);
+    if (entry && entry.sessionId === session.id && entry.fingerprint === actionFingerprint) {
+      return null;
+    }
+  }
+
+  let estimatedRows: number | undefined;
+  try {
+    estimatedRows = estimateRows ? await estimateRows() : undefined;
+  } catch (error) {
+    console.error(`Could not estimate rows affected by ${action.tool} ${action.operation}:`, error);
+  }
+
+  const newToken = randomBytes(9).toString('base64url');
+  pending.set(newToken, { sessionId: session.id, fingerprint: actionFingerprint, expiresAt: now + CONFIRMATION_TTL_MS });
+
+  const preview = {
+    confirmationRequired: true,
+    tool: action.tool,
+    operation: action.operation,
+    sql: action.sql,
+    parameters: action.parameters,
+    affectedObjects: action.affectedObjects,
+    estimatedRows,
+    confirmationToken: newToken,
+    expiresAt: new Date(now + CONFIRMATION_TTL_MS).toISOString()
+  };
+  const intro = token
+    ? 'The confirmation token is invalid, expired, or was issued for a different action. Nothing was executed.'
+    : `${action.tool} ${action.operation} is destructive and was not executed.`;
+
+  return {
+    content: [{
+      type: 'text',
+      text: `${intro}\n\nPreview:\n${JSON.stringify(preview, null, 2)}\n\nTo execute it, call ${action.tool} again with the same arguments and confirmationToken "${newToken}" within ${CONFIRMATION_TTL_MS / 60000} minutes.`
+    }],
+    isError: token ? true : undefined
+  };
+}
+
+interface PlanNode {
+  'Node Type': string;
+  'Plan Rows': number;
+  Plans?: PlanNode[];
+}
+
+/** Planner estimate of the rows a DELETE/UPDATE will touch */
+export async function estimateStatementRows(db: DatabaseConnection, sql: string, params: unknown[] = []): Promise<number | undefined> {
+  const rows = await db.query<{ 'QUERY PLAN': Array<{ Plan: PlanNode }> }>(`EXPLAIN (FORMAT JSON) ${sql}`, params);
+  let node = rows[0]?.['QUERY PLAN']?.[0]?.Plan;
+  while (node && node['Node Type'] === 'ModifyTable' && node.Plans?.length) {
+    node = node.Plans[0];
+  }
+  return node?.['Plan Rows'];
+}
+
+/** Row estimate from the table statistics (undefined if never analyzed), without scanning the table */
+export async function estimateTableRows(db: DatabaseConnection, schema: string, table: string): Promise<number | undefined> {
+  const row = await db.queryOne<{ estimate: string | null }>(
+    `SELECT CASE WHEN c.reltuples < 0 THEN NULL ELSE c.reltuples::bigint END AS estimate
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = $1 AND c.relname = $2`,
+    [schema, table]
+  );
+  return row?.estimate != null ? Number(row.estimate) : undefined;
+}
@@ -1,36 +1,92 @@
 import pkg from 'pg';
-import type { Pool as PoolType, PoolClient as PoolClientType, PoolConfig, QueryResultRow } from 'pg';
+import type { FieldDef, Pool as PoolType, PoolClient as PoolClientType, PoolConfig, QueryResult, QueryResultRow } from 'pg';
+import { getProfileOptions } from './profiles.js';
+import { isWriteCommand, recordSql } from './audit.js';
+import { CopyFromStdin } from './copy.js';
+import { RAW_TYPES, resolveTypes, serializeResult, type ByteaEncoding, type SerializedResult } from './serialize.js';
 const { Pool } = pkg;
 
 const poolCache = new Map<string, PoolType>();
 
-interface ConnectionOptions {
+interface QueryConfig {
+  text: string;
+  values: unknown[];
+  timeout?: number;
+  types?: typeof RAW_TYPES;
+  rowMode?: 'array';
+}
+let readOnlyMode = false;
+
+/** One statement's outcome as PostgreSQL reported it */
+export interface StatementResult<T extends QueryResultRow = Record<string, unknown>> {
+  rows: T[];
+  fields: FieldDef[];
+  /** Command tag, e.g. `UPDATE` or `CREATE TABLE` */
+  command: string;
+  /** Rows changed by INSERT/UPDATE/DELETE/MERGE/COPY, rows returned otherwise */
+  rowCount: number;
+}
+
+/** Command tag and row count of the last statement run by `queryRaw()`, and of every statement */
+export interface RawQueryOutcome {
+  command: string;
+  rowCount: number;
+  statements: Array<Pick<StatementResult, 'command' | 'rowCount'>>;
+}
+
+/** Rows changed by the statements that write rows, ignoring rows returned by the others */
+export function rowsAffected(results: Array<Pick<StatementResult, 'command' | 'rowCount'>>): number {
+  return results.reduce((sum, result) => sum + (isWriteCommand(result.command) ? result.rowCount : 0), 0);
+}
+
+/**
+ * A client checked out by another connection, with an open transaction, that
+ * connections can borrow one at a time (see `SessionTransaction`)
+ */
+export interface SharedClient {
+  readonly owner: DatabaseConnection;
+  /** Wait until the client is free; resolves with the function that hands it back */
+  acquire(): Promise<() => void>;
+}
+
+export interface ConnectionOptions {
   maxConnections?: number;
   idleTimeoutMillis?: number;
   connectionTimeoutMillis?: number;
   statementTimeout?: number;
   queryTimeout?: number;
-  ssl?: boolean | { rejectUnauthorized: boolean };
+  ssl?: boolean | { rejectUnauthorized: boolean; ca?: string; cert?: string; key?: string };
 }
 
+/**
+ * A database connection scoped to a single tool invocation. Pools are shared
+ * per connection string through `poolCache`, but each instance checks out its
+ * own client, so concurrent invocations never share (or release) each other's
+ * client. Instances are handed out by a `DatabaseSession`.
+ */
 export class DatabaseConnection {
-  private static instance: DatabaseConnection;
   private pool: PoolType | null = null;
   private client: PoolClientType | null = null;
   private connectionString = '';
   private lastError: Error | null = null;
   private connectionOptions: ConnectionOptions = {};
+  /** `transaction()` calls in progress; nested ones use savepoints */
+  private transactionDepth = 0;
+  /** Hands a borrowed client back to its owner */
+  private returnShared: (() => void) | null = null;
+
+  /**
+   * With `shared`, the connection borrows that client on `connect()` instead
+   * of checking one out, and its transactions are savepoints in the owner's.
+   */
+  constructor(
+    private readonly onDisconnect?: (connection: DatabaseConnection) => void,
+    private readonly shared?: SharedClient
+  ) {}
+
+  public async connect(connectionString?: string, connectOptions?: ConnectionOptions): Promise<void> {
+    let createdPool = false;
 
-  private constructor() {}
-
-  public static getInstance(): DatabaseConnection {
-    if (!DatabaseConnection.instance) {
-      DatabaseConnection.instance = new DatabaseConnection();
-    }
-    return DatabaseConnection.instance;
-  }
-
-  public async connect(connectionString?: string, options: ConnectionOptions = {}): Promise<void> {
     try {
       const connString = connectionString || process.env.POSTGRES_CONNECTION_STRING;
 
@@ -38,14 +94,21 @@ export class DatabaseConnection {
         throw new Error('No connection string provided and POSTGRES_CONNECTION_STRING environment variable is not set');
       }
 
-      if (this.pool && this.connectionString === connString) {
+      if (this.pool && this.client && this.connectionString === connString) {
+        return;
+      }
+
+      if (this.shared) {
+        await this.borrow(this.shared, connString);
         return;
       }
 
       if (this.pool) {
-        await this.disconnect();
+        this.releaseClient();
       }
 
+      // Connection strings that belong to a named profile pick up its options
+      const options = connectOptions ?? getProfileOptions(connString) ?? {};
       this.connectionString = connString;
       this.connectionOptions = options;
 
@@ -62,10 +125,11 @@ export class DatabaseConnection {
         };
 
         this.pool = new Pool(config);
+        createdPool = true;
 
+        // The pool outlives this connection, so only log here
         this.pool.on('error', (err: Error) => {
           console.error('Unexpected error on idle client', err);
-          this.lastError = err;
         });
 
         poolCache.set(connString, this.pool);
@@ -77,6 +141,11 @@ export class DatabaseConnection {
         await this.client.query(`SET statement_timeout = ${options.statementTimeout}`);
       }
 
+      // Re-applied on every checkout so a pooled client can never leave read-only mode
+      if (readOnlyMode) {
+        await this.client.query('SET default_transaction_read_only = on');
+      }
+
       await this.client.query('SELECT 1');
 
     } catch (error) {
@@ -87,21 +156,50 @@ export class DatabaseConnection {
         this.client = null;
       }
 
-      if (this.pool) {
+      // Only tear down a pool this call created and nobody else has picked up
+      if (this.pool && createdPool && this.pool.totalCount === 0 && poolCache.get(this.connectionString) === this.pool) {
         poolCache.delete(this.connectionString);
         await this.pool.end();
-        this.pool = null;
       }
+      this.pool = null;
+      this.connectionString = '';
 
       throw new Error(`Failed to connect to database: ${this.lastError.message}`);
     }
   }
 
   public async disconnect(): Promise<void> {
-    if (this.client) {
+    this.releaseClient();
+    this.onDisconnect?.(this);
+  }
+
+  private async borrow(shared: SharedClient, connString: string): Promise<void> {
+    const { owner } = shared;
+    if (owner.connectionString !== connString) {
+      throw new Error('A transaction is open in this session on another connection; commit or roll it back with sierra_transaction first');
+    }
+    this.returnShared = await shared.acquire();
+    if (!owner.client || !owner.pool) {
+      this.returnShared();
+      this.returnShared = null;
+      throw new Error('The session transaction has ended');
+    }
+    this.client = owner.client;
+    this.pool = owner.pool;
+    this.connectionString = connString;
+    this.connectionOptions = owner.connectionOptions;
+    this.transactionDepth = 1;
+  }
+
+  private releaseClient(): void {
+    if (this.returnShared) {
+      this.returnShared();
+      this.returnShared = null;
+    } else if (this.client) {
       this.client.release();
-      this.client = null;
     }
+    this.client = null;
+    this.pool = null;
     this.connectionString = '';
   }
 
@@ -110,25 +208,140 @@ export class DatabaseConnection {
     values: unknown[] = [],
     options: { timeout?: number } = {}
   ): Promise<T[]> {
+    const results = await this.queryResults<T>(text, values, options);
+    return results[results.length - 1]?.rows ?? [];
+  }
+
+  /**
+   * Run SQL text and return, for each of its statements, the rows with the
+   * command tag, row count and field metadata. For reporting the impact of
+   * statements an agent sent; see `rowsAffected()`.
+   */
+  public async queryResults<T extends QueryResultRow = Record<string, unknown>>(
+    text: string,
+    values: unknown[] = [],
+    options: { timeout?: number } = {}
+  ): Promise<StatementResult<T>[]> {
+    const results = await this.runStatements<T>({ text, values }, options);
+    return results.map(result => ({
+      rows: result.rows ?? [],
+      fields: result.fields ?? [],
+      command: result.command ?? '',
+      rowCount: result.rowCount ?? 0
+    }));
+  }
+
+  /**
+   * Run a statement and return its rows losslessly encoded, with the name and
+   * PostgreSQL type of every column (see `serialize.ts`). For results shown to
+   * the agent; internal catalog queries keep using `query()`.
+   */
+  public async querySerialized(
+    text: string,
+    values: unknown[] = [],
+    options: { timeout?: number; bytea?: ByteaEncoding } = {}
+  ): Promise<SerializedResult & RawQueryOutcome> {
+    const { fields, rows, ...outcome } = await this.queryRaw(text, values, options);
+    if (!this.pool) {
+      throw new Error('Not connected to database');
+    }
+    const types = await resolveTypes((sql, params) => this.query(sql, params), this.pool, fields.map(field => field.dataTypeID));
+    return { ...serializeResult(fields, rows, types, options.bytea), ...outcome };
+  }
+
+  /**
+   * Run a statement and return its rows as arrays of the text PostgreSQL sent,
+   * `null` for NULL, with its command tag and row count (rows changed by
+   * INSERT/UPDATE/DELETE/MERGE, rows returned otherwise). SQL text with
+   * several statements gives the rows of the last one that returns any, and
+   * the command tag and row count of each in `statements`.
+   */
+  public async queryRaw(
+    text: string,
+    values: unknown[] = [],
+    options: { timeout?: number } = {}
+  ): Promise<{ fields: FieldDef[]; rows: Array<Array<string | null>> } & RawQueryOutcome> {
+    const results = await this.runStatements({ text, values, types: RAW_TYPES, rowMode: 'array' }, options);
+
+    const last = results[results.length - 1];
+    const returning = results.filter(result => (result.fields ?? []).length > 0).pop() ?? last;
+    return {
+      fields: returning?.fields ?? [],
+      rows: (returning?.rows ?? []) as unknown as Array<Array<string | null>>,
+      command: last?.command ?? '',
+      rowCount: last?.rowCount ?? 0,
+      statements: results.map(result => ({ command: result.command ?? '', rowCount: result.rowCount ?? 0 }))
+    };
+  }
+
+  /** Run `queryConfig` on this connection's client with the query timeout, one result per statement */
+  private async runStatements<T extends QueryResultRow>(
+    queryConfig: QueryConfig,
+    options: { timeout?: number }
+  ): Promise<QueryResult<T>[]> {
     if (!this.client || !this.pool) {
       throw new Error('Not connected to database');
     }
 
+    if (options.timeout || this.connectionOptions.queryTimeout) {
+      queryConfig.timeout = options.timeout || this.connectionOptions.queryTimeout;
+    }
+
     try {
-      const queryConfig: { text: string; values: unknown[]; timeout?: number } = {
-        text,
-        values
-      };
+      const executed: QueryResult<T> | QueryResult<T>[] = await this.auditedQuery<T>(this.client, queryConfig);
+      return Array.isArray(executed) ? executed : [executed];
+    } catch (error) {
+      this.lastError = error instanceof Error ? error : new Error(String(error));
+      throw new Error(`Query failed: ${this.lastError.message}`);
+    }
+  }
 
-      if (options.timeout || this.connectionOptions.queryTimeout) {
-        queryConfig.timeout = options.timeout || this.connectionOptions.queryTimeout;
-      }
+  /**
+   * Run `COPY ... FROM STDIN` with the text chunks of `source` as its data and
+   * return the number of rows copied. Errors are rethrown as PostgreSQL
+   * reported them, so `where` still names the line that failed.
+   */
+  public async copyFrom(text: string, source: Iterable<string> | AsyncIterable<string>): Promise<number> {
+    if (!this.client || !this.pool) {
+      throw new Error('Not connected to database');
+    }
 
-      const result = await this.client.query<T>(queryConfig);
-      return result.rows;
+    const started = Date.now();
+    try {
+      const rowCount = await this.client.query(new CopyFromStdin(text, source)).done;
+      recordSql({ sql: text, parameters: [], durationMs: Date.now() - started, command: 'COPY', rowCount });
+      return rowCount;
     } catch (error) {
       this.lastError = error instanceof Error ? error : new Error(String(error));
-      throw new Error(`Query failed: ${this.lastError.message}`);
+      recordSql({ sql: text, parameters: [], durationMs: Date.now() - started, error: this.lastError.message });
+      throw error;
+    }
+  }
+
+  /** Run a statement on `client` and record it in the audit log */
+  private async auditedQuery<T extends QueryResultRow>(
+    client: PoolClientType,
+    queryConfig: QueryConfig
+  ): Promise<QueryResult<T>> {
+    const started = Date.now();
+    try {
+      const result = await client.query<T>(queryConfig);
+      recordSql({
+        sql: queryConfig.text,
+        parameters: queryConfig.values,
+        durationMs: Date.now() - started,
+        command: result.command,
+        rowCount: result.rowCount
+      });
+      return result;
+    } catch (error) {
+      recordSql({
+        sql: queryConfig.text,
+        parameters: queryConfig.values,
+        durationMs: Date.now() - started,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
     }
   }
 
@@ -141,20 +354,51 @@ export class DatabaseConnection {
     return rows.length > 0 ? rows[0] : null;
   }
 
-  public async transaction<T>(callback: (client: PoolClientType) => Promise<T>): Promise<T> {
+  /**
+   * Run `callback` in a transaction: committed when it resolves, rolled back
+   * when it throws, and always rolled back with `rollback` (dry runs). Inside
+   * another `transaction()` call or a session transaction the block is a
+   * savepoint instead, so helpers that use transactions can run within them.
+   * `readOnly` lasts until the savepoint is rolled back, so it is meant for
+   * blocks that roll back.
+   */
+  public async transaction<T>(
+    callback: (client: PoolClientType) => Promise<T>,
+    options: { rollback?: boolean; readOnly?: boolean } = {}
+  ): Promise<T> {
     if (!this.client || !this.pool) {
       throw new Error('Not connected to database');
     }
 
+    const client = this.client;
+    // Statements the callback runs on the raw client are audited as well
+    const auditedClient = new Proxy(client, {
+      get: (target, property, receiver) => property === 'query'
+        ? (text: string, values: unknown[] = []) => this.auditedQuery(target, { text, values })
+        : Reflect.get(target, property, receiver)
+    });
+
+    const savepoint = this.transactionDepth > 0 ? `sierra_transaction_${this.transactionDepth}` : null;
+    const begin = savepoint ? `SAVEPOINT ${savepoint}` : 'BEGIN';
+    const commit = savepoint ? `RELEASE SAVEPOINT ${savepoint}` : 'COMMIT';
+    const rollback = savepoint ? `ROLLBACK TO SAVEPOINT ${savepoint}` : 'ROLLBACK';
+
+    this.transactionDepth++;
     try {
-      await this.client.query('BEGIN');
-      const result = await callback(this.client);
-      await this.client.query('COMMIT');
+      await this.auditedQuery(client, { text: begin, values: [] });
+      if (options.readOnly) {
+        await this.auditedQuery(client, { text: 'SET TRANSACTION READ ONLY', values: [] });
+      }
+      const result = await callback(auditedClient);
+      await this.auditedQuery(client, { text: options.rollback ? rollback : commit, values: [] });
       return result;
     } catch (error) {
-      await this.client.query('ROLLBACK');
+      await this.auditedQuery(client, { text: rollback, values: [] });
       this.lastError = error instanceof Error ? error : new Error(String(error));
-      throw new Error(`Transaction failed: ${this.lastError.message}`);
+      // The outermost transaction reports the failure
+      throw savepoint ? this.lastError : new Error(`Transaction failed: ${this.lastError.message}`);
+    } finally {
+      this.transactionDepth--;
     }
   }
 
@@ -170,6 +414,14 @@ export class DatabaseConnection {
     return this.pool !== null && this.client !== null;
   }
 
+  public static setReadOnly(enabled: boolean): void {
+    readOnlyMode = enabled;
+  }
+
+  public static isReadOnly(): boolean {
+    return readOnlyMode;
+  }
+
   public static async cleanupPools(): Promise<void> {
     for (const [connectionString, pool] of poolCache.entries()) {
       try {
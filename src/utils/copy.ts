@@ -0,0 +1,96 @@
+import { once } from 'node:events';
+import type { Connection, Submittable } from 'pg';
+
+/** The COPY sub-protocol messages pg's Connection sends but its type definitions leave out */
+interface CopyConnection extends Connection {
+  sendCopyFromChunk(chunk: Buffer): void;
+  endCopyFrom(): void;
+  sendCopyFail(message: string): void;
+}
+
+/** Bytes collected from the source before a CopyData message is sent */
+const CHUNK_BYTES = 64 * 1024;
+
+/**
+ * `COPY ... FROM STDIN` as a query pg's client can run (`client.query(copy)`):
+ * once the server asks for data, the chunks of `source` are sent, waiting
+ * for the socket to drain, and `done` resolves with the number of rows
+ * copied. Errors are PostgreSQL's own, so callers can read `where` (the
+ * line of the data that failed).
+ */
+export class CopyFromStdin implements Submittable {
+  public readonly done: Promise<number>;
+  private resolve!: (rowCount: number) => void;
+  private reject!: (error: Error) => void;
+  private rowCount = 0;
+  private failed = false;
+
+  constructor(public readonly text: string, private readonly source: Iterable<string> | AsyncIterable<string>) {
+    this.done = new Promise<number>((resolve, reject) => {
+      this.resolve = resolve;
+      this.reject = reject;
+    });
+  }
+
+  submit(connection: Connection): void {
+    connection.query(this.text);
+  }
+
+  handleCopyInResponse(connection: Connection): void {
+    void this.pump(connection as CopyConnection);
+  }
+
+  private async pump(connection: CopyConnection): Promise<void> {
+    try {
+      let pending = '';
+      const send = async () => {
+        connection.sendCopyFromChunk(Buffer.from(pending));
+        pending = '';
+        if (connection.stream.writableNeedDrain) {
+          await once(connection.stream, 'drain');
+        }
+      };
+      for await (const chunk of this.source) {
+        if (this.failed) {
+          return;
+        }
+        pending += chunk;
+        if (pending.length >= CHUNK_BYTES) {
+          await send();
+        }
+      }
+      if (pending) {
+        await send();
+      }
+      connection.endCopyFrom();
+    } catch (error) {
+      // The server answers CopyFail with an error, which settles `done`
+      connection.sendCopyFail(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  handleCommandComplete(message: { text?: string }): void {
+    const match = /^COPY (\d+)/.exec(message.text ?? '');
+    if (match) {
+      this.rowCount = Number(match[1]);
+    }
+  }
+
+  handleError(error: Error): void {
+    this.failed = true;
+    this.reject(error);
+  }
+
+  handleReadyForQuery(): void {
+    if (!this.failed) {
+      this.resolve(this.rowCount);
+    }
+  }
+
+  // Not sent in response to COPY FROM STDIN
+  handleRowDescription(): void {}
+  handleDataRow(): void {}
+  handleEmptyQuery(): void {}
+  handlePortalSuspended(): void {}
+  handleCopyData(): void {}
+}
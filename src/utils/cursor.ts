@@ -0,0 +1,124 @@
+import { randomBytes } from 'node:crypto';
+import type { DatabaseConnection } from './connection.js';
+import type { ByteaEncoding, ColumnInfo, SerializedResult } from './serialize.js';
+
+/** A cursor that is not fetched from for this long is closed */
+export const CURSOR_IDLE_TTL_MS = 5 * 60 * 1000;
+/** Open cursors per session; each one holds a pooled client and a transaction */
+export const MAX_CURSORS_PER_SESSION = 5;
+
+let cursorCounter = 0;
+
+/**
+ * A server-side cursor (`DECLARE ... NO SCROLL CURSOR`) over a read-only
+ * SELECT. The cursor owns its connection and keeps a read-only transaction
+ * open on it until the last page is fetched, it is closed, or it expires.
+ */
+export class QueryCursor {
+  public readonly token = randomBytes(12).toString('base64url');
+  private readonly name = `sierra_cursor_${++cursorCounter}`;
+  /** One row fetched ahead so the last page is known to be the last */
+  private lookahead: SerializedResult['rows'] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private closed = false;
+  /** Fetches run one after another so concurrent calls get consecutive pages */
+  private pending: Promise<unknown> = Promise.resolve();
+  public rowsFetched = 0;
+
+  private constructor(
+    private readonly db: DatabaseConnection,
+    public readonly pageSize: number,
+    private readonly timeout: number | undefined,
+    private readonly bytea: ByteaEncoding | undefined,
+    private readonly onClose: (cursor: QueryCursor) => void
+  ) {}
+
+  /** Declare a cursor on an already connected `db`, which the cursor then owns */
+  public static async open(
+    db: DatabaseConnection,
+    sql: string,
+    params: unknown[],
+    options: { pageSize: number; timeout?: number; bytea?: ByteaEncoding },
+    onClose: (cursor: QueryCursor) => void
+  ): Promise<QueryCursor> {
+    const cursor = new QueryCursor(db, options.pageSize, options.timeout, options.bytea, onClose);
+    await db.query('BEGIN READ ONLY');
+    try {
+      await db.query(`DECLARE ${cursor.name} NO SCROLL CURSOR FOR ${sql}`, params, cursor.queryOptions());
+    } catch (error) {
+      await cursor.close();
+      throw error;
+    }
+    cursor.touch();
+    return cursor;
+  }
+
+  private queryOptions(): { timeout?: number } {
+    return this.timeout ? { timeout: this.timeout } : {};
+  }
+
+  private touch(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.close().catch(error => console.error(`Error closing expired cursor ${this.name}:`, error));
+    }, CURSOR_IDLE_TTL_MS);
+    this.timer.unref();
+  }
+
+  /** The next page; the cursor closes itself after the last one */
+  public fetch(): Promise<{ columns: ColumnInfo[]; rows: SerializedResult['rows']; done: boolean }> {
+    const result = this.pending.then(() => this.fetchPage());
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async fetchPage(): Promise<{ columns: ColumnInfo[]; rows: SerializedResult['rows']; done: boolean }> {
+    if (this.closed) {
+      throw new Error('Cursor is closed');
+    }
+    let fetched: SerializedResult;
+    try {
+      fetched = await this.db.querySerialized(
+        `FETCH FORWARD ${this.pageSize + 1 - this.lookahead.length} FROM ${this.name}`,
+        [],
+        { ...this.queryOptions(), bytea: this.bytea }
+      );
+    } catch (error) {
+      // A failed FETCH aborts the transaction, so the cursor is unusable
+      await this.close();
+      throw error;
+    }
+    const rows = [...this.lookahead, ...fetched.rows];
+    this.lookahead = rows.slice(this.pageSize);
+    const page = rows.slice(0, this.pageSize);
+    this.rowsFetched += page.length;
+
+    const done = this.lookahead.length === 0;
+    if (done) {
+      await this.close();
+    } else {
+      this.touch();
+    }
+    return { columns: fetched.columns, rows: page, done };
+  }
+
+  /** Roll back the cursor's transaction and give the connection back */
+  public async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.onClose(this);
+    try {
+      await this.db.query('ROLLBACK');
+    } finally {
+      await this.db.disconnect();
+    }
+  }
+}
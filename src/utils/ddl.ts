@@ -0,0 +1,580 @@
+import type { DatabaseConnection } from './connection.js';
+
+/**
+ * DDL reconstructed from the catalog, without pg_dump: CREATE statements for
+ * tables, views, sequences, types and functions with their constraints,
+ * indexes, triggers, comments and grants, and for whole schemas in
+ * dependency order. Like pg_dump, generation runs with search_path set to
+ * pg_catalog so every name in the output is schema-qualified.
+ */
+
+export const DDL_OBJECT_TYPES = ['table', 'view', 'sequence', 'enum', 'function', 'schema'] as const;
+
+export type DdlObjectType = typeof DDL_OBJECT_TYPES[number];
+
+export interface GeneratedDdl {
+  /** The objects the DDL creates, in the order it creates them */
+  objects: string[];
+  statements: string[];
+}
+
+/**
+ * The statements for one object by phase. A schema is created phase by
+ * phase: every object first, then constraints and indexes, then foreign
+ * keys, then triggers, comments and grants, so tables can reference each
+ * other regardless of their order.
+ */
+interface DdlParts {
+  name: string;
+  create: string[];
+  constraints: string[];
+  foreignKeys: string[];
+  finish: string[];
+}
+
+interface RelationRow {
+  name: string;
+  relkind: string;
+  unlogged: boolean;
+  populated: boolean;
+  options: string[] | null;
+  partition_key: string | null;
+  partition_bound: string | null;
+  parents: string[] | null;
+  view_definition: string | null;
+  comment: string | null;
+}
+
+interface ColumnRow {
+  name: string;
+  type: string;
+  not_null: boolean;
+  identity: string;
+  generated: string;
+  local: boolean;
+  default_value: string | null;
+  collation: string | null;
+  comment: string | null;
+}
+
+const RELATION_SQL = `
+  SELECT c.oid::regclass::text AS name, c.relkind, c.relpersistence = 'u' AS unlogged, c.relispopulated AS populated,
+         c.reloptions AS options,
+         CASE WHEN c.relkind = 'p' THEN pg_get_partkeydef(c.oid) END AS partition_key,
+         CASE WHEN c.relispartition THEN pg_get_expr(c.relpartbound, c.oid) END AS partition_bound,
+         (SELECT array_agg(i.inhparent::regclass::text ORDER BY i.inhseqno) FROM pg_inherits i WHERE i.inhrelid = c.oid) AS parents,
+         CASE WHEN c.relkind IN ('v', 'm') THEN pg_get_viewdef(c.oid, true) END AS view_definition,
+         obj_description(c.oid, 'pg_class') AS comment
+  FROM pg_class c
+  WHERE c.oid = $1
+`;
+
+const COLUMNS_SQL = `
+  SELECT quote_ident(a.attname) AS name, format_type(a.atttypid, a.atttypmod) AS type, a.attnotnull AS not_null,
+         a.attidentity AS identity, a.attgenerated AS generated, a.attislocal AS local,
+         pg_get_expr(d.adbin, d.adrelid) AS default_value,
+         CASE WHEN a.attcollation <> t.typcollation THEN quote_ident(cn.nspname) || '.' || quote_ident(co.collname) END AS collation,
+         col_description(a.attrelid, a.attnum) AS comment
+  FROM pg_attribute a
+  JOIN pg_type t ON t.oid = a.atttypid
+  LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+  LEFT JOIN pg_collation co ON co.oid = a.attcollation
+  LEFT JOIN pg_namespace cn ON cn.oid = co.collnamespace
+  WHERE a.attrelid = $1 AND a.attnum > 0 AND NOT a.attisdropped
+  ORDER BY a.attnum
+`;
+
+/** Constraints declared on the table itself; NOT NULL is part of the column, constraint triggers are triggers */
+const CONSTRAINTS_SQL = `
+  SELECT quote_ident(conname) AS name, contype, pg_get_constraintdef(oid) AS definition, obj_description(oid, 'pg_constraint') AS comment
+  FROM pg_constraint
+  WHERE conrelid = $1 AND conislocal AND contype IN ('p', 'u', 'c', 'x', 'f')
+  ORDER BY CASE contype WHEN 'p' THEN 0 WHEN 'u' THEN 1 ELSE 2 END, conname
+`;
+
+/** Indexes that are not created by a constraint or attached from a partitioned table's index */
+const INDEXES_SQL = `
+  SELECT regexp_replace(pg_get_indexdef(x.indexrelid), ' ON ONLY ', ' ON ') AS definition, x.indexrelid::regclass::text AS name,
+         obj_description(x.indexrelid, 'pg_class') AS comment
+  FROM pg_index x
+  JOIN pg_class i ON i.oid = x.indexrelid
+  WHERE x.indrelid = $1 AND NOT i.relispartition
+    AND NOT EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = x.indexrelid AND con.conrelid = x.indrelid AND con.contype IN ('p', 'u', 'x'))
+  ORDER BY i.relname
+`;
+
+/** Triggers other than internal ones and clones of a partitioned table's triggers */
+const TRIGGERS_SQL = `
+  SELECT quote_ident(tgname) AS name, pg_get_triggerdef(oid, true) AS definition, obj_description(oid, 'pg_trigger') AS comment
+  FROM pg_trigger
+  WHERE tgrelid = $1 AND NOT tgisinternal AND tgparentid = 0
+  ORDER BY tgname
+`;
+
+const SEQUENCE_SQL = `
+  SELECT c.oid::regclass::text AS name, format_type(s.seqtypid, NULL) AS type,
+         s.seqstart::text AS start, s.seqincrement::text AS increment, s.seqmin::text AS min, s.seqmax::text AS max,
+         s.seqcache::text AS cache, s.seqcycle AS cycle,
+         (SELECT d.refobjid::regclass::text || '.' || quote_ident(a.attname)
+          FROM pg_depend d
+          JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+          WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.refclassid = 'pg_class'::regclass AND d.deptype = 'a') AS owned_by,
+         obj_description(c.oid, 'pg_class') AS comment
+  FROM pg_class c
+  JOIN pg_sequence s ON s.seqrelid = c.oid
+  WHERE c.oid = $1
+`;
+
+const TYPE_SQL = `
+  SELECT t.oid::regtype::text AS name, t.typtype,
+         (SELECT array_agg(e.enumlabel::text ORDER BY e.enumsortorder) FROM pg_enum e WHERE e.enumtypid = t.oid) AS labels,
+         format_type(t.typbasetype, t.typtypmod) AS base_type, t.typnotnull AS not_null,
+         pg_get_expr(t.typdefaultbin, 0) AS default_value,
+         (SELECT array_agg('CONSTRAINT ' || quote_ident(con.conname) || ' ' || pg_get_constraintdef(con.oid) ORDER BY con.conname)
+          FROM pg_constraint con WHERE con.contypid = t.oid AND con.contype = 'c') AS checks,
+         obj_description(t.oid, 'pg_type') AS comment
+  FROM pg_type t
+  WHERE t.oid = $1
+`;
+
+const FUNCTION_SQL = `
+  SELECT p.oid::regprocedure::text AS name, p.prokind, pg_get_functiondef(p.oid) AS definition,
+         obj_description(p.oid, 'pg_proc') AS comment
+  FROM pg_proc p
+  WHERE p.oid = $1
+`;
+
+/** Owner and ACL columns of the catalogs whose objects take grants */
+const ACL_COLUMNS = {
+  pg_class: ['relacl', 'relowner'],
+  pg_proc: ['proacl', 'proowner'],
+  pg_type: ['typacl', 'typowner'],
+  pg_namespace: ['nspacl', 'nspowner']
+} as const;
+
+/** The object type of COMMENT ON for relations other than tables */
+const RELATION_KINDS: Record<string, string> = { v: 'VIEW', m: 'MATERIALIZED VIEW', c: 'TYPE' };
+
+/**
+ * The objects of a schema that DDL is generated for, keyed so pg_depend rows
+ * can be matched to them: relations and composite types as `c:<oid>`, enums
+ * and domains as `t:<oid>`, functions as `p:<oid>`. Objects that belong to
+ * an extension, and identity sequences, are created along with their owner.
+ */
+const SCHEMA_OBJECTS_SQL = `
+  SELECT 'c:' || c.oid AS key, 'relation' AS kind, c.oid
+  FROM pg_class c
+  WHERE c.relnamespace = $1 AND c.relkind IN ('r', 'p', 'v', 'm', 'S', 'c')
+    AND NOT EXISTS (SELECT 1 FROM pg_depend d
+                    WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid
+                      AND (d.deptype = 'e' OR d.deptype = 'i' AND c.relkind = 'S'))
+  UNION ALL
+  SELECT 't:' || t.oid, 'type', t.oid
+  FROM pg_type t
+  WHERE t.typnamespace = $1 AND t.typtype IN ('e', 'd')
+    AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = 'pg_type'::regclass AND d.objid = t.oid AND d.deptype = 'e')
+  UNION ALL
+  SELECT 'p:' || p.oid, 'function', p.oid
+  FROM pg_proc p
+  WHERE p.pronamespace = $1 AND p.prokind IN ('f', 'p', 'w')
+    AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e')
+  ORDER BY 2, 3
+`;
+
+/**
+ * Dependencies between the objects of a schema that decide their creation
+ * order: a column's type or default, a view's query, a function's argument
+ * and result types, and inheritance and partitioning. Constraints, indexes
+ * and triggers are created after every object, so theirs do not count.
+ */
+const SCHEMA_DEPENDENCIES_SQL = `
+  WITH keys(classid, objid, key) AS (
+    SELECT 'pg_class'::regclass::oid, oid, 'c:' || oid FROM pg_class WHERE relnamespace = $1
+    UNION ALL
+    SELECT 'pg_proc'::regclass::oid, oid, 'p:' || oid FROM pg_proc WHERE pronamespace = $1
+    UNION ALL
+    SELECT 'pg_attrdef'::regclass::oid, oid, 'c:' || adrelid FROM pg_attrdef
+    UNION ALL
+    SELECT 'pg_rewrite'::regclass::oid, oid, 'c:' || ev_class FROM pg_rewrite
+    UNION ALL
+    SELECT 'pg_type'::regclass::oid, t.oid,
+           CASE WHEN t.typrelid <> 0 THEN 'c:' || t.typrelid
+                WHEN e.typrelid <> 0 THEN 'c:' || e.typrelid
+                WHEN e.oid IS NOT NULL THEN 't:' || e.oid
+                ELSE 't:' || t.oid END
+    FROM pg_type t
+    LEFT JOIN pg_type e ON e.oid = t.typelem AND t.typcategory = 'A'
+    WHERE t.typnamespace = $1
+  )
+  SELECT DISTINCT dependent.key AS dependent, dependency.key AS dependency
+  FROM pg_depend d
+  JOIN keys dependent ON dependent.classid = d.classid AND dependent.objid = d.objid
+  JOIN keys dependency ON dependency.classid = d.refclassid AND dependency.objid = d.refobjid
+  WHERE d.deptype = 'n' AND dependent.key <> dependency.key
+  UNION
+  SELECT 'c:' || inhrelid, 'c:' || inhparent FROM pg_inherits
+`;
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function emptyParts(name: string): DdlParts {
+  return { name, create: [], constraints: [], foreignKeys: [], finish: [] };
+}
+
+function commentStatement(target: string, comment: string | null): string[] {
+  return comment === null ? [] : [`COMMENT ON ${target} IS ${quoteLiteral(comment)};`];
+}
+
+/** GRANT statements for an object's ACL; the owner's own privileges are implied */
+async function grantStatements(db: DatabaseConnection, catalog: keyof typeof ACL_COLUMNS, oid: number, target: string): Promise<string[]> {
+  const [acl, owner] = ACL_COLUMNS[catalog];
+  const grants = await db.query<{ grantee: string; privileges: string; grantable: boolean }>(
+    `SELECT CASE WHEN a.grantee = 0 THEN 'PUBLIC' ELSE quote_ident(pg_get_userbyid(a.grantee)) END AS grantee,
+            string_agg(a.privilege_type, ', ' ORDER BY a.privilege_type) AS privileges, a.is_grantable AS grantable
+     FROM ${catalog} o, aclexplode(o.${acl}) a
+     WHERE o.oid = $1 AND a.grantee <> o.${owner}
+     GROUP BY a.grantee, a.is_grantable
+     ORDER BY 1, 3`,
+    [oid]
+  );
+  return grants.map(grant => `GRANT ${grant.privileges} ON ${target} TO ${grant.grantee}${grant.grantable ? ' WITH GRANT OPTION' : ''};`);
+}
+
+function columnDefinition(column: ColumnRow, withConstraints: boolean): string {
+  let definition = `${column.name} ${column.type}`;
+  if (column.collation) {
+    definition += ` COLLATE ${column.collation}`;
+  }
+  if (!withConstraints) {
+    return definition;
+  }
+  if (column.generated) {
+    definition += ` GENERATED ALWAYS AS (${column.default_value}) ${column.generated === 'v' ? 'VIRTUAL' : 'STORED'}`;
+  } else if (column.default_value !== null) {
+    definition += ` DEFAULT ${column.default_value}`;
+  }
+  if (column.identity) {
+    definition += ` GENERATED ${column.identity === 'a' ? 'ALWAYS' : 'BY DEFAULT'} AS IDENTITY`;
+  }
+  if (column.not_null) {
+    definition += ' NOT NULL';
+  }
+  return definition;
+}
+
+function relationCreate(relation: RelationRow, columns: ColumnRow[]): string {
+  const options = relation.options ? ` WITH (${relation.options.join(', ')})` : '';
+  switch (relation.relkind) {
+    case 'v':
+      return `CREATE VIEW ${relation.name}${options} AS\n${relation.view_definition?.replace(/;\s*$/, '')};`;
+    case 'm':
+      return `CREATE MATERIALIZED VIEW ${relation.name}${options} AS\n${relation.view_definition?.replace(/;\s*$/, '')}\nWITH ${relation.populated ? '' : 'NO '}DATA;`;
+    case 'c':
+      return `CREATE TYPE ${relation.name} AS (\n${columns.map(column => `    ${columnDefinition(column, false)}`).join(',\n')}\n);`;
+  }
+
+  const partitionBy = relation.partition_key ? ` PARTITION BY ${relation.partition_key}` : '';
+  if (relation.partition_bound !== null && relation.parents) {
+    return `CREATE TABLE ${relation.name} PARTITION OF ${relation.parents[0]} ${relation.partition_bound}${partitionBy}${options};`;
+  }
+  const local = columns.filter(column => column.local);
+  const inherits = relation.parents ? ` INHERITS (${relation.parents.join(', ')})` : '';
+  return `CREATE ${relation.unlogged ? 'UNLOGGED ' : ''}TABLE ${relation.name} (\n${local.map(column => `    ${columnDefinition(column, true)}`).join(',\n')}\n)${inherits}${partitionBy}${options};`;
+}
+
+async function sequenceDdl(db: DatabaseConnection, oid: number): Promise<DdlParts> {
+  const sequence = await db.queryOne<{
+    name: string; type: string; start: string; increment: string; min: string; max: string;
+    cache: string; cycle: boolean; owned_by: string | null; comment: string | null;
+  }>(SEQUENCE_SQL, [oid]);
+  if (!sequence) {
+    throw new Error(`Sequence ${oid} not found`);
+  }
+  const parts = emptyParts(sequence.name);
+  parts.create.push(
+    `CREATE SEQUENCE ${sequence.name} AS ${sequence.type} INCREMENT BY ${sequence.increment} MINVALUE ${sequence.min} MAXVALUE ${sequence.max} START WITH ${sequence.start} CACHE ${sequence.cache}${sequence.cycle ? ' CYCLE' : ''};`
+  );
+  if (sequence.owned_by) {
+    parts.constraints.push(`ALTER SEQUENCE ${sequence.name} OWNED BY ${sequence.owned_by};`);
+  }
+  parts.finish.push(
+    ...commentStatement(`SEQUENCE ${sequence.name}`, sequence.comment),
+    ...await grantStatements(db, 'pg_class', oid, `SEQUENCE ${sequence.name}`)
+  );
+  return parts;
+}
+
+/** DDL for a table, view, materialized view, sequence or composite type */
+async function relationDdl(db: DatabaseConnection, oid: number): Promise<DdlParts> {
+  const relation = await db.queryOne<RelationRow>(RELATION_SQL, [oid]);
+  if (!relation) {
+    throw new Error(`Relation ${oid} not found`);
+  }
+  if (relation.relkind === 'S') {
+    return sequenceDdl(db, oid);
+  }
+
+  const parts = emptyParts(relation.name);
+  const columns = await db.query<ColumnRow>(COLUMNS_SQL, [oid]);
+  parts.create.push(relationCreate(relation, columns));
+
+  const kind = RELATION_KINDS[relation.relkind] ?? 'TABLE';
+  if (relation.relkind !== 'c') {
+    for (const constraint of await db.query<{ name: string; contype: string; definition: string; comment: string | null }>(CONSTRAINTS_SQL, [oid])) {
+      const statement = `ALTER TABLE ${relation.name} ADD CONSTRAINT ${constraint.name} ${constraint.definition};`;
+      (constraint.contype === 'f' ? parts.foreignKeys : parts.constraints).push(statement);
+      parts.finish.push(...commentStatement(`CONSTRAINT ${constraint.name} ON ${relation.name}`, constraint.comment));
+    }
+    for (const index of await db.query<{ name: string; definition: string; comment: string | null }>(INDEXES_SQL, [oid])) {
+      parts.constraints.push(`${index.definition};`);
+      parts.finish.push(...commentStatement(`INDEX ${index.name}`, index.comment));
+    }
+    for (const trigger of await db.query<{ name: string; definition: string; comment: string | null }>(TRIGGERS_SQL, [oid])) {
+      parts.finish.push(`${trigger.definition};`, ...commentStatement(`TRIGGER ${trigger.name} ON ${relation.name}`, trigger.comment));
+    }
+  }
+  parts.finish.push(...commentStatement(`${kind} ${relation.name}`, relation.comment));
+  for (const column of columns) {
+    parts.finish.push(...commentStatement(`COLUMN ${relation.name}.${column.name}`, column.comment));
+  }
+  if (relation.relkind !== 'c') {
+    parts.finish.push(...await grantStatements(db, 'pg_class', oid, `TABLE ${relation.name}`));
+  }
+  return parts;
+}
+
+/** DDL for an enum or a domain */
+async function typeDdl(db: DatabaseConnection, oid: number): Promise<DdlParts> {
+  const type = await db.queryOne<{
+    name: string; typtype: string; labels: string[] | null; base_type: string; not_null: boolean;
+    default_value: string | null; checks: string[] | null; comment: string | null;
+  }>(TYPE_SQL, [oid]);
+  if (!type) {
+    throw new Error(`Type ${oid} not found`);
+  }
+  const parts = emptyParts(type.name);
+  const kind = type.typtype === 'e' ? 'TYPE' : 'DOMAIN';
+  if (type.typtype === 'e') {
+    parts.create.push(`CREATE TYPE ${type.name} AS ENUM (\n${(type.labels ?? []).map(label => `    ${quoteLiteral(label)}`).join(',\n')}\n);`);
+  } else {
+    const clauses = [
+      type.default_value !== null ? `DEFAULT ${type.default_value}` : '',
+      type.not_null ? 'NOT NULL' : '',
+      ...(type.checks ?? [])
+    ].filter(Boolean);
+    parts.create.push(`CREATE DOMAIN ${type.name} AS ${type.base_type}${clauses.map(clause => `\n    ${clause}`).join('')};`);
+  }
+  parts.finish.push(
+    ...commentStatement(`${kind} ${type.name}`, type.comment),
+    ...await grantStatements(db, 'pg_type', oid, `${kind} ${type.name}`)
+  );
+  return parts;
+}
+
+async function functionDdl(db: DatabaseConnection, oid: number): Promise<DdlParts> {
+  const fn = await db.queryOne<{ name: string; prokind: string; definition: string; comment: string | null }>(FUNCTION_SQL, [oid]);
+  if (!fn) {
+    throw new Error(`Function ${oid} not found`);
+  }
+  const parts = emptyParts(fn.name);
+  const kind = fn.prokind === 'p' ? 'PROCEDURE' : 'FUNCTION';
+  parts.create.push(`${fn.definition.trimEnd()};`);
+  parts.finish.push(
+    ...commentStatement(`${kind} ${fn.name}`, fn.comment),
+    ...await grantStatements(db, 'pg_proc', oid, `${kind} ${fn.name}`)
+  );
+  return parts;
+}
+
+/** Order `keys` so every object comes after the objects it depends on; cycles keep their listed order */
+function dependencyOrder(keys: string[], edges: Array<{ dependent: string; dependency: string }>): string[] {
+  const known = new Set(keys);
+  const dependencies = new Map<string, string[]>();
+  for (const { dependent, dependency } of edges) {
+    if (known.has(dependent) && known.has(dependency)) {
+      dependencies.set(dependent, [...dependencies.get(dependent) ?? [], dependency]);
+    }
+  }
+
+  const ordered: string[] = [];
+  const visited = new Set<string>();
+  const visit = (key: string) => {
+    if (visited.has(key)) {
+      return;
+    }
+    visited.add(key);
+    for (const dependency of dependencies.get(key) ?? []) {
+      visit(dependency);
+    }
+    ordered.push(key);
+  };
+  keys.forEach(visit);
+  return ordered;
+}
+
+/** The statements of `parts`, phase by phase */
+function assemble(parts: DdlParts[], prologue: string[] = [], epilogue: string[] = []): GeneratedDdl {
+  return {
+    objects: parts.map(part => part.name),
+    statements: [
+      ...prologue,
+      ...parts.flatMap(part => part.create),
+      ...parts.flatMap(part => part.constraints),
+      ...parts.flatMap(part => part.foreignKeys),
+      ...parts.flatMap(part => part.finish),
+      ...epilogue
+    ]
+  };
+}
+
+async function findOids(db: DatabaseConnection, sql: string, schema: string, name: string, label: string): Promise<number[]> {
+  const rows = await db.query<{ oid: number }>(sql, [schema, name]);
+  if (rows.length === 0) {
+    throw new Error(`${label} "${schema}"."${name}" not found`);
+  }
+  return rows.map(row => row.oid);
+}
+
+async function relationOid(db: DatabaseConnection, schema: string, name: string, relkinds: string[], label: string): Promise<number> {
+  const [oid] = await findOids(
+    db,
+    `SELECT c.oid FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN (${relkinds.map(kind => `'${kind}'`).join(', ')})`,
+    schema,
+    name,
+    label
+  );
+  return oid;
+}
+
+async function schemaDdl(db: DatabaseConnection, namespaceOid: number): Promise<GeneratedDdl> {
+  const namespace = await db.queryOne<{ oid: number; name: string; comment: string | null }>(
+    `SELECT oid, quote_ident(nspname) AS name, obj_description(oid, 'pg_namespace') AS comment FROM pg_namespace WHERE oid = $1`,
+    [namespaceOid]
+  );
+  if (!namespace) {
+    throw new Error(`Schema ${namespaceOid} not found`);
+  }
+
+  const objects = await db.query<{ key: string; kind: 'relation' | 'type' | 'function'; oid: number }>(SCHEMA_OBJECTS_SQL, [namespace.oid]);
+  const edges = await db.query<{ dependent: string; dependency: string }>(SCHEMA_DEPENDENCIES_SQL, [namespace.oid]);
+  const byKey = new Map(objects.map(object => [object.key, object]));
+
+  const parts: DdlParts[] = [];
+  for (const key of dependencyOrder(objects.map(object => object.key), edges)) {
+    const { kind, oid } = byKey.get(key)!;
+    parts.push(await (kind === 'relation' ? relationDdl(db, oid) : kind === 'type' ? typeDdl(db, oid) : functionDdl(db, oid)));
+  }
+
+  const extensions = await db.query<{ name: string }>(
+    `SELECT quote_ident(extname) AS name FROM pg_extension WHERE extnamespace = $1 ORDER BY extname`,
+    [namespace.oid]
+  );
+  const prologue = [
+    // Function bodies may refer to objects that are created after them
+    ...objects.some(object => object.kind === 'function') ? ['SET check_function_bodies = false;'] : [],
+    `CREATE SCHEMA IF NOT EXISTS ${namespace.name};`,
+    ...extensions.map(extension => `CREATE EXTENSION IF NOT EXISTS ${extension.name} WITH SCHEMA ${namespace.name};`)
+  ];
+  const epilogue = [
+    ...commentStatement(`SCHEMA ${namespace.name}`, namespace.comment),
+    ...await grantStatements(db, 'pg_namespace', namespace.oid, `SCHEMA ${namespace.name}`)
+  ];
+  const ddl = assemble(parts, prologue, epilogue);
+  return { objects: [`schema ${namespace.name}`, ...ddl.objects], statements: ddl.statements };
+}
+
+/**
+ * Find the object to generate DDL for and return the function that
+ * generates it, so a missing object is reported before any work starts.
+ */
+async function ddlBuilder(db: DatabaseConnection, objectType: DdlObjectType, schema: string, name: string): Promise<() => Promise<GeneratedDdl>> {
+  switch (objectType) {
+    case 'table': {
+      const oid = await relationOid(db, schema, name, ['r', 'p'], 'Table');
+      return async () => {
+        const sequences = await db.query<{ oid: number }>(
+          `SELECT d.objid AS oid FROM pg_depend d JOIN pg_class s ON s.oid = d.objid
+           WHERE d.classid = 'pg_class'::regclass AND d.refclassid = 'pg_class'::regclass AND d.refobjid = $1
+             AND d.deptype = 'a' AND s.relkind = 'S'
+           ORDER BY s.relname`,
+          [oid]
+        );
+        const parts: DdlParts[] = [];
+        for (const sequence of sequences) {
+          parts.push(await sequenceDdl(db, sequence.oid));
+        }
+        parts.push(await relationDdl(db, oid));
+        return assemble(parts);
+      };
+    }
+
+    case 'view': {
+      const oid = await relationOid(db, schema, name, ['v', 'm'], 'View');
+      return async () => assemble([await relationDdl(db, oid)]);
+    }
+
+    case 'sequence': {
+      const oid = await relationOid(db, schema, name, ['S'], 'Sequence');
+      return async () => assemble([await sequenceDdl(db, oid)]);
+    }
+
+    case 'enum': {
+      const [oid] = await findOids(
+        db,
+        `SELECT t.oid FROM pg_type t JOIN pg_namespace n ON n.oid = t.typnamespace WHERE n.nspname = $1 AND t.typname = $2 AND t.typtype = 'e'`,
+        schema,
+        name,
+        'Enum'
+      );
+      return async () => assemble([await typeDdl(db, oid)]);
+    }
+
+    case 'function': {
+      const oids = await findOids(
+        db,
+        `SELECT p.oid FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+         WHERE n.nspname = $1 AND p.proname = $2 AND p.prokind IN ('f', 'p', 'w')
+         ORDER BY p.oid`,
+        schema,
+        name,
+        'Function'
+      );
+      return async () => {
+        const parts: DdlParts[] = [];
+        for (const oid of oids) {
+          parts.push(await functionDdl(db, oid));
+        }
+        return assemble(parts);
+      };
+    }
+
+    case 'schema': {
+      const namespace = await db.queryOne<{ oid: number }>('SELECT oid FROM pg_namespace WHERE nspname = $1', [schema]);
+      if (!namespace) {
+        throw new Error(`Schema "${schema}" not found`);
+      }
+      return () => schemaDdl(db, namespace.oid);
+    }
+  }
+}
+
+/**
+ * Generate the DDL that recreates an object: a table with the sequences its
+ * columns own, a view or materialized view, a sequence, an enum, every
+ * overload of a function, or a whole schema. `name` is required except for
+ * schemas, where `schema` is the schema itself.
+ */
+export async function generateDdl(db: DatabaseConnection, objectType: DdlObjectType, schema: string, name?: string): Promise<GeneratedDdl> {
+  if (objectType !== 'schema' && !name) {
+    throw new Error(`An object name is required for ${objectType} DDL`);
+  }
+  const build = await ddlBuilder(db, objectType, schema, name ?? '');
+
+  return db.transaction(async () => {
+    await db.query(`SELECT set_config('search_path', 'pg_catalog', true)`);
+    return build();
+  }, { rollback: true, readOnly: true });
+}
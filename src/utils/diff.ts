@@ -0,0 +1,356 @@
+import type { DatabaseConnection } from './connection.js';
+import {
+  getTableInfo,
+  listConstraints,
+  listFunctions,
+  listIndexes,
+  listTables,
+  type ColumnInfo,
+  type ConstraintRow,
+  type FunctionRow,
+  type IndexRow,
+  type TableInfo
+} from './catalog.js';
+
+/**
+ * Schema diffs: two schemas, in one database or in two, are read with the
+ * catalog queries of the listing tools and compared table by table, column
+ * by column, and by constraint, index and function. The migration script
+ * makes the target match the source.
+ */
+
+export interface SchemaSnapshot {
+  schema: string;
+  /** The schema name as it appears in qualified names */
+  qualifier: string;
+  tables: Map<string, TableInfo>;
+  /** By index name; indexes that back a constraint are left to the constraint */
+  indexes: Map<string, IndexRow>;
+  /** By "table.constraint" */
+  constraints: Map<string, ConstraintRow>;
+  /** By "function(arguments)" */
+  functions: Map<string, FunctionRow>;
+  /** By name; identity sequences are left to their column */
+  sequences: Map<string, SequenceRow>;
+}
+
+export interface SequenceRow {
+  sequence_name: string;
+  type: string;
+  start: string;
+  increment: string;
+  min: string;
+  max: string;
+  cache: string;
+  cycle: boolean;
+  /** The column that owns the sequence (e.g. a serial column), if any */
+  table_name: string | null;
+  column_name: string | null;
+}
+
+export type DiffObjectType = 'table' | 'column' | 'constraint' | 'index' | 'function';
+
+export interface DiffEntry {
+  type: DiffObjectType;
+  name: string;
+  /** Definition in the source, for added and changed objects */
+  source?: string;
+  /** Definition in the target, for removed and changed objects */
+  target?: string;
+}
+
+export interface SchemaDiff {
+  added: DiffEntry[];
+  removed: DiffEntry[];
+  changed: DiffEntry[];
+  script: string[];
+}
+
+/** Constraint types whose index is created along with the constraint */
+const INDEX_CONSTRAINT_TYPES = new Set(['PRIMARY KEY', 'UNIQUE', 'EXCLUSION']);
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+const SEQUENCES_SQL = `
+  SELECT c.relname AS sequence_name, format_type(s.seqtypid, NULL) AS type,
+         s.seqstart::text AS start, s.seqincrement::text AS increment, s.seqmin::text AS min, s.seqmax::text AS max,
+         s.seqcache::text AS cache, s.seqcycle AS cycle, t.relname AS table_name, a.attname AS column_name
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  JOIN pg_sequence s ON s.seqrelid = c.oid
+  LEFT JOIN pg_depend d ON d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.refclassid = 'pg_class'::regclass AND d.deptype IN ('a', 'i')
+  LEFT JOIN pg_class t ON t.oid = d.refobjid
+  LEFT JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+  WHERE n.nspname = $1 AND c.relkind = 'S' AND d.deptype IS DISTINCT FROM 'i'
+  ORDER BY c.relname
+`;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Read the tables, constraints, indexes and functions of `schema`. Like
+ * `get_ddl`, this runs with search_path set to pg_catalog, so names in
+ * definitions are always schema-qualified and two schemas compare alike.
+ */
+export async function readSchema(db: DatabaseConnection, schema: string): Promise<SchemaSnapshot> {
+  return db.transaction(async () => {
+    await db.query(`SELECT set_config('search_path', 'pg_catalog', true)`);
+    const qualifier = await db.queryOne<{ name: string }>('SELECT quote_ident($1) AS name', [schema]);
+
+    const tables = new Map<string, TableInfo>();
+    for (const tableName of await listTables(db, schema)) {
+      tables.set(tableName, await getTableInfo(db, tableName, schema));
+    }
+
+    // NOT NULL constraints (PostgreSQL 18) are compared as part of their column
+    const constraintRows = (await listConstraints(db, { schema })).filter(row => row.constraint_type !== 'n');
+    const constraints = new Map(constraintRows.map(row => [`${row.table_name}.${row.constraint_name}`, row]));
+    const constraintIndexes = new Set(
+      constraintRows.filter(row => INDEX_CONSTRAINT_TYPES.has(row.constraint_type)).map(row => `${row.table_name}.${row.constraint_name}`)
+    );
+    const indexes = new Map(
+      (await listIndexes(db, { schema }))
+        .filter(row => !constraintIndexes.has(`${row.table_name}.${row.index_name}`))
+        .map(row => [row.index_name, row])
+    );
+
+    const functions = new Map((await listFunctions(db, { schema })).map(row => [`${row.function_name}(${row.parameters})`, row]));
+    const sequences = new Map((await db.query<SequenceRow>(SEQUENCES_SQL, [schema])).map(row => [row.sequence_name, row]));
+    return { schema, qualifier: qualifier?.name ?? quoteIdentifier(schema), tables, indexes, constraints, functions, sequences };
+  }, { rollback: true, readOnly: true });
+}
+
+function columnDefinition(column: ColumnInfo): string {
+  let definition = column.dataType;
+  if (column.generated) {
+    definition += ` GENERATED ALWAYS AS (${column.generated.expression}) ${column.generated.kind}`;
+  } else if (column.default !== null) {
+    definition += ` DEFAULT ${column.default}`;
+  }
+  if (column.identity) {
+    definition += ` GENERATED ${column.identity} AS IDENTITY`;
+  }
+  return `${definition}${column.nullable ? '' : ' NOT NULL'}`;
+}
+
+/**
+ * Statements that turn column `from` into column `to`. The old default and
+ * identity go first so they cannot block a type change, and NOT NULL is set
+ * before an identity is added, which requires it. A column that becomes
+ * generated, or stops being a virtual generated one, cannot be altered into
+ * it and is dropped and added again.
+ */
+function alterColumn(table: string, from: ColumnInfo, to: ColumnInfo): string[] {
+  const column = quoteIdentifier(to.name);
+  const regenerate = to.generated ? to.generated.kind !== from.generated?.kind : from.generated?.kind === 'VIRTUAL';
+  if (regenerate) {
+    return [`ALTER TABLE ${table} DROP COLUMN ${column};`, `ALTER TABLE ${table} ADD COLUMN ${column} ${columnDefinition(to)};`];
+  }
+
+  const prefix = `ALTER TABLE ${table} ALTER COLUMN ${column}`;
+  const statements: string[] = [];
+  if (from.generated && !to.generated) {
+    statements.push(`${prefix} DROP EXPRESSION;`);
+  }
+  if (from.identity && !to.identity) {
+    statements.push(`${prefix} DROP IDENTITY;`);
+  }
+  const defaultChanged = from.default !== to.default;
+  if (defaultChanged && from.default !== null) {
+    statements.push(`${prefix} DROP DEFAULT;`);
+  }
+  if (from.dataType !== to.dataType) {
+    statements.push(`${prefix} TYPE ${to.dataType} USING ${column}::${to.dataType};`);
+  }
+  if (from.generated && to.generated && from.generated.expression !== to.generated.expression) {
+    statements.push(`${prefix} SET EXPRESSION AS (${to.generated.expression});`);
+  }
+  if (defaultChanged && to.default !== null) {
+    statements.push(`${prefix} SET DEFAULT ${to.default};`);
+  }
+  if (from.nullable !== to.nullable) {
+    statements.push(`${prefix} ${to.nullable ? 'DROP' : 'SET'} NOT NULL;`);
+  }
+  if (to.identity && !from.identity) {
+    statements.push(`${prefix} ADD GENERATED ${to.identity} AS IDENTITY;`);
+  } else if (to.identity && from.identity !== to.identity) {
+    statements.push(`${prefix} SET GENERATED ${to.identity};`);
+  }
+  return statements;
+}
+
+/**
+ * Compare `source` with `target`: what the source has that the target lacks
+ * is added, what only the target has is removed. Parts of an added or
+ * removed table are not listed separately. The script runs in this order:
+ * drop constraints and indexes that go or change, create functions, create
+ * the sequences of new serial columns and the tables, alter columns, add
+ * constraints and indexes, add foreign keys, then drop tables and functions.
+ */
+export function diffSchemas(source: SchemaSnapshot, target: SchemaSnapshot): SchemaDiff {
+  // Names qualified with the source schema are rewritten to the target schema
+  const sourceQualifier = new RegExp(`(?<![\\w$"])${escapeRegExp(source.qualifier)}\\.`, 'g');
+  const retarget = (text: string) => source.qualifier === target.qualifier ? text : text.replace(sourceQualifier, `${target.qualifier}.`);
+  const retargetColumn = (column: ColumnInfo): ColumnInfo => ({
+    ...column,
+    dataType: retarget(column.dataType),
+    default: column.default === null ? null : retarget(column.default),
+    generated: column.generated && { ...column.generated, expression: retarget(column.generated.expression) }
+  });
+  const tableName = (table: string) => `${target.qualifier}.${quoteIdentifier(table)}`;
+
+  const added: DiffEntry[] = [];
+  const removed: DiffEntry[] = [];
+  const changed: DiffEntry[] = [];
+  const phases = {
+    dropConstraints: [] as string[],
+    dropIndexes: [] as string[],
+    dropFunctions: [] as string[],
+    createFunctions: [] as string[],
+    createSequences: [] as string[],
+    createTables: [] as string[],
+    alterColumns: [] as string[],
+    addConstraints: [] as string[],
+    addForeignKeys: [] as string[],
+    dropTables: [] as string[],
+    dropRemovedFunctions: [] as string[]
+  };
+
+  const addedTables = new Set([...source.tables.keys()].filter(name => !target.tables.has(name)));
+  const removedTables = new Set([...target.tables.keys()].filter(name => !source.tables.has(name)));
+
+  for (const name of addedTables) {
+    const columns = source.tables.get(name)!.columns.map(retargetColumn);
+    added.push({ type: 'table', name });
+    phases.createTables.push(`CREATE TABLE ${tableName(name)} (\n${columns.map(column => `    ${quoteIdentifier(column.name)} ${columnDefinition(column)}`).join(',\n')}\n);`);
+  }
+  for (const name of removedTables) {
+    removed.push({ type: 'table', name });
+  }
+
+  // Sequences owned by new columns (serial) go with them; the column defaults name them
+  for (const [name, row] of source.sequences) {
+    if (row.table_name === null || row.column_name === null || target.sequences.has(name)) {
+      continue;
+    }
+    const sequence = `${target.qualifier}.${quoteIdentifier(name)}`;
+    phases.createSequences.push(
+      `CREATE SEQUENCE ${sequence} AS ${row.type} INCREMENT BY ${row.increment} MINVALUE ${row.min} MAXVALUE ${row.max} START WITH ${row.start} CACHE ${row.cache}${row.cycle ? ' CYCLE' : ''};`
+    );
+    phases.addConstraints.push(`ALTER SEQUENCE ${sequence} OWNED BY ${tableName(row.table_name)}.${quoteIdentifier(row.column_name)};`);
+  }
+  if (removedTables.size > 0) {
+    // One statement, so foreign keys between the dropped tables do not matter
+    phases.dropTables.push(`DROP TABLE ${[...removedTables].map(tableName).join(', ')};`);
+  }
+
+  for (const [name, sourceTable] of source.tables) {
+    const targetTable = target.tables.get(name);
+    if (!targetTable) {
+      continue;
+    }
+    const targetColumns = new Map(targetTable.columns.map(column => [column.name, column]));
+    for (const sourceColumn of sourceTable.columns) {
+      const column = retargetColumn(sourceColumn);
+      const existing = targetColumns.get(column.name);
+      if (!existing) {
+        added.push({ type: 'column', name: `${name}.${column.name}`, source: columnDefinition(column) });
+        phases.alterColumns.push(`ALTER TABLE ${tableName(name)} ADD COLUMN ${quoteIdentifier(column.name)} ${columnDefinition(column)};`);
+      } else if (columnDefinition(existing) !== columnDefinition(column)) {
+        changed.push({ type: 'column', name: `${name}.${column.name}`, source: columnDefinition(column), target: columnDefinition(existing) });
+        phases.alterColumns.push(...alterColumn(tableName(name), existing, column));
+      }
+    }
+    const sourceColumns = new Set(sourceTable.columns.map(column => column.name));
+    for (const column of targetTable.columns.filter(c => !sourceColumns.has(c.name))) {
+      removed.push({ type: 'column', name: `${name}.${column.name}`, target: columnDefinition(column) });
+      phases.alterColumns.push(`ALTER TABLE ${tableName(name)} DROP COLUMN ${quoteIdentifier(column.name)};`);
+    }
+  }
+
+  const addConstraint = (row: ConstraintRow) => {
+    const statement = `ALTER TABLE ${tableName(row.table_name)} ADD CONSTRAINT ${quoteIdentifier(row.constraint_name)} ${retarget(row.definition)};`;
+    (row.constraint_type === 'FOREIGN KEY' ? phases.addForeignKeys : phases.addConstraints).push(statement);
+  };
+  const dropConstraint = (row: ConstraintRow) => {
+    const statement = `ALTER TABLE ${tableName(row.table_name)} DROP CONSTRAINT ${quoteIdentifier(row.constraint_name)};`;
+    // Foreign keys go first: they may depend on a unique constraint dropped after them
+    if (row.constraint_type === 'FOREIGN KEY') {
+      phases.dropConstraints.unshift(statement);
+    } else {
+      phases.dropConstraints.push(statement);
+    }
+  };
+  for (const [key, row] of source.constraints) {
+    const existing = target.constraints.get(key);
+    if (!existing) {
+      if (!addedTables.has(row.table_name)) {
+        added.push({ type: 'constraint', name: key, source: retarget(row.definition) });
+      }
+      addConstraint(row);
+    } else if (existing.definition !== retarget(row.definition)) {
+      changed.push({ type: 'constraint', name: key, source: retarget(row.definition), target: existing.definition });
+      dropConstraint(existing);
+      addConstraint(row);
+    }
+  }
+  for (const [key, row] of target.constraints) {
+    if (!source.constraints.has(key) && !removedTables.has(row.table_name)) {
+      removed.push({ type: 'constraint', name: key, target: row.definition });
+      dropConstraint(row);
+    }
+  }
+
+  const dropIndex = (row: IndexRow) => phases.dropIndexes.push(`DROP INDEX ${target.qualifier}.${quoteIdentifier(row.index_name)};`);
+  for (const [name, row] of source.indexes) {
+    const definition = retarget(row.index_definition);
+    const existing = target.indexes.get(name);
+    if (!existing) {
+      if (!addedTables.has(row.table_name)) {
+        added.push({ type: 'index', name, source: definition });
+      }
+      phases.addConstraints.push(`${definition};`);
+    } else if (existing.index_definition !== definition) {
+      changed.push({ type: 'index', name, source: definition, target: existing.index_definition });
+      dropIndex(existing);
+      phases.addConstraints.push(`${definition};`);
+    }
+  }
+  for (const [name, row] of target.indexes) {
+    if (!source.indexes.has(name) && !removedTables.has(row.table_name)) {
+      removed.push({ type: 'index', name, target: row.index_definition });
+      dropIndex(row);
+    }
+  }
+
+  const functionName = (row: FunctionRow) => `${target.qualifier}.${quoteIdentifier(row.function_name)}(${row.parameters})`;
+  for (const row of source.functions.values()) {
+    const key = `${row.function_name}(${retarget(row.parameters)})`;
+    const definition = retarget(row.definition).trimEnd();
+    const existing = target.functions.get(key);
+    if (!existing) {
+      added.push({ type: 'function', name: key, source: definition });
+      phases.createFunctions.push(`${definition};`);
+    } else if (existing.definition.trimEnd() !== definition) {
+      changed.push({ type: 'function', name: key, source: definition, target: existing.definition.trimEnd() });
+      // CREATE OR REPLACE cannot change the result type
+      if (existing.return_type !== retarget(row.return_type)) {
+        phases.dropFunctions.push(`DROP FUNCTION ${functionName(existing)};`);
+      }
+      phases.createFunctions.push(`${definition};`);
+    }
+  }
+  const sourceFunctions = new Set([...source.functions.values()].map(row => `${row.function_name}(${retarget(row.parameters)})`));
+  for (const [key, row] of target.functions) {
+    if (!sourceFunctions.has(key)) {
+      removed.push({ type: 'function', name: key, target: row.definition.trimEnd() });
+      phases.dropRemovedFunctions.push(`DROP FUNCTION ${functionName(row)};`);
+    }
+  }
+
+  return { added, removed, changed, script: Object.values(phases).flat() };
+}
@@ -0,0 +1,177 @@
+import type { DatabaseConnection } from './connection.js';
+import { isSideEffectFunction, parseSql } from './sql.js';
+
+/**
+ * Dry runs: the work runs in a transaction that is always rolled back, and
+ * the catalog is compared before and after it so schema changes can be
+ * reported along with row counts and RETURNING rows. Sequences are compared
+ * too, since the rollback does not undo their advance.
+ */
+
+export interface CatalogChanges {
+  created: string[];
+  dropped: string[];
+  altered: string[];
+  /** Sequences the work advanced, e.g. through serial or identity columns; unlike the rest, this is not rolled back */
+  advanced: string[];
+}
+
+/**
+ * Every object in non-system schemas with a definition that changes when the
+ * object does. Relations carry their OID as `id`; their columns, constraints,
+ * indexes and triggers name it as `parent`.
+ */
+const CATALOG_SNAPSHOT_SQL = `
+  WITH user_namespaces AS (
+    SELECT oid, nspname FROM pg_namespace
+    WHERE nspname NOT IN ('pg_catalog', 'information_schema') AND nspname NOT LIKE 'pg\\_toast%'
+  )
+  SELECT 'schema ' || quote_ident(n.nspname) AS key, '' AS definition, NULL::oid AS id, NULL::oid AS parent
+  FROM user_namespaces n
+  UNION ALL
+  SELECT CASE c.relkind
+           WHEN 'r' THEN 'table' WHEN 'p' THEN 'table' WHEN 'v' THEN 'view' WHEN 'm' THEN 'materialized view'
+           WHEN 'S' THEN 'sequence' WHEN 'f' THEN 'foreign table' ELSE 'index' END
+         || ' ' || quote_ident(n.nspname) || '.' || quote_ident(c.relname),
+         CASE WHEN c.relkind IN ('v', 'm') THEN pg_get_viewdef(c.oid)
+              WHEN c.relkind IN ('i', 'I') THEN pg_get_indexdef(c.oid)
+              ELSE '' END,
+         c.oid,
+         (SELECT x.indrelid FROM pg_index x WHERE x.indexrelid = c.oid)
+  FROM pg_class c JOIN user_namespaces n ON n.oid = c.relnamespace
+  WHERE c.relkind IN ('r', 'p', 'v', 'm', 'S', 'f', 'i', 'I')
+  UNION ALL
+  SELECT 'column ' || quote_ident(n.nspname) || '.' || quote_ident(c.relname) || '.' || quote_ident(a.attname),
+         format_type(a.atttypid, a.atttypmod)
+         || CASE WHEN a.attnotnull THEN ' NOT NULL' ELSE '' END
+         || COALESCE(' DEFAULT ' || pg_get_expr(d.adbin, d.adrelid), ''),
+         NULL, c.oid
+  FROM pg_attribute a
+  JOIN pg_class c ON c.oid = a.attrelid
+  JOIN user_namespaces n ON n.oid = c.relnamespace
+  LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+  WHERE a.attnum > 0 AND NOT a.attisdropped AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+  UNION ALL
+  SELECT 'constraint ' || quote_ident(n.nspname) || '.' || quote_ident(c.relname) || '.' || quote_ident(con.conname),
+         pg_get_constraintdef(con.oid), NULL, c.oid
+  FROM pg_constraint con
+  JOIN pg_class c ON c.oid = con.conrelid
+  JOIN user_namespaces n ON n.oid = c.relnamespace
+  UNION ALL
+  SELECT 'trigger ' || quote_ident(n.nspname) || '.' || quote_ident(c.relname) || '.' || quote_ident(t.tgname),
+         pg_get_triggerdef(t.oid), NULL, c.oid
+  FROM pg_trigger t
+  JOIN pg_class c ON c.oid = t.tgrelid
+  JOIN user_namespaces n ON n.oid = c.relnamespace
+  WHERE NOT t.tgisinternal
+  UNION ALL
+  SELECT CASE t.typtype WHEN 'e' THEN 'enum' ELSE 'domain' END || ' ' || quote_ident(n.nspname) || '.' || quote_ident(t.typname),
+         CASE WHEN t.typtype = 'e'
+              THEN (SELECT string_agg(quote_literal(e.enumlabel), ', ' ORDER BY e.enumsortorder) FROM pg_enum e WHERE e.enumtypid = t.oid)
+              ELSE format_type(t.typbasetype, t.typtypmod) || CASE WHEN t.typnotnull THEN ' NOT NULL' ELSE '' END END,
+         NULL, NULL
+  FROM pg_type t JOIN user_namespaces n ON n.oid = t.typnamespace
+  WHERE t.typtype IN ('e', 'd')
+  UNION ALL
+  SELECT 'function ' || quote_ident(n.nspname) || '.' || quote_ident(p.proname) || '(' || pg_get_function_identity_arguments(p.oid) || ')',
+         pg_get_function_result(p.oid) || ' ' || md5(p.prosrc), NULL, NULL
+  FROM pg_proc p JOIN user_namespaces n ON n.oid = p.pronamespace
+`;
+
+/** The current value of every sequence; null before its first nextval (or without the privilege to read it) */
+const SEQUENCE_VALUES_SQL = `
+  SELECT quote_ident(schemaname) || '.' || quote_ident(sequencename) AS name, last_value::text AS value
+  FROM pg_sequences
+`;
+
+/** Definitions longer than this are not repeated in the list of altered objects */
+const MAX_SHOWN_DEFINITION = 200;
+
+interface CatalogEntry {
+  definition: string;
+  id: string | null;
+  parent: string | null;
+}
+
+async function sequenceValues(db: DatabaseConnection): Promise<Map<string, string | null>> {
+  const rows = await db.query<{ name: string; value: string | null }>(SEQUENCE_VALUES_SQL);
+  return new Map(rows.map(row => [row.name, row.value]));
+}
+
+/** Sequences of `before` whose value changed; those the work created are rolled back with it */
+function advancedSequences(before: Map<string, string | null>, after: Map<string, string | null>): string[] {
+  return [...before]
+    .filter(([name, value]) => after.has(name) && after.get(name) !== value)
+    .map(([name, value]) => `sequence ${name}: ${value ?? '(unused)'} -> ${after.get(name) ?? '(unused)'}`);
+}
+
+async function catalogSnapshot(db: DatabaseConnection): Promise<Map<string, CatalogEntry>> {
+  const rows = await db.query<{ key: string; definition: string | null; id: number | null; parent: number | null }>(CATALOG_SNAPSHOT_SQL);
+  return new Map(rows.map(row => [row.key, {
+    definition: row.definition ?? '',
+    id: row.id === null ? null : String(row.id),
+    parent: row.parent === null ? null : String(row.parent)
+  }]));
+}
+
+/** Keys in `snapshot` but not in `other`, leaving out the parts of relations that are listed themselves */
+function missingFrom(snapshot: Map<string, CatalogEntry>, other: Map<string, CatalogEntry>): string[] {
+  const missing = [...snapshot].filter(([key]) => !other.has(key));
+  const relations = new Set(missing.map(([, entry]) => entry.id).filter(id => id !== null));
+  return missing.filter(([, entry]) => entry.parent === null || !relations.has(entry.parent)).map(([key]) => key);
+}
+
+function diffCatalog(before: Map<string, CatalogEntry>, after: Map<string, CatalogEntry>): Omit<CatalogChanges, 'advanced'> {
+  const altered: string[] = [];
+  for (const [key, { definition }] of after) {
+    const previous = before.get(key)?.definition;
+    if (previous !== undefined && previous !== definition) {
+      const shown = previous.length <= MAX_SHOWN_DEFINITION && definition.length <= MAX_SHOWN_DEFINITION;
+      altered.push(shown ? `${key}: ${previous || '(none)'} -> ${definition || '(none)'}` : key);
+    }
+  }
+  return { created: missingFrom(after, before), dropped: missingFrom(before, after), altered };
+}
+
+/**
+ * Throw when `sql` calls functions whose effects the rollback does not undo
+ * (sequences, notifications, advisory locks, ...), so a dry run would not be
+ * one. Fragments such as WHERE clauses are checked the same way.
+ */
+export function assertDryRunnable(sql: string[]): void {
+  const sideEffects = sql.flatMap(text => parseSql(text)).flatMap(statement => statement.functionCalls).filter(isSideEffectFunction);
+  if (sideEffects.length > 0) {
+    throw new Error(`A dry run would call functions whose effects are not rolled back: ${[...new Set(sideEffects)].join(', ')}`);
+  }
+}
+
+/**
+ * Run `work` on `db` in a transaction that is always rolled back, returning
+ * its result and the catalog changes it made, with the sequences it advanced.
+ * Errors of `work` are thrown after the rollback, like those of
+ * `transaction()`.
+ */
+export async function executeDryRun<T>(db: DatabaseConnection, work: () => Promise<T>): Promise<{ result: T; catalogChanges: CatalogChanges }> {
+  return db.transaction(async () => {
+    const before = await catalogSnapshot(db);
+    const sequencesBefore = await sequenceValues(db);
+    const result = await work();
+    const after = await catalogSnapshot(db);
+    const advanced = advancedSequences(sequencesBefore, await sequenceValues(db));
+    return { result, catalogChanges: { ...diffCatalog(before, after), advanced } };
+  }, { rollback: true });
+}
+
+/** Catalog changes as lines for a tool response; empty when there are none */
+export function formatCatalogChanges(changes: CatalogChanges): string {
+  const sections: Array<[string, string[]]> = [
+    ['Created', changes.created],
+    ['Dropped', changes.dropped],
+    ['Altered', changes.altered],
+    ['Advanced (not rolled back)', changes.advanced]
+  ];
+  return sections
+    .filter(([, items]) => items.length > 0)
+    .map(([label, items]) => `${label}:\n${items.map(item => `- ${item}`).join('\n')}`)
+    .join('\n');
+}
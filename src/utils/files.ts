@@ -0,0 +1,108 @@
+import { constants, existsSync, mkdirSync, openSync, realpathSync } from 'node:fs';
+import path from 'node:path';
+
+/** Directory `sierra_export` writes to; exports are disabled while unset */
+let exportDirectory: string | null = null;
+
+export function setExportDirectory(directory: string): void {
+  mkdirSync(directory, { recursive: true });
+  exportDirectory = realpathSync(directory);
+}
+
+export function getExportDirectory(): string | null {
+  return exportDirectory;
+}
+
+/** Directory `sierra_import` reads files from; file imports are disabled while unset */
+let importDirectory: string | null = null;
+
+export function setImportDirectory(directory: string): void {
+  importDirectory = realpathSync(directory);
+}
+
+export function getImportDirectory(): string | null {
+  return importDirectory;
+}
+
+/** Directory `sierra_manage_migrations` reads migration files from; the tool is hidden while unset */
+let migrationsDirectory: string | null = null;
+
+export function setMigrationsDirectory(directory: string): void {
+  migrationsDirectory = realpathSync(directory);
+}
+
+export function getMigrationsDirectory(): string | null {
+  return migrationsDirectory;
+}
+
+/**
+ * Absolute path of `fileName` inside `directory`. Absolute names, `..`
+ * segments and symlinked subdirectories that lead outside are rejected;
+ * missing subdirectories are created, once the deepest existing one has been
+ * checked.
+ */
+export function resolveFileInside(directory: string, fileName: string): string {
+  if (!fileName.trim() || path.isAbsolute(fileName)) {
+    throw new Error(`File name must be relative to ${directory}: "${fileName}"`);
+  }
+  const resolved = path.resolve(directory, fileName);
+  if (!resolved.startsWith(directory + path.sep)) {
+    throw new Error(`File name leads outside ${directory}: "${fileName}"`);
+  }
+  const missing: string[] = [];
+  let existing = path.dirname(resolved);
+  while (!existsSync(existing)) {
+    missing.unshift(path.basename(existing));
+    existing = path.dirname(existing);
+  }
+  let parent = realpathSync(existing);
+  if (parent !== directory && !parent.startsWith(directory + path.sep)) {
+    throw new Error(`File name leads outside ${directory}: "${fileName}"`);
+  }
+  for (const segment of missing) {
+    parent = path.join(parent, segment);
+    mkdirSync(parent);
+  }
+  return path.join(parent, path.basename(resolved));
+}
+
+/**
+ * Open the file `resolveFileInside()` returned for writing, creating or
+ * truncating it. A symlink at the file name is not followed, since it could
+ * lead outside the directory.
+ */
+export function openFileForWriting(filePath: string): number {
+  try {
+    return openSync(filePath, constants.O_WRONLY | constants.O_CREAT | constants.O_TRUNC | (constants.O_NOFOLLOW ?? 0), 0o644);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ELOOP') {
+      throw new Error(`${filePath} is a symlink; it is not written through`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Absolute path of the existing file `fileName` inside `directory`, with the
+ * same checks as `resolveFileInside()`; a symlink to a file outside is
+ * rejected as well.
+ */
+export function resolveExistingFileInside(directory: string, fileName: string): string {
+  if (!fileName.trim() || path.isAbsolute(fileName)) {
+    throw new Error(`File name must be relative to ${directory}: "${fileName}"`);
+  }
+  const resolved = path.resolve(directory, fileName);
+  if (!resolved.startsWith(directory + path.sep)) {
+    throw new Error(`File name leads outside ${directory}: "${fileName}"`);
+  }
+  let real: string;
+  try {
+    real = realpathSync(resolved);
+  } catch {
+    throw new Error(`File not found in ${directory}: "${fileName}"`);
+  }
+  if (!real.startsWith(directory + path.sep)) {
+    throw new Error(`File name leads outside ${directory}: "${fileName}"`);
+  }
+  return real;
+}
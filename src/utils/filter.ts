@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+/**
+ * Structured row filters: conditions on columns combined with AND/OR groups,
+ * compiled to a WHERE clause whose values are all bind parameters.
+ */
+
+const FILTER_OPERATORS = [
+  '=', '!=', '<>', '<', '<=', '>', '>=',
+  'like', 'ilike', 'not like', 'not ilike',
+  'in', 'not in', 'is null', 'is not null'
+] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export interface FilterCondition {
+  column: string;
+  op: FilterOperator;
+  value?: unknown;
+}
+
+export type Filter = FilterCondition | { and: Filter[] } | { or: Filter[] };
+
+const FilterConditionSchema = z.object({
+  column: z.string().min(1).describe('Column name'),
+  op: z.enum(FILTER_OPERATORS).describe('Comparison operator; "in" and "not in" take an array value, "is null" and "is not null" none'),
+  value: z.unknown().optional().describe('Value to compare with, passed as a bind parameter')
+}).strict();
+
+export const FilterSchema: z.ZodType<Filter> = z.lazy(() => z.union([
+  FilterConditionSchema,
+  z.object({ and: z.array(FilterSchema).min(1) }).strict(),
+  z.object({ or: z.array(FilterSchema).min(1) }).strict()
+]));
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Compile `filter` (a list is an AND of its items) to SQL. Placeholders are
+ * numbered from `firstParameter`, so the values can follow other parameters
+ * of the statement. `= null` and `!= null` become IS NULL / IS NOT NULL.
+ */
+export function compileFilter(filter: Filter | Filter[], firstParameter = 1): { sql: string; values: unknown[] } {
+  const values: unknown[] = [];
+  const placeholder = (value: unknown) => {
+    values.push(value);
+    return `$${firstParameter + values.length - 1}`;
+  };
+
+  const compile = (item: Filter, nested: boolean): string => {
+    if ('and' in item || 'or' in item) {
+      const [keyword, items] = 'and' in item ? ['AND', item.and] : ['OR', item.or];
+      const parts = items.map(part => compile(part, true));
+      return parts.length > 1 && nested ? `(${parts.join(` ${keyword} `)})` : parts.join(` ${keyword} `);
+    }
+
+    const column = quoteIdentifier(item.column);
+    const value = item.value;
+    switch (item.op) {
+      case 'is null':
+        return `${column} IS NULL`;
+      case 'is not null':
+        return `${column} IS NOT NULL`;
+      case 'in':
+      case 'not in':
+        if (!Array.isArray(value)) {
+          throw new Error(`Filter on ${item.column}: "${item.op}" needs an array value`);
+        }
+        return item.op === 'in' ? `${column} = ANY(${placeholder(value)})` : `${column} <> ALL(${placeholder(value)})`;
+      default:
+        if (value === undefined) {
+          throw new Error(`Filter on ${item.column}: "${item.op}" needs a value`);
+        }
+        if (value === null && (item.op === '=' || item.op === '!=' || item.op === '<>')) {
+          return `${column} IS ${item.op === '=' ? '' : 'NOT '}NULL`;
+        }
+        return `${column} ${item.op.toUpperCase()} ${placeholder(value)}`;
+    }
+  };
+
+  const items = Array.isArray(filter) ? filter : [filter];
+  if (items.length === 0) {
+    throw new Error('Filter must contain at least one condition');
+  }
+  return { sql: compile({ and: items }, false), values };
+}
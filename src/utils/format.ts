@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { formatJson, formatRowsWithin } from './budget.js';
+
+/**
+ * Shared rendering of tabular tool results. JSON is the default; the text
+ * formats spend far fewer tokens on wide or long results.
+ */
+export const OutputFormatSchema = z
+  .enum(['json', 'markdown', 'csv', 'ndjson', 'columns'])
+  .optional()
+  .default('json')
+  .describe('Result format: json (default), markdown (table), csv, ndjson (one JSON object per line), columns (compact JSON with a column list and one array per row)');
+
+export type OutputFormat = z.infer<typeof OutputFormatSchema>;
+
+export interface FormatColumn {
+  name: string;
+  typeName?: string;
+}
+
+/**
+ * Render result rows in `format`, within the response budget. `columns`
+ * (names and types, e.g. from `querySerialized()`) defaults to the keys of
+ * the rows; `hint` tells the agent how to get rows the budget left out.
+ */
+export function formatRows(
+  rows: Record<string, unknown>[],
+  format: OutputFormat = 'json',
+  options: { columns?: FormatColumn[]; hint?: string } = {}
+): string {
+  const { columns, hint } = options;
+  const names = columns?.map(column => column.name) ?? columnNames(rows);
+
+  switch (format) {
+    case 'markdown':
+      return typesLine(columns) + formatRowsWithin(rows, kept => renderMarkdown(names, kept as Record<string, unknown>[]), hint);
+    case 'csv':
+      return typesLine(columns) + formatRowsWithin(rows, kept => renderCsv(names, kept as Record<string, unknown>[]), hint);
+    case 'ndjson':
+      return typesLine(columns) + formatRowsWithin(rows, kept => kept.map(row => JSON.stringify(row)).join('\n'), hint);
+    case 'columns':
+      return formatRowsWithin(rows, kept => renderColumns(columns ?? names, names, kept as Record<string, unknown>[]), hint);
+    default:
+      return formatJson(columns ? { columns, rows } : rows, hint);
+  }
+}
+
+/** Keys of all rows, in order of first appearance */
+function columnNames(rows: Record<string, unknown>[]): string[] {
+  const names = new Set<string>();
+  for (const row of rows) {
+    Object.keys(row).forEach(name => names.add(name));
+  }
+  return [...names];
+}
+
+/** Column types for the formats whose output has no room for them */
+function typesLine(columns: FormatColumn[] | undefined): string {
+  if (!columns?.some(column => column.typeName)) {
+    return '';
+  }
+  return `Column types: ${columns.map(column => `${column.name} ${column.typeName ?? 'unknown'}`).join(', ')}\n\n`;
+}
+
+function cellText(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function renderMarkdown(names: string[], rows: Record<string, unknown>[]): string {
+  const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  const lines = [
+    `| ${names.map(escape).join(' | ')} |`,
+    `|${names.map(() => '---').join('|')}|`
+  ];
+  for (const row of rows) {
+    lines.push(`| ${names.map(name => row[name] === null || row[name] === undefined ? 'NULL' : escape(cellText(row[name]))).join(' | ')} |`);
+  }
+  return lines.join('\n');
+}
+
+/** One RFC 4180 CSV line; NULL is an empty field and an empty string is `""`, as `COPY ... CSV` writes them */
+export function csvLine(values: unknown[]): string {
+  return values.map(value => {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    const text = cellText(value);
+    return text === '' || /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',');
+}
+
+function renderCsv(names: string[], rows: Record<string, unknown>[]): string {
+  return [csvLine(names), ...rows.map(row => csvLine(names.map(name => row[name])))].join('\n');
+}
+
+function renderColumns(columns: Array<FormatColumn | string>, names: string[], rows: Record<string, unknown>[]): string {
+  const lines = rows.map(row => JSON.stringify(names.map(name => row[name] ?? null)));
+  return `{"columns": ${JSON.stringify(columns)},\n"rows": [\n${lines.join(',\n')}\n]}`;
+}
@@ -0,0 +1,326 @@
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { DatabaseConnection } from './connection.js';
+import { parseSql } from './sql.js';
+
+/**
+ * Versioned migrations: numbered `<version>_<name>.up.sql` files, each with
+ * an optional `<version>_<name>.down.sql`, in the migrations directory. The
+ * migrations applied to a database are recorded in its `sierra_migrations`
+ * table with the checksum of the up file, so edits to applied files show up.
+ */
+
+export const MIGRATIONS_TABLE = 'sierra_migrations';
+
+/** Key of the session advisory lock held while migrations run */
+const MIGRATION_LOCK_KEY = 740_920_250;
+
+const MIGRATION_FILE = /^(\d+)_([A-Za-z0-9_-]+)\.(up|down)\.sql$/;
+
+export interface MigrationFile {
+  /** Version without leading zeros */
+  version: string;
+  name: string;
+  upFile: string;
+  downFile?: string;
+  up: string;
+  down?: string;
+  /** SHA-256 of the up file */
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: string;
+  appliedBy: string;
+  executionMs: number;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing file';
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  appliedAt?: string;
+  hasDown: boolean;
+}
+
+export interface MigrationIssue {
+  version: string;
+  name: string;
+  problem: string;
+}
+
+export interface MigrationRun {
+  applied: Array<{ version: string; name: string; executionMs: number }>;
+  /** The migration that failed, after which the run stopped */
+  failed?: { version: string; name: string; error: string };
+}
+
+function normalizeVersion(version: string): string {
+  return BigInt(version).toString();
+}
+
+function compareVersions(a: string, b: string): number {
+  const diff = BigInt(a) - BigInt(b);
+  return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+}
+
+function checksum(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function label(migration: { version: string; name: string }): string {
+  return `${migration.version} (${migration.name})`;
+}
+
+/**
+ * The migrations in `directory`, by ascending version. Other `.sql` file
+ * names, two migrations with one version and down files without an up file
+ * are rejected; files that are not `.sql` are ignored.
+ */
+export function loadMigrations(directory: string): MigrationFile[] {
+  const byVersion = new Map<string, { name: string; files: Partial<Record<'up' | 'down', string>> }>();
+  for (const file of readdirSync(directory).sort()) {
+    if (!file.endsWith('.sql')) {
+      continue;
+    }
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      throw new Error(`Invalid migration file name "${file}": expected <version>_<name>.up.sql or <version>_<name>.down.sql`);
+    }
+    const [, rawVersion, name, direction] = match;
+    const version = normalizeVersion(rawVersion);
+    const entry = byVersion.get(version) ?? { name, files: {} };
+    if (entry.name !== name || entry.files[direction as 'up' | 'down']) {
+      throw new Error(`Migration version ${version} is used by more than one migration ("${file}")`);
+    }
+    entry.files[direction as 'up' | 'down'] = file;
+    byVersion.set(version, entry);
+  }
+
+  const migrations: MigrationFile[] = [];
+  for (const [version, { name, files }] of byVersion) {
+    if (!files.up) {
+      throw new Error(`Migration ${version} (${name}) has a down file but no up file`);
+    }
+    const up = readFileSync(path.join(directory, files.up), 'utf8');
+    const down = files.down ? readFileSync(path.join(directory, files.down), 'utf8') : undefined;
+    migrations.push({ version, name, upFile: files.up, downFile: files.down, up, down, checksum: checksum(up) });
+  }
+  return migrations.sort((a, b) => compareVersions(a.version, b.version));
+}
+
+/** Migrations recorded in the history table, by ascending version; none when the table does not exist yet */
+export async function getAppliedMigrations(db: DatabaseConnection): Promise<AppliedMigration[]> {
+  const exists = await db.queryOne<{ exists: boolean }>('SELECT to_regclass($1) IS NOT NULL AS exists', [MIGRATIONS_TABLE]);
+  if (!exists?.exists) {
+    return [];
+  }
+  const rows = await db.query<{
+    version: string;
+    name: string;
+    checksum: string;
+    applied_at: Date;
+    applied_by: string;
+    execution_ms: number;
+  }>(`SELECT version, name, checksum, applied_at, applied_by, execution_ms FROM ${MIGRATIONS_TABLE} ORDER BY version`);
+  return rows.map(row => ({
+    version: String(row.version),
+    name: row.name,
+    checksum: row.checksum,
+    appliedAt: row.applied_at.toISOString(),
+    appliedBy: row.applied_by,
+    executionMs: row.execution_ms
+  }));
+}
+
+/** Every migration in the directory or the history table, with its state */
+export function migrationStatus(files: MigrationFile[], applied: AppliedMigration[]): MigrationStatus[] {
+  const filesByVersion = new Map(files.map(file => [file.version, file]));
+  const appliedByVersion = new Map(applied.map(row => [row.version, row]));
+  const versions = [...new Set([...filesByVersion.keys(), ...appliedByVersion.keys()])].sort(compareVersions);
+  return versions.map(version => {
+    const file = filesByVersion.get(version);
+    const row = appliedByVersion.get(version);
+    const state: MigrationState = !row ? 'pending' : !file ? 'missing file' : file.checksum !== row.checksum ? 'modified' : 'applied';
+    return { version, name: file?.name ?? row!.name, state, appliedAt: row?.appliedAt, hasDown: file?.down !== undefined };
+  });
+}
+
+/**
+ * Problems that make the history and the directory disagree: applied
+ * migrations whose up file changed or is gone, pending migrations older than
+ * the newest applied one, and files with transaction control statements.
+ */
+export function verifyMigrations(files: MigrationFile[], applied: AppliedMigration[]): MigrationIssue[] {
+  const issues: MigrationIssue[] = [];
+  const newestApplied = applied[applied.length - 1]?.version;
+  for (const { version, name, state } of migrationStatus(files, applied)) {
+    if (state === 'modified') {
+      issues.push({ version, name, problem: 'The up file changed after the migration was applied' });
+    } else if (state === 'missing file') {
+      issues.push({ version, name, problem: 'Applied, but its up file is not in the migrations directory' });
+    } else if (state === 'pending' && newestApplied !== undefined && compareVersions(version, newestApplied) < 0) {
+      issues.push({ version, name, problem: `Pending, but older than the newest applied migration ${newestApplied}; up applies it next` });
+    }
+  }
+  for (const file of files) {
+    for (const [direction, sql] of [['up', file.up], ['down', file.down]] as const) {
+      const control = sql === undefined ? '' : transactionControl(sql);
+      if (control) {
+        issues.push({ version: file.version, name: file.name, problem: `The ${direction} file contains transaction control statements (${control}); each migration already runs in its own transaction` });
+      }
+    }
+  }
+  return issues;
+}
+
+function transactionControl(sql: string): string {
+  return parseSql(sql).filter(statement => statement.kind === 'transaction').map(statement => statement.command).join(', ');
+}
+
+/** Pending migrations up to `target` (all when omitted), oldest first */
+export function planUp(files: MigrationFile[], applied: AppliedMigration[], target?: string): MigrationFile[] {
+  const appliedVersions = new Set(applied.map(row => row.version));
+  return files.filter(file => !appliedVersions.has(file.version) && (target === undefined || compareVersions(file.version, target) <= 0));
+}
+
+/**
+ * Applied migrations newer than `target`, newest first; only the newest one
+ * when `target` is omitted. Every one needs its down file.
+ */
+export function planDown(files: MigrationFile[], applied: AppliedMigration[], target?: string): Array<MigrationFile | AppliedMigration> {
+  const filesByVersion = new Map(files.map(file => [file.version, file]));
+  const reverted = target === undefined
+    ? applied.slice(-1)
+    : applied.filter(row => compareVersions(row.version, target) > 0);
+  return reverted.reverse().map(row => filesByVersion.get(row.version) ?? row);
+}
+
+/**
+ * The files of the migrations `planUp()` or `planDown()` chose, after
+ * checking that they can run: reverted migrations need a down file, applied
+ * ones an unchanged up file, and no file may control the transaction itself.
+ * Nothing is applied on top of an applied migration whose up file changed.
+ */
+export function checkRunnable(
+  migrations: Array<MigrationFile | AppliedMigration>,
+  direction: 'up' | 'down',
+  files: MigrationFile[],
+  applied: AppliedMigration[]
+): MigrationFile[] {
+  const modified = direction === 'up' ? migrationStatus(files, applied).find(status => status.state === 'modified') : undefined;
+  if (modified && migrations.length > 0) {
+    throw new Error(`Migration ${label(modified)} changed after it was applied; run verify and restore the file first`);
+  }
+  const appliedByVersion = new Map(applied.map(row => [row.version, row]));
+  return migrations.map(migration => {
+    if (!('up' in migration)) {
+      throw new Error(`Migration ${label(migration)} cannot be reverted: its files are not in the migrations directory`);
+    }
+    const sql = direction === 'up' ? migration.up : migration.down;
+    if (sql === undefined) {
+      throw new Error(`Migration ${label(migration)} cannot be reverted: it has no down file`);
+    }
+    const row = appliedByVersion.get(migration.version);
+    if (row && row.checksum !== migration.checksum) {
+      throw new Error(`Migration ${label(migration)} changed after it was applied; run verify and restore the file first`);
+    }
+    const control = transactionControl(sql);
+    if (control) {
+      throw new Error(`Migration ${label(migration)} contains transaction control statements (${control}); each migration already runs in its own transaction`);
+    }
+    return migration;
+  });
+}
+
+/**
+ * Run `work` holding the migration advisory lock of the database. The lock is
+ * a session lock, so it spans the separate transaction of each migration.
+ */
+async function withMigrationLock<T>(db: DatabaseConnection, work: () => Promise<T>): Promise<T> {
+  const lock = await db.queryOne<{ locked: boolean }>('SELECT pg_try_advisory_lock($1) AS locked', [MIGRATION_LOCK_KEY]);
+  if (!lock?.locked) {
+    throw new Error('Another migration run holds the migration lock of this database; try again when it has finished');
+  }
+  try {
+    return await work();
+  } finally {
+    await db.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+  }
+}
+
+/** Create the history table if this database has none yet */
+export async function ensureMigrationsTable(db: DatabaseConnection): Promise<void> {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      version bigint PRIMARY KEY,
+      name text NOT NULL,
+      checksum text NOT NULL,
+      applied_at timestamptz NOT NULL DEFAULT now(),
+      applied_by text NOT NULL DEFAULT current_user,
+      execution_ms integer NOT NULL
+    )`);
+}
+
+/**
+ * Run `migrations` (checked by `checkRunnable()`) one by one, each in its own
+ * transaction together with its history row, under the migration lock. The
+ * history is read again under the lock, so a migration another run applied
+ * or reverted in the meantime is not run twice. The run stops at the first
+ * migration that fails; the ones before it stay applied.
+ */
+export async function runMigrations(
+  db: DatabaseConnection,
+  direction: 'up' | 'down',
+  migrations: MigrationFile[],
+  options: { timeout?: number } = {}
+): Promise<MigrationRun> {
+  return withMigrationLock(db, async () => {
+    const appliedVersions = new Set((await getAppliedMigrations(db)).map(row => row.version));
+    const stale = migrations.filter(migration => appliedVersions.has(migration.version) !== (direction === 'down'));
+    if (stale.length > 0) {
+      throw new Error(`Migration ${label(stale[0])} was ${direction === 'up' ? 'applied' : 'reverted'} by another run; check the status and try again`);
+    }
+
+    const run: MigrationRun = { applied: [] };
+    for (const migration of migrations) {
+      const started = Date.now();
+      try {
+        await db.transaction(async () => {
+          await db.query(direction === 'up' ? migration.up : migration.down!, [], options);
+          if (direction === 'up') {
+            await db.query(
+              `INSERT INTO ${MIGRATIONS_TABLE} (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)`,
+              [migration.version, migration.name, migration.checksum, Date.now() - started]
+            );
+          } else {
+            await db.query(`DELETE FROM ${MIGRATIONS_TABLE} WHERE version = $1`, [migration.version]);
+          }
+        });
+      } catch (error) {
+        run.failed = { version: migration.version, name: migration.name, error: error instanceof Error ? error.message : String(error) };
+        break;
+      }
+      run.applied.push({ version: migration.version, name: migration.name, executionMs: Date.now() - started });
+    }
+    return run;
+  });
+}
+
+/** Version argument as it is compared with the files and the history */
+export function parseTargetVersion(target: string | number | undefined): string | undefined {
+  if (target === undefined) {
+    return undefined;
+  }
+  const text = String(target);
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Invalid target version "${text}": use the number that starts the migration file names`);
+  }
+  return normalizeVersion(text);
+}
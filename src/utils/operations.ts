@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import type { SierraTool } from '../types/tool.js';
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return unwrap(schema._def.innerType);
+  }
+  return schema;
+}
+
+/** Values of the tool's `operation` enum, or undefined for tools without one */
+export function getToolOperations(tool: SierraTool): string[] | undefined {
+  if (!(tool.inputSchema instanceof z.ZodObject)) {
+    return undefined;
+  }
+  const operation = tool.inputSchema.shape.operation as z.ZodTypeAny | undefined;
+  const inner = operation ? unwrap(operation) : undefined;
+  return inner instanceof z.ZodEnum ? [...inner.options] as string[] : undefined;
+}
+
+/** True when the tool's input schema declares the given argument */
+export function hasToolArgument(tool: SierraTool, name: string): boolean {
+  return tool.inputSchema instanceof z.ZodObject && name in tool.inputSchema.shape;
+}
+
+/**
+ * Advertise only the given operations: the `operation` enum in the input
+ * schema is narrowed and the description gets a note. Calls are not checked
+ * here; callers enforce the restriction themselves.
+ */
+export function narrowToolOperations(tool: SierraTool, allowed: [string, ...string[]], note: string): SierraTool {
+  const inputSchema = tool.inputSchema instanceof z.ZodObject
+    ? tool.inputSchema.extend({
+        operation: z.enum(allowed).describe(`Operation (${note}): ${allowed.join(', ')}`)
+      })
+    : tool.inputSchema;
+
+  return {
+    ...tool,
+    description: `${tool.description} (${note}: only ${allowed.join(', ')} available)`,
+    inputSchema
+  };
+}
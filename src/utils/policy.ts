@@ -0,0 +1,206 @@
+import fs from 'node:fs';
+import { z } from 'zod';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { SierraTool } from '../types/tool.js';
+import { getToolOperations, hasToolArgument, narrowToolOperations } from './operations.js';
+import { parseSql } from './sql.js';
+
+const AccessRulesSchema = z.object({
+  allow: z.array(z.string()).optional().describe('Patterns that are allowed; anything else is denied'),
+  deny: z.array(z.string()).optional().describe('Patterns that are denied, even when allowed')
+});
+
+const RestrictionsSchema = z.object({
+  schemas: AccessRulesSchema.optional(),
+  tables: AccessRulesSchema.optional(),
+  maxLimit: z.number().int().positive().optional(),
+  maxTimeout: z.number().int().positive().optional()
+});
+
+const ToolRulesSchema = RestrictionsSchema.extend({
+  enabled: z.boolean().optional(),
+  allowOperations: z.array(z.string()).optional(),
+  denyOperations: z.array(z.string()).optional()
+});
+
+const PolicyFileSchema = RestrictionsSchema.extend({
+  enabledTools: z.array(z.string()).optional(),
+  tools: z.record(ToolRulesSchema).optional()
+});
+
+export type ToolPolicy = z.infer<typeof PolicyFileSchema>;
+type ToolRules = z.infer<typeof ToolRulesSchema>;
+type AccessRules = z.infer<typeof AccessRulesSchema>;
+
+/** Validate a policy object; `source` names it in error messages */
+export function parsePolicy(data: unknown, source: string): ToolPolicy {
+  const parsed = PolicyFileSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`Invalid tool policy in ${source}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Load a tool policy (the `--tools-config` file). A plain `{ "enabledTools": [...] }`
+ * file is still a valid policy.
+ */
+export function loadPolicy(path: string): ToolPolicy {
+  return parsePolicy(JSON.parse(fs.readFileSync(path, 'utf-8')), path);
+}
+
+/** Tool-level rules, falling back to the policy-wide restrictions */
+function resolveRules(policy: ToolPolicy, toolName: string): ToolRules {
+  const rules = policy.tools?.[toolName] ?? {};
+  return {
+    ...rules,
+    schemas: rules.schemas ?? policy.schemas,
+    tables: rules.tables ?? policy.tables,
+    maxLimit: rules.maxLimit ?? policy.maxLimit,
+    maxTimeout: rules.maxTimeout ?? policy.maxTimeout
+  };
+}
+
+/** Operations the policy allows, or undefined when operations are not restricted */
+function allowedOperations(rules: ToolRules, tool: SierraTool): string[] | undefined {
+  const operations = getToolOperations(tool);
+  if (!operations || (!rules.allowOperations && !rules.denyOperations)) {
+    return undefined;
+  }
+  return operations.filter(op =>
+    (!rules.allowOperations || rules.allowOperations.includes(op)) && !rules.denyOperations?.includes(op)
+  );
+}
+
+function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+}
+
+function isAllowed(rules: AccessRules | undefined, matches: (pattern: string) => boolean): boolean {
+  if (!rules) {
+    return true;
+  }
+  if (rules.allow && !rules.allow.some(matches)) {
+    return false;
+  }
+  return !rules.deny?.some(matches);
+}
+
+/** Problems worth logging at startup: unknown tools and operations */
+export function getPolicyWarnings(policy: ToolPolicy, tools: SierraTool[]): string[] {
+  const warnings: string[] = [];
+  const names = [...(policy.enabledTools ?? []), ...Object.keys(policy.tools ?? {})];
+
+  for (const name of new Set(names)) {
+    const tool = tools.find(t => t.name === name);
+    if (!tool) {
+      warnings.push(`Tool "${name}" specified in config but not found.`);
+      continue;
+    }
+    const rules = policy.tools?.[name];
+    const operations = getToolOperations(tool);
+    for (const op of [...(rules?.allowOperations ?? []), ...(rules?.denyOperations ?? [])]) {
+      if (!operations?.includes(op)) {
+        warnings.push(`Operation "${op}" specified for tool "${name}" does not exist.`);
+      }
+    }
+  }
+  return warnings;
+}
+
+/**
+ * The tool as the policy exposes it: null when disabled or when no operation
+ * is left, otherwise with the advertised `operation` enum narrowed.
+ */
+export function applyPolicyToTool(policy: ToolPolicy, tool: SierraTool): SierraTool | null {
+  if (policy.enabledTools && !policy.enabledTools.includes(tool.name)) {
+    return null;
+  }
+  const rules = resolveRules(policy, tool.name);
+  if (rules.enabled === false) {
+    return null;
+  }
+
+  const allowed = allowedOperations(rules, tool);
+  if (!allowed) {
+    return tool;
+  }
+  if (allowed.length === 0) {
+    return null;
+  }
+  return allowed.length === getToolOperations(tool)?.length
+    ? tool
+    : narrowToolOperations(tool, allowed as [string, ...string[]], 'restricted by policy');
+}
+
+/**
+ * Check a tool call against the policy before it runs. Returns the arguments
+ * to pass on, with `limit`/`timeout` defaulted to their caps when omitted.
+ */
+export function enforcePolicy(policy: ToolPolicy, tool: SierraTool, args: unknown): unknown {
+  const violation = (message: string) => new McpError(ErrorCode.InvalidRequest, `Policy violation: ${message}`);
+  const rules = resolveRules(policy, tool.name);
+  const input = (args && typeof args === 'object' ? args : {}) as Record<string, unknown>;
+
+  const allowed = allowedOperations(rules, tool);
+  if (allowed && typeof input.operation === 'string' && !allowed.includes(input.operation)) {
+    throw violation(`operation "${input.operation}" of ${tool.name} is not allowed (allowed: ${allowed.join(', ') || 'none'})`);
+  }
+
+  const checkSchema = (schema: string) => {
+    if (!isAllowed(rules.schemas, pattern => globToRegExp(pattern).test(schema))) {
+      throw violation(`schema "${schema}" is not allowed for ${tool.name}`);
+    }
+  };
+  // Patterns with a dot match "schema.table", others match the table name alone
+  const checkTable = (schema: string, table: string) => {
+    checkSchema(schema);
+    const matches = (pattern: string) => globToRegExp(pattern).test(pattern.includes('.') ? `${schema}.${table}` : table);
+    if (!isAllowed(rules.tables, matches)) {
+      throw violation(`table "${schema}.${table}" is not allowed for ${tool.name}`);
+    }
+  };
+
+  if (rules.schemas || rules.tables) {
+    const schema = typeof input.schema === 'string' ? input.schema : 'public';
+    if (hasToolArgument(tool, 'schema')) {
+      checkSchema(schema);
+    }
+    if (typeof input.targetSchema === 'string') {
+      checkSchema(input.targetSchema);
+    }
+    for (const key of ['table', 'tableName', 'viewName']) {
+      if (typeof input[key] === 'string') {
+        checkTable(schema, input[key] as string);
+      }
+    }
+    if (typeof input.referencedTable === 'string') {
+      checkTable(typeof input.referencedSchema === 'string' ? input.referencedSchema : schema, input.referencedTable);
+    }
+    // Unqualified names in SQL text are checked as public.<name>
+    for (const key of ['query', 'sql']) {
+      if (typeof input[key] === 'string') {
+        for (const statement of parseSql(input[key] as string)) {
+          for (const relation of statement.relations) {
+            checkTable(relation.schema ?? 'public', relation.name);
+          }
+        }
+      }
+    }
+  }
+
+  const result = { ...input };
+  const caps: Array<[string, number | undefined]> = [['limit', rules.maxLimit], ['timeout', rules.maxTimeout]];
+  for (const [key, max] of caps) {
+    if (max === undefined || !hasToolArgument(tool, key)) {
+      continue;
+    }
+    const value = input[key];
+    if (value === undefined) {
+      result[key] = max;
+    } else if (typeof value === 'number' && value > max) {
+      throw violation(`${key} ${value} exceeds the maximum of ${max} allowed for ${tool.name}`);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,131 @@
+import fs from 'node:fs';
+import { z } from 'zod';
+import type { ConnectionOptions } from './connection.js';
+
+const SslOptionsSchema = z.union([
+  z.boolean(),
+  z.object({
+    rejectUnauthorized: z.boolean().optional(),
+    ca: z.string().optional().describe('CA certificate (PEM)'),
+    caFile: z.string().optional().describe('Path to a CA certificate file'),
+    cert: z.string().optional().describe('Client certificate (PEM)'),
+    certFile: z.string().optional().describe('Path to a client certificate file'),
+    key: z.string().optional().describe('Client key (PEM)'),
+    keyFile: z.string().optional().describe('Path to a client key file')
+  })
+]);
+
+const ProfileSchema = z.object({
+  description: z.string().optional(),
+  connectionString: z.string().optional(),
+  connectionStringEnv: z.string().optional().describe('Environment variable holding the connection string'),
+  ssl: SslOptionsSchema.optional(),
+  maxConnections: z.number().int().positive().optional(),
+  idleTimeoutMillis: z.number().int().nonnegative().optional(),
+  connectionTimeoutMillis: z.number().int().nonnegative().optional(),
+  statementTimeout: z.number().int().nonnegative().optional(),
+  queryTimeout: z.number().int().nonnegative().optional()
+}).refine(p => Boolean(p.connectionString) !== Boolean(p.connectionStringEnv), {
+  message: 'Exactly one of connectionString or connectionStringEnv is required'
+});
+
+const ProfilesFileSchema = z.object({
+  defaultProfile: z.string().optional(),
+  allowConnectionStringArgument: z.boolean().optional().default(false),
+  profiles: z.record(ProfileSchema)
+});
+
+export interface ConnectionProfile {
+  name: string;
+  description?: string;
+  connectionString: string;
+  options: ConnectionOptions;
+}
+
+let profiles = new Map<string, ConnectionProfile>();
+let defaultProfileName: string | undefined;
+let connectionStringArgumentAllowed = true;
+
+function readPem(inline: string | undefined, file: string | undefined): string | undefined {
+  return file ? fs.readFileSync(file, 'utf-8') : inline;
+}
+
+/**
+ * Load named connection profiles from a JSON file. Once a profiles file is
+ * loaded, raw `connectionString` tool arguments are rejected unless the file
+ * sets `allowConnectionStringArgument`, so credentials stay out of tool calls.
+ */
+export function loadProfiles(path: string): void {
+  const parsed = ProfilesFileSchema.safeParse(JSON.parse(fs.readFileSync(path, 'utf-8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid profiles file ${path}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+
+  const loaded = new Map<string, ConnectionProfile>();
+  for (const [name, profile] of Object.entries(parsed.data.profiles)) {
+    const connectionString = profile.connectionString ?? process.env[profile.connectionStringEnv as string];
+    if (!connectionString) {
+      throw new Error(`Profile "${name}": environment variable ${profile.connectionStringEnv} is not set`);
+    }
+
+    let ssl: ConnectionOptions['ssl'];
+    if (typeof profile.ssl === 'object') {
+      ssl = {
+        rejectUnauthorized: profile.ssl.rejectUnauthorized ?? true,
+        ca: readPem(profile.ssl.ca, profile.ssl.caFile),
+        cert: readPem(profile.ssl.cert, profile.ssl.certFile),
+        key: readPem(profile.ssl.key, profile.ssl.keyFile)
+      };
+    } else {
+      ssl = profile.ssl;
+    }
+
+    loaded.set(name, {
+      name,
+      description: profile.description,
+      connectionString,
+      options: {
+        maxConnections: profile.maxConnections,
+        idleTimeoutMillis: profile.idleTimeoutMillis,
+        connectionTimeoutMillis: profile.connectionTimeoutMillis,
+        statementTimeout: profile.statementTimeout,
+        queryTimeout: profile.queryTimeout,
+        ssl
+      }
+    });
+  }
+
+  if (parsed.data.defaultProfile && !loaded.has(parsed.data.defaultProfile)) {
+    throw new Error(`Default profile "${parsed.data.defaultProfile}" is not defined in ${path}`);
+  }
+
+  profiles = loaded;
+  defaultProfileName = parsed.data.defaultProfile;
+  connectionStringArgumentAllowed = parsed.data.allowConnectionStringArgument;
+}
+
+export function getProfile(name: string): ConnectionProfile | undefined {
+  return profiles.get(name);
+}
+
+export function getDefaultProfile(): ConnectionProfile | undefined {
+  return defaultProfileName ? profiles.get(defaultProfileName) : undefined;
+}
+
+export function listProfiles(): Array<{ name: string; description?: string }> {
+  return [...profiles.values()].map(p => ({ name: p.name, description: p.description }));
+}
+
+export function isConnectionStringArgumentAllowed(): boolean {
+  return connectionStringArgumentAllowed;
+}
+
+/** Options of the profile that owns this connection string, if any */
+export function getProfileOptions(connectionString: string): ConnectionOptions | undefined {
+  for (const profile of profiles.values()) {
+    if (profile.connectionString === connectionString) {
+      return profile.options;
+    }
+  }
+  return undefined;
+}
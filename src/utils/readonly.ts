@@ -0,0 +1,39 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { SierraTool } from '../types/tool.js';
+import { getToolOperations, narrowToolOperations } from './operations.js';
+
+/**
+ * Narrow a tool to the operations it declares as read-only. Returns null when
+ * nothing is left, so the tool can be hidden from the tool list entirely.
+ * The operation enum in the advertised schema is narrowed as well, and calls
+ * for any other operation are rejected before the tool runs.
+ */
+export function restrictToReadOnly(tool: SierraTool): SierraTool | null {
+  if (!tool.readOnlyOperations) {
+    return tool;
+  }
+
+  // Respect operations already removed by the tool policy
+  const available = getToolOperations(tool);
+  const allowed = tool.readOnlyOperations.filter(op => !available || available.includes(op));
+  if (allowed.length === 0) {
+    return null;
+  }
+
+  const narrowed = available && allowed.length === available.length
+    ? tool
+    : narrowToolOperations(tool, allowed as [string, ...string[]], 'read-only mode');
+  return {
+    ...narrowed,
+    execute: async (args, getConnectionString, context) => {
+      const operation = (args as { operation?: unknown } | undefined)?.operation;
+      if (typeof operation !== 'string' || !allowed.includes(operation)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Operation "${String(operation)}" of ${tool.name} is not available: the server is running in read-only mode.`
+        );
+      }
+      return tool.execute(args, getConnectionString, context);
+    }
+  };
+}
@@ -0,0 +1,307 @@
+/**
+ * Lossless encoding of query results. Statements run with every type parser
+ * replaced by the identity (`RAW_TYPES`), so values arrive as PostgreSQL's own
+ * text output and are encoded here from the column types: numbers that fit a
+ * JavaScript number become numbers, `bigint`/`numeric`/`money` and JSON stay
+ * exact strings, arrays, ranges and geometric types are structured,
+ * timestamps keep their offset, and everything else is passed through as text.
+ */
+
+import type { FieldDef } from 'pg';
+
+export type ByteaEncoding = 'hex' | 'base64';
+
+export interface ColumnInfo {
+  /** Key of the column in each row; repeated names get a `_2`, `_3`... suffix */
+  name: string;
+  typeOid: number;
+  /** Type as `format_type()` spells it, e.g. `bigint`, `integer[]`, `timestamp with time zone` */
+  typeName: string;
+}
+
+export interface SerializedResult {
+  columns: ColumnInfo[];
+  rows: Record<string, unknown>[];
+}
+
+export interface PgTypeInfo {
+  name: string;
+  /** `pg_type.typcategory`, e.g. `A` for arrays */
+  category: string;
+  /** Element type of an array */
+  elem: number;
+  delimiter: string;
+  /** Subtype of a range type */
+  rangeSubtype: number | null;
+}
+
+/** Type parsers that keep every value as the text PostgreSQL sent */
+export const RAW_TYPES = {
+  getTypeParser: () => (value: string) => value
+};
+
+type QueryFn = (text: string, values: unknown[]) => Promise<Array<Record<string, unknown>>>;
+
+/** Catalog entries per pool: user-defined type OIDs differ between databases */
+const typeCache = new WeakMap<object, Map<number, PgTypeInfo>>();
+
+/**
+ * Look up `oids` (and the element and range subtypes they need) in `pg_type`,
+ * caching the entries for `cacheKey`.
+ */
+export async function resolveTypes(query: QueryFn, cacheKey: object, oids: number[]): Promise<Map<number, PgTypeInfo>> {
+  let types = typeCache.get(cacheKey);
+  if (!types) {
+    types = new Map();
+    typeCache.set(cacheKey, types);
+  }
+
+  let missing = [...new Set(oids)].filter(oid => !types.has(oid));
+  while (missing.length > 0) {
+    const rows = await query(
+      `SELECT t.oid::int AS oid, format_type(t.oid, NULL) AS name, t.typcategory AS category,
+              t.typelem::int AS elem, t.typdelim AS delimiter, r.rngsubtype::int AS range_subtype
+       FROM pg_type t
+       LEFT JOIN pg_range r ON r.rngtypid = t.oid
+       WHERE t.oid = ANY($1::oid[])`,
+      [missing]
+    );
+    const dependencies: number[] = [];
+    for (const row of rows) {
+      const info: PgTypeInfo = {
+        name: String(row.name),
+        category: String(row.category),
+        elem: Number(row.elem),
+        delimiter: String(row.delimiter),
+        rangeSubtype: row.range_subtype === null ? null : Number(row.range_subtype)
+      };
+      types.set(Number(row.oid), info);
+      if (info.category === 'A' && info.elem) dependencies.push(info.elem);
+      if (info.rangeSubtype) dependencies.push(info.rangeSubtype);
+    }
+    // OIDs the catalog does not know (dropped types) are remembered as plain text
+    for (const oid of missing) {
+      if (!types.has(oid)) {
+        types.set(oid, { name: `oid ${oid}`, category: 'X', elem: 0, delimiter: ',', rangeSubtype: null });
+      }
+    }
+    missing = [...new Set(dependencies)].filter(oid => !types.has(oid));
+  }
+  return types;
+}
+
+/** Encode raw rows (`rowMode: 'array'`) of a result with the column types in `types` */
+export function serializeResult(
+  fields: FieldDef[],
+  rows: Array<Array<string | null>>,
+  types: Map<number, PgTypeInfo>,
+  bytea: ByteaEncoding = 'hex'
+): SerializedResult {
+  const seen = new Map<string, number>();
+  const columns = fields.map(field => {
+    const count = (seen.get(field.name) ?? 0) + 1;
+    seen.set(field.name, count);
+    return {
+      name: count > 1 ? `${field.name}_${count}` : field.name,
+      typeOid: field.dataTypeID,
+      typeName: types.get(field.dataTypeID)?.name ?? `oid ${field.dataTypeID}`
+    };
+  });
+
+  return {
+    columns,
+    rows: rows.map(row => Object.fromEntries(
+      columns.map((column, i) => [column.name, decodeValue(row[i], column.typeOid, types, bytea)])
+    ))
+  };
+}
+
+const OID = {
+  bool: 16,
+  bytea: 17,
+  int2: 21,
+  int4: 23,
+  oid: 26,
+  point: 600,
+  lseg: 601,
+  path: 602,
+  box: 603,
+  polygon: 604,
+  line: 628,
+  float4: 700,
+  float8: 701,
+  circle: 718,
+  timestamp: 1114,
+  timestamptz: 1184
+} as const;
+
+function decodeValue(text: string | null, oid: number, types: Map<number, PgTypeInfo>, bytea: ByteaEncoding): unknown {
+  if (text === null) {
+    return null;
+  }
+  switch (oid) {
+    case OID.bool:
+      return text === 't';
+    case OID.int2:
+    case OID.int4:
+    case OID.oid:
+      return Number(text);
+    case OID.float4:
+    case OID.float8: {
+      // NaN and the infinities have no JSON number
+      const value = Number(text);
+      return Number.isFinite(value) ? value : text;
+    }
+    case OID.bytea:
+      return decodeBytea(text, bytea);
+    case OID.timestamp:
+    case OID.timestamptz:
+      return toIsoTimestamp(text);
+    case OID.point:
+    case OID.lseg:
+    case OID.path:
+    case OID.box:
+    case OID.polygon:
+    case OID.line:
+    case OID.circle:
+      return decodeGeometry(text, oid);
+  }
+
+  const type = types.get(oid);
+  if (type?.category === 'A' && type.elem) {
+    return parseArrayLiteral(text, type.delimiter, element => decodeValue(element, type.elem, types, bytea));
+  }
+  if (type?.rangeSubtype) {
+    return parseRangeLiteral(text, bound => decodeValue(bound, type.rangeSubtype as number, types, bytea));
+  }
+  // bigint, numeric, money and JSON stay strings so no digits (or duplicate JSON keys) are lost
+  return text;
+}
+
+function decodeBytea(text: string, encoding: ByteaEncoding): string {
+  // Only the hex output format is converted; `bytea_output = escape` is passed through
+  if (encoding === 'base64' && text.startsWith('\\x')) {
+    return Buffer.from(text.slice(2), 'hex').toString('base64');
+  }
+  return text;
+}
+
+const TIMESTAMP_PATTERN = /^(\d{4,}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}(?:\.\d+)?)(?:([+-]\d{2})(?::?(\d{2}))?(?::?(\d{2}))?)?$/;
+
+/** `2024-01-02 03:04:05.6+01` -> `2024-01-02T03:04:05.6+01:00`; infinities, BC dates and other DateStyles stay as sent */
+function toIsoTimestamp(text: string): string {
+  const match = TIMESTAMP_PATTERN.exec(text);
+  if (!match) {
+    return text;
+  }
+  const [, date, time, hours, minutes, seconds] = match;
+  if (hours === undefined) {
+    return `${date}T${time}`;
+  }
+  return `${date}T${time}${hours}:${minutes ?? '00'}${seconds ? `:${seconds}` : ''}`;
+}
+
+const NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|[-+]?Infinity|NaN/g;
+
+function decodeGeometry(text: string, oid: number): unknown {
+  const numbers = (text.match(NUMBER_PATTERN) ?? []).map(Number);
+  const points: Array<{ x: number; y: number }> = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    points.push({ x: numbers[i], y: numbers[i + 1] });
+  }
+  switch (oid) {
+    case OID.point:
+      return points[0];
+    case OID.line:
+      return { a: numbers[0], b: numbers[1], c: numbers[2] };
+    case OID.circle:
+      return { x: numbers[0], y: numbers[1], radius: numbers[2] };
+    case OID.path:
+      // Closed paths print as ((...)), open ones as [(...)]
+      return { closed: text.startsWith('('), points };
+    default:
+      return points;
+  }
+}
+
+/** Parse an array literal such as `{1,NULL,"a b"}` or `[0:1]={{1,2},{3,4}}` into nested arrays */
+function parseArrayLiteral(text: string, delimiter: string, decodeElement: (element: string | null) => unknown): unknown[] {
+  // Arrays with non-default lower bounds are prefixed with their dimensions
+  let position = text.startsWith('[') ? text.indexOf('=') + 1 : 0;
+
+  const parseLevel = (): unknown[] => {
+    const items: unknown[] = [];
+    position++; // {
+    while (position < text.length && text[position] !== '}') {
+      if (text[position] === '{') {
+        items.push(parseLevel());
+      } else if (text[position] === '"') {
+        let value = '';
+        position++;
+        while (position < text.length && text[position] !== '"') {
+          if (text[position] === '\\') position++;
+          value += text[position++];
+        }
+        position++;
+        items.push(decodeElement(value));
+      } else {
+        let end = position;
+        while (end < text.length && text[end] !== delimiter && text[end] !== '}') end++;
+        const value = text.slice(position, end).trim();
+        position = end;
+        items.push(value === 'NULL' ? null : decodeElement(value));
+      }
+      if (text[position] === delimiter) position++;
+    }
+    position++; // }
+    return items;
+  };
+
+  return parseLevel();
+}
+
+interface RangeValue {
+  empty?: true;
+  /** `null` for an unbounded side */
+  lower?: unknown;
+  upper?: unknown;
+  lowerInclusive?: boolean;
+  upperInclusive?: boolean;
+}
+
+/** Parse a range literal such as `[1,10)`, `(,"2024-01-01")` or `empty` */
+function parseRangeLiteral(text: string, decodeBound: (bound: string) => unknown): RangeValue {
+  if (text === 'empty') {
+    return { empty: true };
+  }
+  const bounds: Array<string | null> = [];
+  let position = 1;
+  for (let side = 0; side < 2; side++) {
+    let value = '';
+    let quoted = false;
+    while (position < text.length - 1 && (quoted || text[position] !== ',')) {
+      const char = text[position];
+      if (char === '"') {
+        if (quoted && text[position + 1] === '"') {
+          value += '"';
+          position++;
+        } else {
+          quoted = !quoted;
+        }
+      } else if (char === '\\') {
+        value += text[++position];
+      } else {
+        value += char;
+      }
+      position++;
+    }
+    bounds.push(value === '' && text[position - 1] !== '"' ? null : value);
+    position++; // , or the closing bracket
+  }
+  return {
+    lower: bounds[0] === null ? null : decodeBound(bounds[0]),
+    upper: bounds[1] === null ? null : decodeBound(bounds[1]),
+    lowerInclusive: text.startsWith('['),
+    upperInclusive: text.endsWith(']')
+  };
+}
@@ -0,0 +1,152 @@
+import { DatabaseConnection } from './connection.js';
+import { MAX_CURSORS_PER_SESSION, QueryCursor } from './cursor.js';
+import type { ByteaEncoding } from './serialize.js';
+import { SessionTransaction, type TransactionOptions } from './transaction.js';
+
+/** Session id used for the single stdio client */
+export const STDIO_SESSION_ID = 'stdio';
+
+/**
+ * Database state belonging to one MCP session. Each tool invocation gets its
+ * own `DatabaseConnection` from the session, so parallel agents on the HTTP
+ * transport (and parallel calls within one session) are isolated from each
+ * other while still sharing the pools in `poolCache`.
+ */
+export class DatabaseSession {
+  private readonly connections = new Set<DatabaseConnection>();
+  private readonly cursors = new Map<string, QueryCursor>();
+  private transaction: SessionTransaction | null = null;
+  private beginning = false;
+  /** How the last transaction ended, for calls that expect it to be open */
+  private lastTransactionOutcome: string | null = null;
+  private closed = false;
+
+  constructor(public readonly id: string) {}
+
+  /** A connection for one tool invocation; it runs in the session transaction while one is open */
+  public connection(): DatabaseConnection {
+    if (this.closed) {
+      throw new Error(`Session ${this.id} is closed`);
+    }
+    const db = new DatabaseConnection(conn => this.connections.delete(conn), this.transaction ?? undefined);
+    this.connections.add(db);
+    return db;
+  }
+
+  public get openTransaction(): SessionTransaction | null {
+    return this.transaction;
+  }
+
+  /** The open transaction, or an error saying how the last one ended */
+  public requireTransaction(): SessionTransaction {
+    if (!this.transaction) {
+      throw new Error(`No transaction is open in this session${this.lastTransactionOutcome ? ` (the last one was ${this.lastTransactionOutcome})` : ''}`);
+    }
+    return this.transaction;
+  }
+
+  /** Begin a transaction that the session's tool calls run in until it is committed or rolled back */
+  public async beginTransaction(connectionString: string, options: TransactionOptions): Promise<SessionTransaction> {
+    if (this.transaction || this.beginning) {
+      throw new Error('A transaction is already open in this session; commit or roll it back first');
+    }
+    this.beginning = true;
+    const db = this.connection();
+    try {
+      await db.connect(connectionString);
+      this.transaction = await SessionTransaction.begin(db, options, (ended, outcome) => {
+        if (this.transaction === ended) {
+          this.transaction = null;
+          this.lastTransactionOutcome = outcome;
+        }
+      });
+      return this.transaction;
+    } catch (error) {
+      await db.disconnect();
+      throw error;
+    } finally {
+      this.beginning = false;
+    }
+  }
+
+  public get activeConnections(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Declare a server-side cursor for a read-only SELECT. `db` must be a
+   * connected connection of this session; the cursor takes it over.
+   */
+  public async openCursor(
+    db: DatabaseConnection,
+    sql: string,
+    params: unknown[],
+    options: { pageSize: number; timeout?: number; bytea?: ByteaEncoding }
+  ): Promise<QueryCursor> {
+    if (this.transaction) {
+      throw new Error('Paging with pageSize is not available inside a session transaction; use LIMIT and OFFSET instead');
+    }
+    if (this.cursors.size >= MAX_CURSORS_PER_SESSION) {
+      throw new Error(`Too many open cursors (maximum ${MAX_CURSORS_PER_SESSION}). Fetch existing cursors to the end or close them first.`);
+    }
+    const cursor = await QueryCursor.open(db, sql, params, options, closed => this.cursors.delete(closed.token));
+    this.cursors.set(cursor.token, cursor);
+    return cursor;
+  }
+
+  public getCursor(token: string): QueryCursor | undefined {
+    return this.cursors.get(token);
+  }
+
+  public async close(): Promise<void> {
+    this.closed = true;
+    if (this.transaction) {
+      try {
+        await this.transaction.rollback('rolled back when the session closed');
+      } catch (error) {
+        console.error(`Error rolling back the transaction of session ${this.id}:`, error);
+      }
+    }
+    // Cursors roll back their transaction before their connection is released
+    for (const cursor of [...this.cursors.values()]) {
+      try {
+        await cursor.close();
+      } catch (error) {
+        console.error(`Error closing cursor for session ${this.id}:`, error);
+      }
+    }
+    for (const db of [...this.connections]) {
+      try {
+        await db.disconnect();
+      } catch (error) {
+        console.error(`Error releasing connection for session ${this.id}:`, error);
+      }
+    }
+  }
+}
+
+const sessions = new Map<string, DatabaseSession>();
+
+export function getSession(sessionId: string = STDIO_SESSION_ID): DatabaseSession {
+  let session = sessions.get(sessionId);
+  if (!session) {
+    session = new DatabaseSession(sessionId);
+    sessions.set(sessionId, session);
+  }
+  return session;
+}
+
+export async function closeSession(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return;
+  }
+  sessions.delete(sessionId);
+  await session.close();
+}
+
+export async function closeAllSessions(): Promise<void> {
+  for (const sessionId of [...sessions.keys()]) {
+    await closeSession(sessionId);
+  }
+}
@@ -0,0 +1,635 @@
+/**
+ * Lightweight PostgreSQL lexer and statement classifier. It does not build a
+ * full syntax tree; it tokenizes the text (so comments, literals and quoted
+ * identifiers can never be mistaken for syntax), splits it into statements and
+ * classifies each one well enough for safety checks and row-limit injection.
+ */
+
+export type TokenType = 'word' | 'quoted' | 'string' | 'number' | 'param' | 'op' | 'punct';
+
+export interface SqlToken {
+  type: TokenType;
+  value: string;
+  /** Uppercased value for `word` tokens, raw value otherwise */
+  upper: string;
+  /** Parenthesis nesting depth the token sits at */
+  depth: number;
+  start: number;
+  end: number;
+  /** Literal or quoted identifier that runs to the end of the input */
+  unterminated?: boolean;
+}
+
+export type StatementKind =
+  | 'select'
+  | 'insert'
+  | 'update'
+  | 'delete'
+  | 'merge'
+  | 'ddl'
+  | 'dcl'
+  | 'transaction'
+  | 'explain'
+  | 'show'
+  | 'set'
+  | 'copy'
+  | 'call'
+  | 'utility'
+  | 'other';
+
+export interface SqlRelation {
+  /** Schema when the name is qualified */
+  schema?: string;
+  name: string;
+}
+
+export interface SqlStatement {
+  /** Statement text without surrounding comments or the trailing semicolon */
+  text: string;
+  kind: StatementKind;
+  /** Leading command, e.g. "SELECT", "CREATE TABLE", "DROP INDEX" */
+  command: string;
+  readOnly: boolean;
+  /** Why the statement is not read-only (empty when it is) */
+  reasons: string[];
+  /** Top-level LIMIT or FETCH clause present */
+  hasLimit: boolean;
+  dataModifyingCte: boolean;
+  functionCalls: string[];
+  /** Tables and views the statement names (best effort, CTE names excluded) */
+  relations: SqlRelation[];
+  tokens: SqlToken[];
+}
+
+export interface SqlAnalysis {
+  statements: SqlStatement[];
+  readOnly: boolean;
+}
+
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|`?';
+
+const KIND_BY_KEYWORD: Record<string, StatementKind> = {
+  SELECT: 'select', VALUES: 'select', TABLE: 'select',
+  INSERT: 'insert', UPDATE: 'update', DELETE: 'delete', MERGE: 'merge',
+  CREATE: 'ddl', ALTER: 'ddl', DROP: 'ddl', TRUNCATE: 'ddl', COMMENT: 'ddl', SECURITY: 'ddl', IMPORT: 'ddl',
+  GRANT: 'dcl', REVOKE: 'dcl', REASSIGN: 'dcl',
+  BEGIN: 'transaction', START: 'transaction', COMMIT: 'transaction', END: 'transaction', ROLLBACK: 'transaction',
+  ABORT: 'transaction', SAVEPOINT: 'transaction', RELEASE: 'transaction', PREPARE: 'transaction',
+  EXPLAIN: 'explain', SHOW: 'show', SET: 'set', RESET: 'set', COPY: 'copy', CALL: 'call', DO: 'call', EXECUTE: 'call',
+  VACUUM: 'utility', ANALYZE: 'utility', ANALYSE: 'utility', CLUSTER: 'utility', REINDEX: 'utility', REFRESH: 'utility',
+  CHECKPOINT: 'utility', LOCK: 'utility', DISCARD: 'utility', LISTEN: 'utility', UNLISTEN: 'utility', NOTIFY: 'utility',
+  LOAD: 'utility', DEALLOCATE: 'utility', FETCH: 'utility', MOVE: 'utility', CLOSE: 'utility', DECLARE: 'utility'
+};
+
+const CTE_MAIN_KEYWORDS = new Set(['SELECT', 'VALUES', 'TABLE', 'INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+const DML_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+const DDL_MODIFIERS = new Set(['OR', 'REPLACE', 'TEMP', 'TEMPORARY', 'UNLOGGED', 'UNIQUE', 'GLOBAL', 'LOCAL', 'RECURSIVE', 'TRUSTED', 'PROCEDURAL', 'DEFAULT']);
+const TWO_WORD_OBJECTS = new Set(['MATERIALIZED', 'FOREIGN', 'EVENT', 'TEXT', 'ACCESS', 'USER', 'OPERATOR']);
+
+// Keywords that may be followed by "(" without being a function call
+const NON_FUNCTION_WORDS = new Set([
+  'IN', 'EXISTS', 'VALUES', 'AS', 'ANY', 'ALL', 'SOME', 'ARRAY', 'ROW', 'OVER', 'FILTER', 'WITHIN', 'USING', 'ON',
+  'AND', 'OR', 'NOT', 'WHERE', 'FROM', 'JOIN', 'SELECT', 'INTO', 'TABLE', 'LATERAL', 'BY', 'HAVING', 'WHEN', 'THEN',
+  'ELSE', 'CASE', 'RETURNING', 'SET', 'WITH', 'MATERIALIZED', 'UNION', 'INTERSECT', 'EXCEPT', 'LIMIT', 'OFFSET',
+  'KEY', 'CHECK', 'UNIQUE', 'CONFLICT', 'DO', 'INCLUDE', 'WINDOW', 'SETS', 'CUBE', 'ROLLUP', 'DISTINCT',
+  'EXPLAIN', 'ANALYZE', 'ANALYSE', 'VACUUM', 'COPY', 'DEFAULT'
+]);
+
+// A name after these keywords followed by "(" is a relation or routine being defined, not a call
+const RELATION_PREFIX_WORDS = new Set([
+  'INTO', 'TABLE', 'REFERENCES', 'INDEX', 'VIEW', 'AS', 'USING', 'TYPE', 'FUNCTION', 'PROCEDURE', 'AGGREGATE', 'TRIGGER'
+]);
+
+// Built-in functions that write, take locks, or affect other sessions
+const SIDE_EFFECT_FUNCTIONS = [
+  'nextval', 'setval', 'set_config', 'txid_current', 'pg_current_xact_id',
+  'pg_advisory_', 'pg_try_advisory_', 'pg_cancel_backend', 'pg_terminate_backend', 'pg_reload_conf',
+  'pg_rotate_logfile', 'pg_switch_wal', 'pg_create_restore_point', 'pg_promote', 'pg_log_backend_memory_contexts',
+  'pg_create_physical_replication_slot', 'pg_create_logical_replication_slot', 'pg_drop_replication_slot',
+  'pg_replication_origin_', 'pg_notify', 'pg_stat_reset', 'pg_stat_statements_reset', 'pg_file_',
+  'lo_import', 'lo_export', 'lo_create', 'lo_creat', 'lo_unlink', 'lo_put', 'lo_from_bytea', 'lo_truncate',
+  'lowrite', 'lo_open', 'dblink_exec', 'dblink'
+];
+
+export function tokenize(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const push = (type: TokenType, start: number, end: number, unterminated = false) => {
+    const value = sql.slice(start, end);
+    const token: SqlToken = { type, value, upper: type === 'word' ? value.toUpperCase() : value, depth, start, end };
+    if (unterminated) token.unterminated = true;
+    tokens.push(token);
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+    } else if (ch === '/' && next === '*') {
+      let nested = 1;
+      let j = i + 2;
+      while (j < sql.length && nested > 0) {
+        if (sql[j] === '/' && sql[j + 1] === '*') { nested++; j += 2; }
+        else if (sql[j] === '*' && sql[j + 1] === '/') { nested--; j += 2; }
+        else j++;
+      }
+      i = j;
+    } else if ((ch === 'E' || ch === 'e') && next === '\'') {
+      // Escape string: backslash escapes the next character
+      let j = i + 2;
+      let closed = false;
+      while (j < sql.length) {
+        if (sql[j] === '\\') { j += 2; continue; }
+        if (sql[j] === '\'' && sql[j + 1] === '\'') { j += 2; continue; }
+        if (sql[j] === '\'') { j++; closed = true; break; }
+        j++;
+      }
+      push('string', i, Math.min(j, sql.length), !closed);
+      i = j;
+    } else if (ch === '\'' || ch === '"') {
+      let j = i + 1;
+      let closed = false;
+      while (j < sql.length) {
+        if (sql[j] === ch && sql[j + 1] === ch) { j += 2; continue; }
+        if (sql[j] === ch) { j++; closed = true; break; }
+        j++;
+      }
+      push(ch === '"' ? 'quoted' : 'string', i, Math.min(j, sql.length), !closed);
+      i = j;
+    } else if (ch === '$' && /[0-9]/.test(next ?? '')) {
+      let j = i + 1;
+      while (j < sql.length && /[0-9]/.test(sql[j])) j++;
+      push('param', i, j);
+      i = j;
+    } else if (ch === '$') {
+      const tag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        const j = close === -1 ? sql.length : close + tag[0].length;
+        push('string', i, j, close === -1);
+        i = j;
+      } else {
+        push('op', i, i + 1);
+        i++;
+      }
+    } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(next ?? ''))) {
+      let j = i;
+      while (j < sql.length && /[0-9.eE_]/.test(sql[j])) {
+        if ((sql[j] === 'e' || sql[j] === 'E') && (sql[j + 1] === '-' || sql[j + 1] === '+')) j++;
+        j++;
+      }
+      push('number', i, j);
+      i = j;
+    } else if (/[A-Za-z_\u0080-\uffff]/.test(ch)) {
+      let j = i + 1;
+      while (j < sql.length && /[A-Za-z0-9_$\u0080-\uffff]/.test(sql[j])) j++;
+      push('word', i, j);
+      i = j;
+    } else if (ch === '(') {
+      push('punct', i, i + 1);
+      depth++;
+      i++;
+    } else if (ch === ')') {
+      depth = Math.max(0, depth - 1);
+      push('punct', i, i + 1);
+      i++;
+    } else if (ch === ',' || ch === ';' || ch === '.' || ch === '[' || ch === ']') {
+      push('punct', i, i + 1);
+      i++;
+    } else if (ch === ':' && next === ':') {
+      push('op', i, i + 2);
+      i += 2;
+    } else if (OPERATOR_CHARS.includes(ch)) {
+      let j = i + 1;
+      while (j < sql.length && OPERATOR_CHARS.includes(sql[j]) && !(sql[j] === '-' && sql[j + 1] === '-') && !(sql[j] === '/' && sql[j + 1] === '*')) j++;
+      push('op', i, j);
+      i = j;
+    } else {
+      push('op', i, i + 1);
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+function findCommand(tokens: SqlToken[], startIndex: number): string {
+  const keyword = tokens[startIndex]?.upper ?? '';
+  if (!['CREATE', 'ALTER', 'DROP'].includes(keyword)) {
+    return keyword;
+  }
+
+  let j = startIndex + 1;
+  while (j < tokens.length && tokens[j].type === 'word' && DDL_MODIFIERS.has(tokens[j].upper)) j++;
+  const object = tokens[j]?.type === 'word' ? tokens[j].upper : '';
+  if (TWO_WORD_OBJECTS.has(object) && tokens[j + 1]?.type === 'word') {
+    return `${keyword} ${object} ${tokens[j + 1].upper}`;
+  }
+  return object ? `${keyword} ${object}` : keyword;
+}
+
+// Keywords whose following name is a table or view
+const RELATION_KEYWORDS = new Set(['FROM', 'JOIN', 'INTO', 'TABLE', 'TRUNCATE', 'REFERENCES', 'VIEW', 'COPY']);
+// Keywords that end a FROM list (or a DROP/TRUNCATE/GRANT list) at its own depth
+const RELATION_LIST_END = new Set([
+  'WHERE', 'GROUP', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'HAVING', 'WINDOW', 'UNION', 'INTERSECT', 'EXCEPT',
+  'RETURNING', 'SET', 'FOR', 'CASCADE', 'RESTRICT', 'SELECT', 'VALUES', 'TO', 'FROM', 'WITH'
+]);
+// GRANT ... ON <object type> - the type keyword is not a relation name
+const DCL_OBJECT_TYPES = new Set([
+  'TABLE', 'ALL', 'SCHEMA', 'SEQUENCE', 'FUNCTION', 'PROCEDURE', 'ROUTINE', 'DATABASE', 'TYPE', 'DOMAIN',
+  'LANGUAGE', 'LARGE', 'FOREIGN', 'TABLESPACE', 'PARAMETER'
+]);
+const RELATION_NAME_SKIP = new Set(['ONLY', 'LATERAL', 'IF', 'NOT', 'EXISTS']);
+// FROM inside these calls is syntax, not a relation: EXTRACT(year FROM ts)
+const FROM_SYNTAX_FUNCTIONS = new Set(['EXTRACT', 'SUBSTRING', 'TRIM', 'OVERLAY', 'POSITION']);
+
+function isName(token: SqlToken | undefined): token is SqlToken {
+  return token !== undefined && (token.type === 'word' || token.type === 'quoted');
+}
+
+/** Read a possibly qualified name at `index`; returns the relation and the index after it */
+function readRelation(tokens: SqlToken[], index: number, allowCall: boolean): { relation?: SqlRelation; next: number } {
+  let j = index;
+  while (tokens[j]?.type === 'word' && RELATION_NAME_SKIP.has(tokens[j].upper)) j++;
+  if (!isName(tokens[j])) {
+    return { next: j };
+  }
+
+  const parts = [unquoteName(tokens[j])];
+  j++;
+  while (tokens[j]?.value === '.' && tokens[j].type === 'punct' && isName(tokens[j + 1])) {
+    parts.push(unquoteName(tokens[j + 1]));
+    j += 2;
+  }
+  // A name followed by "(" after FROM/JOIN is a set-returning function
+  if (!allowCall && tokens[j]?.value === '(' && tokens[j].type === 'punct') {
+    return { next: j };
+  }
+
+  const name = parts[parts.length - 1];
+  return { relation: parts.length > 1 ? { schema: parts[parts.length - 2], name } : { name }, next: j };
+}
+
+function collectRelations(tokens: SqlToken[], kind: StatementKind, command: string, mainIndex: number): SqlRelation[] {
+  const relations: SqlRelation[] = [];
+  const cteNames = new Set<string>();
+
+  // WITH name [(columns)] AS [NOT] [MATERIALIZED] (...)
+  if (tokens.some(t => t.type === 'word' && t.upper === 'WITH')) {
+    for (let j = 0; j < tokens.length - 1; j++) {
+      if (!isName(tokens[j])) continue;
+      let k = j + 1;
+      if (tokens[k].value === '(' && tokens[k].type === 'punct') k = matchingParen(tokens, k) + 1;
+      if (tokens[k]?.upper !== 'AS') continue;
+      k++;
+      while (tokens[k]?.upper === 'NOT' || tokens[k]?.upper === 'MATERIALIZED') k++;
+      if (tokens[k]?.value === '(' && tokens[k].type === 'punct') cteNames.add(unquoteName(tokens[j]));
+    }
+  }
+
+  const add = (relation: SqlRelation | undefined) => {
+    if (relation && (relation.schema || !cteNames.has(relation.name))) {
+      relations.push(relation);
+    }
+  };
+
+  for (let j = 0; j < tokens.length; j++) {
+    const token = tokens[j];
+    if (token.type !== 'word') continue;
+    const previous = tokens[j - 1];
+
+    let isRelationKeyword = RELATION_KEYWORDS.has(token.upper);
+    if (token.upper === 'UPDATE') {
+      // Only the UPDATE statement itself, not FOR UPDATE, ON UPDATE or DO UPDATE
+      isRelationKeyword = j === mainIndex || (previous?.value === '(' && previous.type === 'punct');
+    } else if (token.upper === 'ON') {
+      isRelationKeyword = kind === 'dcl'
+        ? !(tokens[j + 1]?.type === 'word' && DCL_OBJECT_TYPES.has(tokens[j + 1].upper))
+        : command.includes('INDEX') || command.includes('TRIGGER');
+    } else if (token.upper === 'USING') {
+      isRelationKeyword = command === 'MERGE' || command === 'DELETE';
+    } else if (kind === 'dcl' && (token.upper === 'FROM' || token.upper === 'TO')) {
+      isRelationKeyword = false;
+    } else if (token.upper === 'FROM') {
+      if (previous?.upper === 'DISTINCT') {
+        isRelationKeyword = false;
+      } else if (token.depth > 0) {
+        const open = tokens.slice(0, j).reverse().find(t => t.type === 'punct' && t.value === '(' && t.depth === token.depth - 1);
+        const callee = open ? tokens[tokens.indexOf(open) - 1] : undefined;
+        if (callee?.type === 'word' && FROM_SYNTAX_FUNCTIONS.has(callee.upper)) {
+          isRelationKeyword = false;
+        }
+      }
+    }
+    if (!isRelationKeyword) continue;
+
+    const allowCall = token.upper !== 'FROM' && token.upper !== 'JOIN';
+    const { relation, next } = readRelation(tokens, j + 1, allowCall);
+    add(relation);
+
+    // Comma-separated lists: FROM a JOIN b ON ..., c / DROP TABLE a, b / TRUNCATE a, b / GRANT ... ON a, b
+    const isList = token.upper === 'FROM' || token.upper === 'TRUNCATE' || kind === 'dcl'
+      || (command.startsWith('DROP') && (token.upper === 'TABLE' || token.upper === 'VIEW'));
+    if (!isList) continue;
+    for (let k = next; k < tokens.length; k++) {
+      const t = tokens[k];
+      if (t.depth < token.depth || (t.depth === token.depth && t.type === 'word' && RELATION_LIST_END.has(t.upper))) break;
+      if (t.depth === token.depth && t.type === 'punct' && t.value === ',') {
+        const item = readRelation(tokens, k + 1, token.upper !== 'FROM');
+        add(item.relation);
+        k = item.next - 1;
+      }
+    }
+  }
+
+  return relations;
+}
+
+function matchingParen(tokens: SqlToken[], openIndex: number): number {
+  const depth = tokens[openIndex].depth;
+  for (let j = openIndex + 1; j < tokens.length; j++) {
+    if (tokens[j].value === ')' && tokens[j].type === 'punct' && tokens[j].depth === depth) {
+      return j;
+    }
+  }
+  return tokens.length - 1;
+}
+
+function unquoteName(token: SqlToken): string {
+  return token.type === 'quoted' ? token.value.slice(1, -1).replace(/""/g, '"') : token.value.toLowerCase();
+}
+
+function collectFunctionCalls(tokens: SqlToken[]): string[] {
+  const calls: string[] = [];
+  for (let j = 0; j < tokens.length - 1; j++) {
+    const token = tokens[j];
+    const open = tokens[j + 1];
+    if ((token.type !== 'word' && token.type !== 'quoted') || open.type !== 'punct' || open.value !== '(') {
+      continue;
+    }
+    if (token.type === 'word' && NON_FUNCTION_WORDS.has(token.upper)) {
+      continue;
+    }
+
+    const qualified = tokens[j - 1]?.value === '.' && (tokens[j - 2]?.type === 'word' || tokens[j - 2]?.type === 'quoted');
+    const before = tokens[qualified ? j - 3 : j - 1];
+    if (before && ((before.type === 'punct' && before.value === ')') || (before.type === 'word' && RELATION_PREFIX_WORDS.has(before.upper)))) {
+      continue;
+    }
+    // CTE column list: name (a, b) AS (...)
+    if (tokens[matchingParen(tokens, j + 1) + 1]?.upper === 'AS') {
+      continue;
+    }
+
+    calls.push(qualified ? `${unquoteName(tokens[j - 2])}.${unquoteName(token)}` : unquoteName(token));
+  }
+  return calls;
+}
+
+/** Whether a called function writes, locks or affects other sessions (effects a ROLLBACK does not undo) */
+export function isSideEffectFunction(name: string): boolean {
+  const bare = name.startsWith('pg_catalog.') ? name.slice('pg_catalog.'.length) : name;
+  return SIDE_EFFECT_FUNCTIONS.some(fn => fn.endsWith('_') ? bare.startsWith(fn) : bare === fn);
+}
+
+function classifyTokens(tokens: SqlToken[], text: string): SqlStatement {
+  let first = 0;
+  while (first < tokens.length && tokens[first].value === '(' && tokens[first].type === 'punct') first++;
+
+  const leading = tokens[first];
+  const reasons: string[] = [];
+  const functionCalls = collectFunctionCalls(tokens);
+
+  let kind: StatementKind = leading?.type === 'word' ? (KIND_BY_KEYWORD[leading.upper] ?? 'other') : 'other';
+  let command = leading?.type === 'word' ? findCommand(tokens, first) : '';
+  let mainIndex = first;
+
+  if (leading?.upper === 'WITH') {
+    const main = tokens.findIndex((t, j) => j > first && t.type === 'word' && t.depth === leading.depth && CTE_MAIN_KEYWORDS.has(t.upper));
+    if (main !== -1) {
+      mainIndex = main;
+      kind = KIND_BY_KEYWORD[tokens[main].upper];
+      command = tokens[main].upper;
+    } else {
+      kind = 'other';
+      command = 'WITH';
+    }
+  }
+
+  const dataModifyingCte = tokens.some((t, j) =>
+    t.type === 'word' && DML_KEYWORDS.has(t.upper) && j > 0 && tokens[j - 1].value === '(' && tokens[j - 1].type === 'punct'
+  );
+
+  let readOnly = false;
+  let hasLimit = false;
+
+  switch (kind) {
+    case 'select': {
+      const mainDepth = tokens[mainIndex].depth;
+      hasLimit = tokens.some(t => t.type === 'word' && t.depth === 0 && (t.upper === 'LIMIT' || t.upper === 'FETCH'));
+
+      if (dataModifyingCte) {
+        reasons.push('contains a data-modifying CTE (INSERT/UPDATE/DELETE/MERGE inside WITH)');
+      }
+      if (tokens.some(t => t.type === 'word' && t.upper === 'INTO' && t.depth === mainDepth)) {
+        reasons.push('SELECT INTO creates a table');
+      }
+      const locking = tokens.some((t, j) =>
+        t.type === 'word' && t.upper === 'FOR' && ['UPDATE', 'SHARE', 'NO', 'KEY'].includes(tokens[j + 1]?.upper ?? '')
+      );
+      if (locking) {
+        reasons.push('takes row locks (FOR UPDATE/SHARE)');
+      }
+      readOnly = reasons.length === 0;
+      break;
+    }
+
+    case 'show':
+      readOnly = true;
+      break;
+
+    case 'explain': {
+      let j = first + 1;
+      let analyze = false;
+      if (tokens[j]?.value === '(' && tokens[j].type === 'punct') {
+        const close = matchingParen(tokens, j);
+        for (let k = j + 1; k < close; k++) {
+          if (tokens[k].upper === 'ANALYZE' || tokens[k].upper === 'ANALYSE') {
+            const setting = tokens[k + 1]?.upper;
+            analyze = !['FALSE', 'OFF', '0'].includes(setting ?? '');
+          }
+        }
+        j = close + 1;
+      } else {
+        while (tokens[j]?.type === 'word' && ['ANALYZE', 'ANALYSE', 'VERBOSE'].includes(tokens[j].upper)) {
+          if (tokens[j].upper !== 'VERBOSE') analyze = true;
+          j++;
+        }
+      }
+
+      if (analyze) {
+        const inner = tokens.slice(j);
+        const explained = classifyTokens(inner, inner.length > 0 ? text.slice(inner[0].start - tokens[0].start) : '');
+        if (!explained.readOnly) {
+          reasons.push(`EXPLAIN ANALYZE executes the statement, which is not read-only (${explained.reasons.join('; ') || explained.command})`);
+        }
+        command = `EXPLAIN ANALYZE ${explained.command}`.trim();
+      }
+      readOnly = reasons.length === 0;
+      break;
+    }
+
+    default:
+      reasons.push(`${command || 'statement'} is not a read-only statement`);
+  }
+
+  const sideEffects = functionCalls.filter(isSideEffectFunction);
+  if (sideEffects.length > 0 && readOnly) {
+    reasons.push(`calls functions with side effects: ${[...new Set(sideEffects)].join(', ')}`);
+    readOnly = false;
+  }
+
+  const relations = collectRelations(tokens, kind, command, mainIndex);
+
+  return { text, kind, command, readOnly, reasons, hasLimit, dataModifyingCte, functionCalls, relations, tokens };
+}
+
+/** Split SQL text into classified statements (empty statements are dropped) */
+export function parseSql(sql: string): SqlStatement[] {
+  const tokens = tokenize(sql);
+  const statements: SqlStatement[] = [];
+  let current: SqlToken[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      const text = sql.slice(current[0].start, current[current.length - 1].end);
+      statements.push(classifyTokens(current, text));
+    }
+    current = [];
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'punct' && token.value === ';') {
+      flush();
+    } else {
+      current.push(token);
+    }
+  }
+  flush();
+
+  return statements;
+}
+
+export function analyzeSql(sql: string): SqlAnalysis {
+  const statements = parseSql(sql);
+  return {
+    statements,
+    readOnly: statements.length > 0 && statements.every(s => s.readOnly)
+  };
+}
+
+/** True for exactly one statement that cannot write */
+export function isReadOnlyStatement(sql: string): boolean {
+  const statements = parseSql(sql);
+  return statements.length === 1 && statements[0].readOnly;
+}
+
+/** DELETE (also inside a CTE), TRUNCATE, DROP ... and ALTER ... DROP ... */
+export function isDestructiveStatement(statement: SqlStatement): boolean {
+  if (statement.kind === 'delete') {
+    return true;
+  }
+  if (statement.dataModifyingCte && statement.tokens.some((t, j) => t.upper === 'DELETE' && statement.tokens[j - 1]?.value === '(')) {
+    return true;
+  }
+  return statement.kind === 'ddl' && statement.tokens.some(t => t.type === 'word' && (t.upper === 'DROP' || t.upper === 'TRUNCATE'));
+}
+
+/**
+ * Parse SQL that must be exactly one statement, throwing a descriptive error
+ * otherwise.
+ */
+export function parseSingleStatement(sql: string): SqlStatement {
+  const statements = parseSql(sql);
+  if (statements.length !== 1) {
+    throw new Error(`Expected exactly one SQL statement, found ${statements.length}`);
+  }
+  return statements[0];
+}
+
+/**
+ * Cap the number of rows a SELECT returns. Appends LIMIT when the statement
+ * has no top-level LIMIT/FETCH; otherwise wraps it so the smaller limit wins.
+ */
+export function applyRowLimit(statement: SqlStatement, limit: number): string {
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error(`Invalid limit: ${limit}`);
+  }
+  if (!statement.hasLimit) {
+    return `${statement.text} LIMIT ${limit}`;
+  }
+  return `SELECT * FROM (${statement.text}) AS limited_rows LIMIT ${limit}`;
+}
+
+/**
+ * Validate a SQL fragment that is spliced into generated SQL (a WHERE clause,
+ * CHECK expression or RETURNING list): no statement separators and balanced
+ * parentheses, so it cannot terminate or escape the surrounding statement.
+ */
+export function assertSqlFragment(fragment: string, label: string): void {
+  const tokens = tokenize(fragment);
+
+  let position = 0;
+  for (const token of [...tokens, { start: fragment.length, end: fragment.length }]) {
+    if (fragment.slice(position, token.start).trim()) {
+      throw new Error(`${label} must not contain comments`);
+    }
+    position = token.end;
+  }
+
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.unterminated) {
+      throw new Error(`${label} has an unterminated literal or quoted identifier`);
+    }
+    if (token.type !== 'punct') continue;
+    if (token.value === ';') {
+      throw new Error(`${label} must not contain statement separators (;)`);
+    }
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth--;
+    if (depth < 0) {
+      throw new Error(`${label} has unbalanced parentheses`);
+    }
+  }
+  if (depth !== 0) {
+    throw new Error(`${label} has unbalanced parentheses`);
+  }
+}
+
+/**
+ * Renumber the `$n` placeholders of a fragment by `offset`, so its parameters
+ * can follow those of the statement it is spliced into. Also returns the
+ * highest placeholder number of the original fragment (0 when it has none).
+ */
+export function shiftParameters(fragment: string, offset: number): { text: string; highest: number } {
+  let text = '';
+  let position = 0;
+  let highest = 0;
+  for (const token of tokenize(fragment)) {
+    if (token.type !== 'param') continue;
+    const number = Number(token.value.slice(1));
+    highest = Math.max(highest, number);
+    text += `${fragment.slice(position, token.start)}$${number + offset}`;
+    position = token.end;
+  }
+  return { text: text + fragment.slice(position), highest };
+}
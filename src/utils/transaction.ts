@@ -0,0 +1,164 @@
+import type { DatabaseConnection, SharedClient } from './connection.js';
+
+/** A session transaction that no tool call uses for this long is rolled back */
+export const TRANSACTION_IDLE_TTL_MS = 5 * 60 * 1000;
+
+export const ISOLATION_LEVELS = ['read committed', 'repeatable read', 'serializable'] as const;
+
+export type IsolationLevel = typeof ISOLATION_LEVELS[number];
+
+export interface TransactionOptions {
+  isolationLevel?: IsolationLevel;
+  readOnly?: boolean;
+  idleTimeout?: number;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * A transaction opened with `sierra_transaction` that spans tool calls. It
+ * owns a connection whose client stays checked out until the transaction
+ * ends; the session's tool calls borrow that client one at a time (see
+ * `DatabaseSession.connection()`). It is rolled back when no call has used
+ * it for `idleTimeout` milliseconds, or when the session closes.
+ */
+export class SessionTransaction implements SharedClient {
+  public readonly startedAt = new Date();
+  private readonly savepoints: string[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private ended = false;
+  /** Settles when the current borrower hands the client back */
+  private queue: Promise<void> = Promise.resolve();
+
+  private constructor(
+    public readonly owner: DatabaseConnection,
+    public readonly options: TransactionOptions & { idleTimeout: number },
+    private readonly onEnd: (transaction: SessionTransaction, outcome: string) => void
+  ) {}
+
+  /** Start a transaction on an already connected `db`, which the transaction then owns */
+  public static async begin(
+    db: DatabaseConnection,
+    options: TransactionOptions,
+    onEnd: (transaction: SessionTransaction, outcome: string) => void
+  ): Promise<SessionTransaction> {
+    const modes = [
+      options.isolationLevel ? `ISOLATION LEVEL ${options.isolationLevel.toUpperCase()}` : '',
+      options.readOnly ? 'READ ONLY' : ''
+    ].filter(Boolean);
+    await db.query(modes.length > 0 ? `BEGIN ${modes.join(', ')}` : 'BEGIN');
+
+    const transaction = new SessionTransaction(db, { ...options, idleTimeout: options.idleTimeout ?? TRANSACTION_IDLE_TTL_MS }, onEnd);
+    transaction.touch();
+    return transaction;
+  }
+
+  public get savepointNames(): readonly string[] {
+    return this.savepoints;
+  }
+
+  private touch(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    if (this.ended) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      const minutes = Math.round(this.options.idleTimeout / 60000);
+      this.rollback(`rolled back after ${minutes > 0 ? `${minutes} idle minutes` : 'being idle'}`)
+        .catch(error => console.error('Error rolling back idle session transaction:', error));
+    }, this.options.idleTimeout);
+    this.timer.unref();
+  }
+
+  public async acquire(): Promise<() => void> {
+    let handBack!: () => void;
+    const previous = this.queue;
+    this.queue = new Promise<void>(resolve => {
+      handBack = resolve;
+    });
+    await previous;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    let returned = false;
+    return () => {
+      if (!returned) {
+        returned = true;
+        this.touch();
+        handBack();
+      }
+    };
+  }
+
+  /** Run `work` on the owner's client while no tool call is using it */
+  private async exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const handBack = await this.acquire();
+    try {
+      if (this.ended) {
+        throw new Error('The session transaction has ended');
+      }
+      return await work();
+    } finally {
+      handBack();
+    }
+  }
+
+  public async savepoint(name: string): Promise<void> {
+    await this.exclusive(() => this.owner.query(`SAVEPOINT ${quoteIdentifier(name)}`));
+    this.savepoints.push(name);
+  }
+
+  /** Undo everything since savepoint `name`; it stays open, the savepoints after it do not */
+  public async rollbackTo(name: string): Promise<void> {
+    const index = this.savepoints.lastIndexOf(name);
+    if (index === -1) {
+      throw new Error(`No savepoint named "${name}"${this.savepoints.length > 0 ? ` (open savepoints: ${this.savepoints.join(', ')})` : ''}`);
+    }
+    await this.exclusive(() => this.owner.query(`ROLLBACK TO SAVEPOINT ${quoteIdentifier(name)}`));
+    this.savepoints.splice(index + 1);
+  }
+
+  /**
+   * Commit and end the transaction. Returns false when PostgreSQL rolled it
+   * back instead, because a statement in it had failed.
+   */
+  public async commit(): Promise<boolean> {
+    return this.exclusive(async () => {
+      try {
+        const [result] = await this.owner.queryResults('COMMIT');
+        const committed = result?.command !== 'ROLLBACK';
+        await this.end(committed ? 'committed' : 'rolled back on commit because a statement in it had failed');
+        return committed;
+      } catch (error) {
+        await this.end(`lost: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
+      }
+    });
+  }
+
+  public async rollback(outcome = 'rolled back'): Promise<void> {
+    await this.exclusive(async () => {
+      try {
+        await this.owner.query('ROLLBACK');
+      } finally {
+        await this.end(outcome);
+      }
+    });
+  }
+
+  private async end(outcome: string): Promise<void> {
+    this.ended = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.onEnd(this, outcome);
+    await this.owner.disconnect();
+  }
+}